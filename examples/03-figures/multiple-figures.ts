@@ -4,7 +4,7 @@
  * This example shows how to:
  * - Create multiple figures in one script
  * - Save all figures at once
- * - Name figures with prefixes
+ * - Name figures with prefixes and filename templates
  *
  * Run: npx tsx 03-figures/multiple-figures.ts
  */
@@ -25,7 +25,7 @@ async function main() {
     console.log('Creating multiple figures...');
     console.log('─'.repeat(40));
 
-    const paths = await Matlab.saveAllFigures(
+    const figures = await Matlab.saveAllFigures(
       `
       % Figure 1: Line Plot
       figure(1);
@@ -72,9 +72,9 @@ async function main() {
       { format: 'png', resolution: 150 }
     );
 
-    console.log(`\n✅ Created ${paths.length} figures:`);
-    for (const path of paths) {
-      console.log(`   📄 ${path}`);
+    console.log(`\n✅ Created ${figures.length} figures:`);
+    for (const { path, titles, width, height } of figures) {
+      console.log(`   📄 ${path} - ${titles.join(', ')} (${width}x${height})`);
     }
 
     // Save same figures in different format
@@ -84,7 +84,7 @@ async function main() {
     const svgDir = join(import.meta.dirname, 'output/multi-svg');
     await mkdir(svgDir, { recursive: true });
 
-    const svgPaths = await Matlab.saveAllFigures(
+    const svgFigures = await Matlab.saveAllFigures(
       `
       figure(1);
       x = 0:0.1:2*pi;
@@ -105,8 +105,8 @@ async function main() {
       { format: 'svg' }
     );
 
-    console.log(`\n✅ Created ${svgPaths.length} SVG files:`);
-    for (const path of svgPaths) {
+    console.log(`\n✅ Created ${svgFigures.length} SVG files:`);
+    for (const { path } of svgFigures) {
       console.log(`   📄 ${path}`);
     }
 
@@ -117,29 +117,32 @@ async function main() {
     const customDir = join(import.meta.dirname, 'output/custom');
     await mkdir(customDir, { recursive: true });
 
-    const customPaths = await Matlab.saveAllFigures(
+    const customFigures = await Matlab.saveAllFigures(
       `
       % Non-sequential figure numbers
       figure(10);
+      set(gcf, 'Name', 'Red');
       plot(1:10, 'r-o');
       title('Figure 10');
       
       figure(20);
+      set(gcf, 'Name', 'Blue');
       plot(1:10, 'b-s');
       title('Figure 20');
       
       figure(30);
+      set(gcf, 'Name', 'Green');
       plot(1:10, 'g-^');
       title('Figure 30');
     `,
       customDir,
       'custom',
-      { format: 'png', resolution: 100 }
+      { format: 'png', resolution: 100, filenameTemplate: '{prefix}_{number}_{name}.{ext}' }
     );
 
-    console.log(`\n✅ Created ${customPaths.length} custom numbered figures:`);
-    for (const path of customPaths) {
-      console.log(`   📄 ${path}`);
+    console.log(`\n✅ Created ${customFigures.length} custom numbered figures:`);
+    for (const { path, figureNumber, name } of customFigures) {
+      console.log(`   📄 Figure ${figureNumber} (${name}): ${path}`);
     }
 
     console.log(`\n📁 All figures saved to: ${join(import.meta.dirname, 'output')}`);
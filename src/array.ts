@@ -0,0 +1,580 @@
+/**
+ * Column-major N-dimensional array matching MATLAB's memory layout
+ * @packageDocumentation
+ */
+
+import { Complex } from './complex.js';
+import { MatlabError } from './errors.js';
+import type {
+  MatNumericArray,
+  MatTypedArray,
+  MatlabArrayElement,
+  MatlabNumericClass,
+} from './types.js';
+
+/**
+ * Nested JavaScript array produced by {@link MatlabArray.toNested}
+ */
+export type NestedArray = Array<MatlabArrayElement | NestedArray>;
+
+/**
+ * Classes that can be held in a MatlabArray
+ */
+const NUMERIC_CLASSES: ReadonlySet<string> = new Set<MatlabNumericClass>([
+  'double',
+  'single',
+  'int8',
+  'uint8',
+  'int16',
+  'uint16',
+  'int32',
+  'uint32',
+  'int64',
+  'uint64',
+  'logical',
+]);
+
+/**
+ * Allocate a zero-filled typed array for a MATLAB class
+ */
+function allocate(type: MatlabNumericClass, length: number): MatTypedArray {
+  switch (type) {
+    case 'single':
+      return new Float32Array(length);
+    case 'int8':
+      return new Int8Array(length);
+    case 'uint8':
+    case 'logical':
+      return new Uint8Array(length);
+    case 'int16':
+      return new Int16Array(length);
+    case 'uint16':
+      return new Uint16Array(length);
+    case 'int32':
+      return new Int32Array(length);
+    case 'uint32':
+      return new Uint32Array(length);
+    case 'int64':
+      return new BigInt64Array(length);
+    case 'uint64':
+      return new BigUint64Array(length);
+    default:
+      return new Float64Array(length);
+  }
+}
+
+/**
+ * Value ranges of the MATLAB integer classes
+ */
+const INTEGER_RANGES: Partial<Record<MatlabNumericClass, [bigint, bigint]>> = {
+  int8: [-(2n ** 7n), 2n ** 7n - 1n],
+  uint8: [0n, 2n ** 8n - 1n],
+  int16: [-(2n ** 15n), 2n ** 15n - 1n],
+  uint16: [0n, 2n ** 16n - 1n],
+  int32: [-(2n ** 31n), 2n ** 31n - 1n],
+  uint32: [0n, 2n ** 32n - 1n],
+  int64: [-(2n ** 63n), 2n ** 63n - 1n],
+  uint64: [0n, 2n ** 64n - 1n],
+};
+
+/**
+ * Convert a value the way MATLAB casts to a class: integers round half
+ * away from zero and saturate, logical maps non-zero to 1
+ */
+function castValue(type: MatlabNumericClass, value: number | bigint | boolean): number | bigint {
+  if (type === 'logical') {
+    return value ? 1 : 0;
+  }
+
+  const range = INTEGER_RANGES[type];
+  if (!range) {
+    return Number(value);
+  }
+
+  let int: bigint;
+  if (typeof value === 'bigint') {
+    int = value;
+  } else {
+    const num = Number(value);
+    if (Number.isNaN(num)) int = 0n;
+    else if (!Number.isFinite(num)) int = num > 0 ? range[1] : range[0];
+    else int = BigInt(Math.sign(num) * Math.round(Math.abs(num)));
+  }
+
+  if (int < range[0]) int = range[0];
+  if (int > range[1]) int = range[1];
+  return type === 'int64' || type === 'uint64' ? int : Number(int);
+}
+
+/**
+ * Store a value in a typed array after casting it to the array's class
+ */
+function store(
+  array: MatTypedArray,
+  type: MatlabNumericClass,
+  index: number,
+  value: number | bigint | boolean
+): void {
+  array[index] = castValue(type, value) as never;
+}
+
+/**
+ * Normalize a dimension vector the way MATLAB does: at least two
+ * dimensions and no trailing singleton dimensions beyond the second
+ */
+function normalizeDims(dims: readonly number[]): number[] {
+  const out = dims.map((d) => {
+    if (!Number.isInteger(d) || d < 0) {
+      throw new MatlabError(`Invalid array dimension: ${d}`);
+    }
+    return d;
+  });
+
+  while (out.length < 2) out.push(1);
+  while (out.length > 2 && out[out.length - 1] === 1) out.pop();
+  return out;
+}
+
+/**
+ * Get the shape of a rectangular nested array of numbers, bigints, booleans or Complex values
+ */
+function nestedShape(
+  value: unknown[]
+): { dims: number[]; leaf: 'number' | 'bigint' | 'boolean' | 'complex' } | null {
+  if (value.length === 0) return null;
+
+  if (value.every((v) => typeof v === 'number')) {
+    return { dims: [value.length], leaf: 'number' };
+  }
+  if (value.every((v) => typeof v === 'bigint')) {
+    return { dims: [value.length], leaf: 'bigint' };
+  }
+  if (value.every((v) => typeof v === 'boolean')) {
+    return { dims: [value.length], leaf: 'boolean' };
+  }
+  if (value.every((v) => v instanceof Complex)) {
+    return { dims: [value.length], leaf: 'complex' };
+  }
+  if (!value.every((v) => Array.isArray(v))) return null;
+
+  const first = nestedShape(value[0] as unknown[]);
+  if (!first) return null;
+
+  for (const item of value.slice(1)) {
+    const shape = nestedShape(item as unknown[]);
+    if (
+      !shape ||
+      shape.leaf !== first.leaf ||
+      shape.dims.length !== first.dims.length ||
+      shape.dims.some((d, i) => d !== first.dims[i])
+    ) {
+      return null;
+    }
+  }
+
+  return { dims: [value.length, ...first.dims], leaf: first.leaf };
+}
+
+/**
+ * Dense numeric or logical MATLAB array
+ *
+ * Values are stored in a typed array in column-major order, exactly as
+ * MATLAB lays them out in memory, so arrays of any dimensionality and class
+ * can be passed back and forth without losing shape or precision.
+ * Subscripts used by the indexing helpers are zero-based.
+ *
+ * @example
+ * ```typescript
+ * import { MatlabArray } from 'node-matlab';
+ *
+ * // 2x3x2 int16 stack
+ * const stack = new MatlabArray('int16', [2, 3, 2]);
+ * stack.set([1, 2, 0], 42);
+ * stack.get(1, 2, 0); // 42
+ *
+ * // From nested JavaScript arrays (rows first)
+ * const m = MatlabArray.from([[1, 2], [3, 4]]);
+ * m.dims; // [2, 2]
+ * m.real; // Float64Array [1, 3, 2, 4]
+ * m.toNested(); // [[1, 2], [3, 4]]
+ * ```
+ */
+export class MatlabArray implements MatNumericArray {
+  /** MATLAB class name */
+  readonly type: MatlabNumericClass;
+  /** Array dimensions (at least two) */
+  readonly dims: number[];
+  /** Real part in column-major order */
+  readonly real: MatTypedArray;
+  /** Imaginary part in column-major order, for complex arrays */
+  readonly imag?: MatTypedArray;
+
+  /**
+   * Create an array
+   *
+   * @param type - MATLAB class (default: 'double')
+   * @param dims - Array dimensions
+   * @param real - Real part in column-major order (default: zeros)
+   * @param imag - Imaginary part in column-major order, for complex arrays
+   * @throws {MatlabError} If the class is not numeric or the data length does not match dims
+   */
+  constructor(
+    type: MatlabNumericClass = 'double',
+    dims: readonly number[] = [0, 0],
+    real?: MatTypedArray,
+    imag?: MatTypedArray
+  ) {
+    if (!NUMERIC_CLASSES.has(type)) {
+      throw new MatlabError(`Unsupported MatlabArray class: ${type}`);
+    }
+
+    this.type = type;
+    this.dims = normalizeDims(dims);
+
+    const numel = this.numel;
+    this.real = real ?? allocate(type, numel);
+    if (this.real.length !== numel) {
+      throw new MatlabError(
+        `Data length ${this.real.length} does not match dimensions [${this.dims.join(', ')}]`
+      );
+    }
+
+    if (imag) {
+      if (imag.length !== numel) {
+        throw new MatlabError(
+          `Imaginary data length ${imag.length} does not match dimensions [${this.dims.join(', ')}]`
+        );
+      }
+      this.imag = imag;
+    }
+  }
+
+  /**
+   * Whether the array has an imaginary part
+   */
+  get complex(): boolean {
+    return this.imag !== undefined;
+  }
+
+  /**
+   * Number of elements
+   */
+  get numel(): number {
+    return this.dims.reduce((a, b) => a * b, 1);
+  }
+
+  /**
+   * Number of dimensions
+   */
+  get ndims(): number {
+    return this.dims.length;
+  }
+
+  /**
+   * Whether the array has no elements
+   */
+  get isEmpty(): boolean {
+    return this.numel === 0;
+  }
+
+  /**
+   * Convert zero-based subscripts to a linear column-major index
+   *
+   * Missing trailing subscripts are treated as 0, as in MATLAB.
+   *
+   * @throws {MatlabError} If a subscript is out of range
+   */
+  index(...subscripts: number[]): number {
+    if (subscripts.length === 1) {
+      const [linear = 0] = subscripts;
+      if (!Number.isInteger(linear) || linear < 0 || linear >= this.numel) {
+        throw new MatlabError(`Index ${linear} out of range for ${this.numel} elements`);
+      }
+      return linear;
+    }
+
+    let index = 0;
+    let stride = 1;
+    const count = Math.max(subscripts.length, this.dims.length);
+
+    for (let i = 0; i < count; i++) {
+      const sub = subscripts[i] ?? 0;
+      const dim = this.dims[i] ?? 1;
+      if (!Number.isInteger(sub) || sub < 0 || sub >= dim) {
+        throw new MatlabError(
+          `Subscript ${sub} out of range for dimension ${i + 1} of size ${dim}`
+        );
+      }
+      index += sub * stride;
+      stride *= dim;
+    }
+
+    return index;
+  }
+
+  /**
+   * Convert a linear column-major index to zero-based subscripts
+   */
+  subscripts(index: number): number[] {
+    this.index(index);
+
+    const subs: number[] = [];
+    let rest = index;
+    for (const dim of this.dims) {
+      subs.push(rest % dim);
+      rest = Math.floor(rest / dim);
+    }
+    return subs;
+  }
+
+  /**
+   * Get the (real) value at zero-based subscripts or a linear index
+   */
+  get(...subscripts: number[]): number | bigint {
+    return this.real[this.index(...subscripts)] as number | bigint;
+  }
+
+  /**
+   * Get the imaginary part at zero-based subscripts or a linear index
+   *
+   * Returns 0 for real arrays.
+   */
+  getImag(...subscripts: number[]): number | bigint {
+    const index = this.index(...subscripts);
+    if (!this.imag) {
+      return this.type === 'int64' || this.type === 'uint64' ? 0n : 0;
+    }
+    return this.imag[index] as number | bigint;
+  }
+
+  /**
+   * Set the value at zero-based subscripts or a linear index
+   *
+   * @param subscripts - Subscripts, or a single linear index
+   * @param value - Real part
+   * @param imag - Imaginary part (complex arrays only)
+   */
+  set(
+    subscripts: number | number[],
+    value: number | bigint | boolean,
+    imag?: number | bigint
+  ): void {
+    const index = Array.isArray(subscripts) ? this.index(...subscripts) : this.index(subscripts);
+    store(this.real, this.type, index, value);
+
+    if (imag !== undefined) {
+      if (!this.imag) {
+        throw new MatlabError('Cannot set an imaginary part on a real MatlabArray');
+      }
+      store(this.imag, this.type, index, imag);
+    }
+  }
+
+  /**
+   * Get an element as a plain JavaScript value
+   */
+  private element(index: number): MatlabArrayElement {
+    const real = this.real[index] as number | bigint;
+    if (this.imag) {
+      const imag = this.imag[index] as number | bigint;
+      // 64-bit parts stay bigints so they are not rounded
+      return typeof real === 'bigint' || typeof imag === 'bigint'
+        ? { real, imag }
+        : new Complex(real, imag);
+    }
+    return this.type === 'logical' ? real !== 0 : real;
+  }
+
+  /**
+   * Convert to nested JavaScript arrays
+   *
+   * The result is nested once per dimension, so `value[i][j][k]` holds
+   * element (i, j, k). Row vectors become `[[a, b, c]]`. Logical arrays
+   * produce booleans and complex arrays produce {@link Complex} values
+   * (`{ real, imag }` bigint pairs for int64/uint64).
+   */
+  toNested(): NestedArray {
+    const build = (depth: number, offset: number, stride: number): NestedArray => {
+      const dim = this.dims[depth] ?? 1;
+      const out: NestedArray = [];
+      for (let i = 0; i < dim; i++) {
+        const index = offset + i * stride;
+        out.push(
+          depth === this.dims.length - 1
+            ? this.element(index)
+            : build(depth + 1, index, stride * dim)
+        );
+      }
+      return out;
+    };
+
+    return build(0, 0, 1);
+  }
+
+  /**
+   * Create a MatlabArray from a scalar, nested JavaScript arrays or a typed array
+   *
+   * Nested arrays are indexed rows first (`value[row][col][page]`); a flat
+   * array becomes a row vector and a scalar a 1x1 array. Without an explicit
+   * class, booleans produce a logical array, bigints an int64 array (uint64
+   * if a value does not fit), typed arrays their matching class and
+   * everything else a double array. {@link Complex} values produce a complex
+   * array.
+   *
+   * @param value - Scalar, nested array, typed array or existing MatlabArray
+   * @param type - MATLAB class to convert to
+   * @throws {MatlabError} If the value is not a number or rectangular numeric array
+   */
+  static from(value: unknown, type?: MatlabNumericClass): MatlabArray {
+    if (value instanceof MatlabArray) {
+      if (!type || type === value.type) return value;
+      const real = allocate(type, value.numel);
+      const imag = value.imag ? allocate(type, value.numel) : undefined;
+      for (let i = 0; i < value.numel; i++) {
+        store(real, type, i, value.real[i] ?? 0);
+        if (imag && value.imag) store(imag, type, i, value.imag[i] ?? 0);
+      }
+      return new MatlabArray(type, value.dims, real, imag);
+    }
+
+    if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+      const source = value as unknown as ArrayLike<number | bigint>;
+      const arrayType = type ?? typedArrayClass(value);
+      const real = allocate(arrayType, source.length);
+      for (let i = 0; i < source.length; i++) {
+        store(real, arrayType, i, source[i] ?? 0);
+      }
+      return new MatlabArray(arrayType, [1, source.length], real);
+    }
+
+    if (
+      typeof value === 'number' ||
+      typeof value === 'bigint' ||
+      typeof value === 'boolean' ||
+      value instanceof Complex
+    ) {
+      return MatlabArray.from([value], type);
+    }
+
+    if (!Array.isArray(value)) {
+      throw new MatlabError('MatlabArray.from expects a number or an array');
+    }
+
+    if (value.length === 0) {
+      return new MatlabArray(type ?? 'double', [0, 0]);
+    }
+
+    const shape = nestedShape(value);
+    if (!shape) {
+      throw new MatlabError('MatlabArray.from expects a rectangular array of numbers');
+    }
+
+    let arrayType: MatlabNumericClass = 'double';
+    if (type) arrayType = type;
+    else if (shape.leaf === 'boolean') arrayType = 'logical';
+    else if (shape.leaf === 'bigint') {
+      const max = INTEGER_RANGES.int64?.[1] ?? 0n;
+      arrayType = (value.flat(Number.POSITIVE_INFINITY) as bigint[]).some((v) => v > max)
+        ? 'uint64'
+        : 'int64';
+    }
+
+    const dims = shape.dims.length === 1 ? [1, shape.dims[0] ?? 0] : shape.dims;
+    const numel = dims.reduce((a, b) => a * b, 1);
+    const result = new MatlabArray(
+      arrayType,
+      dims,
+      allocate(arrayType, numel),
+      shape.leaf === 'complex' ? allocate(arrayType, numel) : undefined
+    );
+
+    // Walk the nested input, accumulating the column-major offset
+    const strides = shape.dims.map((_, i) => shape.dims.slice(0, i).reduce((a, b) => a * b, 1));
+    const fill = (node: unknown[], depth: number, offset: number) => {
+      const stride = strides[depth] ?? 1;
+      for (let i = 0; i < node.length; i++) {
+        const item = node[i];
+        if (depth === shape.dims.length - 1) {
+          if (item instanceof Complex) {
+            result.set(offset + i * stride, item.real, item.imag);
+          } else {
+            store(result.real, arrayType, offset + i * stride, item as number | bigint | boolean);
+          }
+        } else {
+          fill(item as unknown[], depth + 1, offset + i * stride);
+        }
+      }
+    };
+    fill(value, 0, 0);
+
+    return result;
+  }
+
+  /**
+   * Create a complex array from separate real and imaginary parts
+   *
+   * Both parts are converted with {@link MatlabArray.from} and must have the
+   * same dimensions.
+   *
+   * @param real - Real part (scalar, nested array or typed array)
+   * @param imag - Imaginary part
+   * @param type - MATLAB class (default: inferred from the real part)
+   * @throws {MatlabError} If the parts have different dimensions
+   */
+  static complex(real: unknown, imag: unknown, type?: MatlabNumericClass): MatlabArray {
+    const re = MatlabArray.from(real, type);
+    const im = MatlabArray.from(imag, re.type);
+
+    if (re.dims.length !== im.dims.length || re.dims.some((d, i) => d !== im.dims[i])) {
+      throw new MatlabError(
+        `Real and imaginary parts differ in size: [${re.dims.join(', ')}] vs [${im.dims.join(', ')}]`
+      );
+    }
+
+    return new MatlabArray(re.type, re.dims, re.real, im.real);
+  }
+
+  /**
+   * Get the dimensions of a rectangular nested array of numbers, bigints, booleans or Complex values
+   *
+   * @returns Dimensions (rows first), or null if the value is not such an array
+   */
+  static shapeOf(value: unknown): number[] | null {
+    if (!Array.isArray(value)) return null;
+    return nestedShape(value)?.dims ?? null;
+  }
+
+  /**
+   * Wrap a MAT-file numeric value (or any object with the same shape)
+   */
+  static fromMatValue(value: MatNumericArray): MatlabArray {
+    if (value instanceof MatlabArray) return value;
+    if (!NUMERIC_CLASSES.has(value.type)) {
+      throw new MatlabError(`Unsupported MatlabArray class: ${value.type}`);
+    }
+    return new MatlabArray(value.type as MatlabNumericClass, value.dims, value.real, value.imag);
+  }
+}
+
+/**
+ * Determine the MATLAB class matching a typed array
+ */
+export function typedArrayClass(array: ArrayBufferView): MatlabNumericClass {
+  if (array instanceof Float32Array) return 'single';
+  if (array instanceof Int8Array) return 'int8';
+  if (array instanceof Uint8Array || array instanceof Uint8ClampedArray) return 'uint8';
+  if (array instanceof Int16Array) return 'int16';
+  if (array instanceof Uint16Array) return 'uint16';
+  if (array instanceof Int32Array) return 'int32';
+  if (array instanceof Uint32Array) return 'uint32';
+  if (array instanceof BigInt64Array) return 'int64';
+  if (array instanceof BigUint64Array) return 'uint64';
+  return 'double';
+}
+
+/**
+ * Check if a value is a MatlabArray
+ */
+export function isMatlabArray(value: unknown): value is MatlabArray {
+  return value instanceof MatlabArray;
+}
@@ -0,0 +1,75 @@
+/**
+ * Complex number value type
+ * @packageDocumentation
+ */
+
+/**
+ * Complex scalar exchanged with MATLAB
+ *
+ * Sent to MATLAB as `complex(real, imag)`, so the value stays complex even
+ * when the imaginary part is zero. Complex arrays are represented by a
+ * {@link MatlabArray} with an `imag` part.
+ *
+ * @example
+ * ```typescript
+ * import { Complex, Matlab } from 'node-matlab';
+ *
+ * const z = new Complex(3, 4);
+ * z.abs(); // 5
+ * Matlab.setVariables({ z }); // "z = complex(3, 4);"
+ * ```
+ */
+export class Complex {
+  /** Real part */
+  readonly real: number;
+  /** Imaginary part */
+  readonly imag: number;
+
+  constructor(real: number, imag = 0) {
+    this.real = real;
+    this.imag = imag;
+  }
+
+  /**
+   * Magnitude (`abs(z)` in MATLAB)
+   */
+  abs(): number {
+    return Math.hypot(this.real, this.imag);
+  }
+
+  /**
+   * Phase angle in radians (`angle(z)` in MATLAB)
+   */
+  angle(): number {
+    return Math.atan2(this.imag, this.real);
+  }
+
+  /**
+   * Complex conjugate
+   */
+  conj(): Complex {
+    return new Complex(this.real, -this.imag);
+  }
+
+  /**
+   * Compare with another complex value
+   */
+  equals(other: { real: number; imag: number }): boolean {
+    return this.real === other.real && this.imag === other.imag;
+  }
+
+  /**
+   * Format as `a+bi`, as accepted by {@link parseComplexNumber}
+   */
+  toString(): string {
+    const sign = this.imag < 0 || Object.is(this.imag, -0) ? '-' : '+';
+    return `${this.real}${sign}${Math.abs(this.imag)}i`;
+  }
+}
+
+/**
+ * Check if a value is a Complex instance
+ */
+export function isComplex(value: unknown): value is Complex {
+  return value instanceof Complex;
+}
@@ -3,7 +3,12 @@
  * @packageDocumentation
  */
 
-import type { MatlabErrorDetails, MatlabErrorType } from './types.js';
+import type {
+  MatlabErrorDetails,
+  MatlabErrorType,
+  MatlabExceptionData,
+  MatlabStackFrame,
+} from './types.js';
 
 /**
  * Base error class for all MATLAB-related errors
@@ -25,15 +30,30 @@ export class MatlabError extends Error {
   public readonly command?: string;
   /** Exit code from MATLAB process */
   public readonly exitCode?: number;
+  /** MException identifier (e.g. `'MATLAB:badsubscript'`) */
+  public readonly identifier?: string;
+  /** MATLAB call stack, innermost frame first */
+  public readonly stackFrames: MatlabStackFrame[];
+  /** Errors for the causes of the MException; the first one is also `cause` */
+  public readonly causes: MatlabError[];
 
   constructor(message: string, details?: Partial<MatlabErrorDetails>) {
-    super(message);
+    const exception = details?.exception;
+    const causes = exception?.cause.map((cause) => fromMatlabException(cause)) ?? [];
+    super(message, causes[0] ? { cause: causes[0] } : undefined);
     this.name = 'MatlabError';
     this.type = details?.type ?? 'unknown';
-    this.matlabStack = details?.matlabStack;
-    this.lineNumber = details?.lineNumber;
+    this.identifier = exception?.identifier || undefined;
+    this.stackFrames = exception?.stack ?? [];
+    this.causes = causes;
+
+    const frame = this.stackFrames[0];
+    this.matlabStack =
+      details?.matlabStack ??
+      (this.stackFrames.length > 0 ? formatStack(this.stackFrames) : undefined);
+    this.lineNumber = details?.lineNumber ?? frame?.line;
     this.columnNumber = details?.columnNumber;
-    this.file = details?.file;
+    this.file = details?.file ?? (frame?.file || undefined);
     this.suggestion = details?.suggestion;
     this.command = details?.command;
     this.exitCode = details?.exitCode;
@@ -158,8 +178,9 @@ export class MatlabToolboxError extends MatlabError {
   /** Name of the missing toolbox */
   public readonly toolboxName: string;
 
-  constructor(toolboxName: string, message?: string) {
+  constructor(toolboxName: string, message?: string, details?: Partial<MatlabErrorDetails>) {
     super(message ?? `Required MATLAB toolbox not installed: ${toolboxName}`, {
+      ...details,
       type: 'toolbox_missing',
       suggestion: `Install the "${toolboxName}" from MATLAB Add-Ons or contact your administrator.`,
     });
@@ -175,8 +196,9 @@ export class MatlabFileNotFoundError extends MatlabError {
   /** Path to the file that was not found */
   public readonly filePath: string;
 
-  constructor(filePath: string, message?: string) {
+  constructor(filePath: string, message?: string, details?: Partial<MatlabErrorDetails>) {
     super(message ?? `MATLAB file not found: ${filePath}`, {
+      ...details,
       type: 'file_not_found',
       file: filePath,
       suggestion: 'Check that the file exists and the path is correct.',
@@ -245,8 +267,9 @@ export class MatlabDimensionError extends MatlabError {
  * Error thrown when permission is denied
  */
 export class MatlabPermissionError extends MatlabError {
-  constructor(path?: string, message?: string) {
+  constructor(path?: string, message?: string, details?: Partial<MatlabErrorDetails>) {
     super(message ?? `Permission denied${path ? `: ${path}` : ''}`, {
+      ...details,
       type: 'permission_denied',
       file: path,
       suggestion: 'Check file/folder permissions and ensure you have the necessary access rights.',
@@ -255,6 +278,31 @@ export class MatlabPermissionError extends MatlabError {
   }
 }
 
+/**
+ * Error thrown when the MATLAB process of a session dies
+ */
+export class MatlabSessionCrashedError extends MatlabError {
+  /** Signal that killed the process */
+  public readonly signal: NodeJS.Signals | null;
+
+  constructor(exitCode: number | null, signal: NodeJS.Signals | null, command?: string) {
+    super(
+      signal
+        ? `MATLAB session crashed (killed by ${signal})`
+        : `MATLAB session crashed (exit code ${exitCode})`,
+      {
+        type: 'session_crashed',
+        command,
+        exitCode: exitCode ?? undefined,
+        suggestion:
+          'Enable the autoRestart session option to respawn MATLAB and continue with queued commands.',
+      }
+    );
+    this.name = 'MatlabSessionCrashedError';
+    this.signal = signal;
+  }
+}
+
 /**
  * Parse MATLAB error output and return appropriate error instance
  *
@@ -352,6 +400,78 @@ export function parseError(output: string): MatlabError {
   return MatlabRuntimeError.fromOutput(output);
 }
 
+/**
+ * Format stack frames the way MATLAB prints them
+ */
+function formatStack(frames: MatlabStackFrame[]): string {
+  return frames.map((frame) => `Error in ${frame.name} (line ${frame.line})`).join('\n');
+}
+
+/**
+ * MException identifiers of errors with a dedicated MatlabError subclass
+ */
+const SYNTAX_IDENTIFIER = /^MATLAB:m_/;
+const MEMORY_IDENTIFIER = /^MATLAB:(nomem|pmaxsize|array:SizeLimitExceeded)$/;
+const INDEX_IDENTIFIER = /^MATLAB:(badsubscript|index:|badIndex)/;
+const DIMENSION_IDENTIFIER =
+  /^MATLAB:(dimagree|innerdim|sizeDimensionsMustMatch|catenate:dimensionMismatch|subsassigndimmismatch)$/;
+const FILE_IDENTIFIER =
+  /^MATLAB:(run:FileNotFound|load:couldNotReadFile|cd:NonExistentFolder|fileread:cannotOpenFile)$/;
+const PERMISSION_IDENTIFIER = /[Pp]ermission/;
+const LICENSE_IDENTIFIER = /^MATLAB:license/;
+const UNDEFINED_IDENTIFIER = /^MATLAB:(UndefinedFunction|undefinedVarOrFunction)$/;
+
+/**
+ * Create the MatlabError subclass matching a structured MException
+ *
+ * The subclass is chosen from the identifier, so classification does not
+ * depend on the language of the message. Causes become a chain of
+ * MatlabError instances in `cause` and `causes`.
+ *
+ * @param exception - Exception captured by node-matlab's MATLAB wrapper
+ * @param details - Additional details such as the command or exit code
+ * @returns Appropriate MatlabError subclass instance
+ */
+export function fromMatlabException(
+  exception: MatlabExceptionData,
+  details?: Partial<MatlabErrorDetails>
+): MatlabError {
+  const { identifier, message } = exception;
+  const errorDetails: Partial<MatlabErrorDetails> = { ...details, exception };
+  const quoted = message.match(/['"]([^'"]+)['"]/)?.[1];
+
+  if (SYNTAX_IDENTIFIER.test(identifier)) {
+    return new MatlabSyntaxError(message, errorDetails);
+  }
+  if (MEMORY_IDENTIFIER.test(identifier)) {
+    return new MatlabMemoryError(message, errorDetails);
+  }
+  if (INDEX_IDENTIFIER.test(identifier)) {
+    return new MatlabIndexError(message, errorDetails);
+  }
+  if (DIMENSION_IDENTIFIER.test(identifier)) {
+    return new MatlabDimensionError(message, errorDetails);
+  }
+  if (FILE_IDENTIFIER.test(identifier)) {
+    return new MatlabFileNotFoundError(quoted ?? '', message, errorDetails);
+  }
+  if (PERMISSION_IDENTIFIER.test(identifier)) {
+    return new MatlabPermissionError(quoted, message, errorDetails);
+  }
+  if (LICENSE_IDENTIFIER.test(identifier)) {
+    return new MatlabToolboxError('Unknown', message, errorDetails);
+  }
+  if (UNDEFINED_IDENTIFIER.test(identifier)) {
+    return new MatlabRuntimeError(message, {
+      ...errorDetails,
+      suggestion:
+        'Check that the function name is correct and any required toolboxes are installed.',
+    });
+  }
+
+  return new MatlabRuntimeError(message, errorDetails);
+}
+
 /**
  * Check if an error is a MATLAB error
  */
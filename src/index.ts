@@ -26,6 +26,16 @@ export { Matlab } from './matlab.js';
 // Session for persistent connections
 export { MatlabSession, createSession } from './session.js';
 
+// Session pool for concurrent workloads
+export { MatlabSessionPool, createSessionPool } from './pool.js';
+
+// Column-major N-D numeric arrays
+export { MatlabArray, isMatlabArray } from './array.js';
+export type { NestedArray } from './array.js';
+
+// Complex scalars
+export { Complex, isComplex } from './complex.js';
+
 // Error classes
 export {
   MatlabError,
@@ -40,7 +50,9 @@ export {
   MatlabIndexError,
   MatlabDimensionError,
   MatlabPermissionError,
+  MatlabSessionCrashedError,
   parseError,
+  fromMatlabException,
   isMatlabError,
 } from './errors.js';
 
@@ -48,24 +60,69 @@ export {
 export type {
   // Core types
   MatlabOptions,
+  VariableTransferMode,
+  VariableTransferOptions,
   MatlabResult,
+  MatlabProgress,
   MatlabVersion,
+  MatlabLaunchOptions,
+  MatlabInstallation,
+  MatlabInstallationSelector,
   Toolbox,
   MatlabErrorType,
   MatlabErrorDetails,
+  MatlabStackFrame,
+  MatlabExceptionData,
+  // Streaming types
+  MatlabOutputStream,
+  MatlabStreamEvent,
   // Figure types
   ImageFormat,
   FigureOptions,
+  AnimationFormat,
+  AnimationOptions,
+  AnimationResult,
+  FigureSizePreset,
+  FigureUnits,
+  FigureBackground,
+  SavedFigure,
+  RenderedFigure,
+  FigureData,
+  FigureAxesData,
+  FigureAxisData,
+  FigureSeries,
+  FigureSeriesType,
+  FigureSeriesValues,
   // Session types
   SessionOptions,
   MatlabSessionOptions,
   SessionState,
+  SessionCommandOptions,
+  SessionVariableOptions,
+  SessionCallback,
+  AutoRestartOptions,
+  SessionRestartEvent,
+  SessionPoolOptions,
+  SessionPoolStats,
   // Data types
   MatlabDataType,
+  MatlabNumericClass,
+  MatlabArrayElement,
   VariableInfo,
+  TypedVariable,
   // Export types
   CSVExportOptions,
   MATFileOptions,
+  // MAT-file types
+  MatTypedArray,
+  MatNumericArray,
+  MatSparseMatrix,
+  MatCharArray,
+  MatCellArray,
+  MatStructArray,
+  MatUnsupportedValue,
+  MatValue,
+  MatFileContents,
   LiveScriptFormat,
   LiveScriptExportOptions,
   // Function call types
@@ -87,23 +144,77 @@ export {
   isVersionSupported,
   validateInstallation,
   clearCache,
+  findInstallations,
+  getDefaultInstallDirs,
+  parseVersionInfo,
+  readInstalledVersion,
+  compareReleases,
+  satisfiesRelease,
 } from './utils/version.js';
 
+export {
+  // Launch configuration
+  configure,
+  getConfiguration,
+  resetConfiguration,
+  getDefaultExecutable,
+} from './utils/launch.js';
+
 export {
   // Parser utilities
   extractJSON,
   removeJSONMarkers,
   parseArrayString,
   parseMatrixOutput,
+  parseNDArrayOutput,
   parseScalar,
   parseString,
   parseLogical,
   autoParse,
   detectOutputType,
   generateJSONExtractionCode,
+  decodeExtractedValue,
+  decodeExtractedValues,
   jsToMatlabValue,
 } from './utils/parser.js';
 
+export {
+  // Typed extraction utilities
+  generateTypedExtractionCode,
+  decodeTypedVariable,
+  decodeTypedVariables,
+  toMatlabDataType,
+} from './utils/envelope.js';
+
+export {
+  // Workspace utilities
+  generateWhosCode,
+  generateHasVariableCode,
+  generateClearVariablesCode,
+  generateSaveSnapshotCode,
+  generateRestoreSnapshotCode,
+  parseWhosOutput,
+} from './utils/workspace.js';
+
+export {
+  // Streaming utilities
+  LineBuffer,
+  EventChannel,
+  toStreamEvents,
+  generateFigureWatchCode,
+  removeFigureMarkers,
+  parseProgressRecord,
+  removeProgressRecords,
+  FIGURE_CREATED_MARKER,
+} from './utils/stream.js';
+export type { EventChannelHooks } from './utils/stream.js';
+
+export {
+  // MATLAB helper functions (nm_progress, nm_call)
+  installHelpers,
+  getHelperSource,
+} from './utils/helpers.js';
+
 export {
   // Converter utilities
   toMatlabCode,
@@ -125,10 +236,35 @@ export {
   getPrintDevice,
   isVectorFormat,
   getFigureSizePreset,
+  resolveFigureSize,
+  supportsExportGraphics,
+  getAnimationExtension,
+  generateRecordAnimationCode,
+  generateFigureDataCode,
+  parseFigureData,
   validateOutputPath,
+  parseSavedFigures,
+  readRenderedFigures,
   DEFAULT_FIGURE_OPTIONS,
+  FIGURE_RECORD_START_MARKER,
+  FIGURE_RECORD_END_MARKER,
 } from './utils/figure.js';
 
+export {
+  // MAT-file utilities
+  readMatFile,
+  parseMatFile,
+  writeMatFile,
+  serializeMatFile,
+} from './utils/matfile.js';
+
+export {
+  // Binary transfer utilities
+  generateBinaryExtractionCode,
+  parseBinaryVariable,
+  readBinaryVariables,
+} from './utils/transfer.js';
+
 // Default export for convenience
 import { Matlab } from './matlab.js';
 export default Matlab;
@@ -3,45 +3,88 @@
  * @packageDocumentation
  */
 
+import type { ChildProcess } from 'node:child_process';
 import { existsSync } from 'node:fs';
-import { resolve } from 'node:path';
-import { MatlabFileNotFoundError, MatlabNotInstalledError } from './errors.js';
+import { extname, resolve } from 'node:path';
+import { MatlabArray } from './array.js';
+import { Complex } from './complex.js';
+import { MatlabError, MatlabFileNotFoundError, MatlabNotInstalledError } from './errors.js';
 import type {
+  AnimationFormat,
+  AnimationOptions,
+  AnimationResult,
   CSVExportOptions,
+  FigureData,
   FigureOptions,
   FunctionCallOptions,
   FunctionCallResult,
   LiveScriptExportOptions,
   MATFileOptions,
+  MatFileContents,
+  MatlabInstallation,
+  MatlabInstallationSelector,
+  MatlabLaunchOptions,
   MatlabOptions,
   MatlabResult,
+  MatlabStreamEvent,
   MatlabVersion,
+  RenderedFigure,
+  SavedFigure,
   Toolbox,
+  TypedVariable,
+  VariableInfo,
 } from './types.js';
-import { JSON_END_MARKER, JSON_START_MARKER } from './types.js';
 import { generateSetVariablesCode } from './utils/converter.js';
+import { decodeTypedVariables, generateTypedExtractionCode } from './utils/envelope.js';
 import {
+  generateFigureDataCode,
+  generateRecordAnimationCode,
   generateSaveAllFiguresCode,
   generateSaveFigureCode,
+  getAnimationExtension,
+  parseFigureData,
+  parseSavedFigures,
+  readRenderedFigures,
   validateOutputPath,
 } from './utils/figure.js';
+import { configure } from './utils/launch.js';
+import { readMatFile, writeMatFile } from './utils/matfile.js';
 import {
   autoParse,
+  decodeExtractedValue,
+  decodeExtractedValues,
   extractJSON,
   generateJSONExtractionCode,
+  generateJSONListExtractionCode,
   jsToMatlabValue,
 } from './utils/parser.js';
 import {
+  cleanupTempDir,
   cleanupTempScript,
+  createTempDir,
   createTempScript,
   executeMatlabCommand,
   executeMatlabScript,
 } from './utils/process.js';
+import {
+  EventChannel,
+  generateFigureWatchCode,
+  removeFigureMarkers,
+  toStreamEvents,
+} from './utils/stream.js';
+import {
+  generateBinaryExtractionCode,
+  readBinaryVariables,
+  resolveBinaryThreshold,
+} from './utils/transfer.js';
 import {
   isInstalled as checkInstalled,
   getMatlabRoot as fetchMatlabRoot,
   getInstalledToolboxes as fetchToolboxes,
   getVersion as fetchVersion,
+  findInstallations,
+  readInstalledVersion,
+  satisfiesRelease,
   validateInstallation,
 } from './utils/version.js';
 
@@ -93,11 +136,16 @@ export class Matlab {
    *   timeout: 60000,
    *   onProgress: (line) => console.log(line)
    * });
+   *
+   * // With input variables (loaded from a temporary MAT-file)
+   * const result = await Matlab.run('disp(mean(samples))', {
+   *   variables: { samples: new Float64Array(1_000_000) }
+   * });
    * ```
    */
   static async run(script: string, options?: MatlabOptions): Promise<MatlabResult> {
     // Check if MATLAB is installed
-    if (!checkInstalled()) {
+    if (!checkInstalled(options)) {
       throw new MatlabNotInstalledError();
     }
 
@@ -130,7 +178,7 @@ export class Matlab {
    * ```
    */
   static async runFile(filePath: string, options?: MatlabOptions): Promise<MatlabResult> {
-    if (!checkInstalled()) {
+    if (!checkInstalled(options)) {
       throw new MatlabNotInstalledError();
     }
 
@@ -164,6 +212,92 @@ export class Matlab {
     return result.output;
   }
 
+  /**
+   * Run a MATLAB script or command and yield its output as it arrives
+   *
+   * Lines are buffered until complete. The last event is `done` with the
+   * execution result; if the script fails, the loop throws the error instead.
+   * When the consumer falls behind, MATLAB's output is not read until it
+   * catches up. Leaving the loop early stops MATLAB.
+   *
+   * @param script - MATLAB code to execute (string or .m file path)
+   * @param options - Execution options
+   * @returns Async iterable of {@link MatlabStreamEvent}s
+   *
+   * @example
+   * ```typescript
+   * for await (const event of Matlab.stream('for k = 1:3, disp(k); pause(1); end')) {
+   *   if (event.type === 'stdout') res.write(`data: ${JSON.stringify(event)}\n\n`);
+   * }
+   * ```
+   */
+  static stream(script: string, options?: MatlabOptions): AsyncIterable<MatlabStreamEvent> {
+    const controller = new AbortController();
+    const signal = options?.signal;
+    const onAbort = () => controller.abort();
+    if (signal?.aborted) {
+      controller.abort();
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let child: ChildProcess | undefined;
+    const channel = new EventChannel<MatlabStreamEvent>({
+      pause: () => {
+        child?.stdout?.pause();
+        child?.stderr?.pause();
+      },
+      resume: () => {
+        child?.stdout?.resume();
+        child?.stderr?.resume();
+      },
+      cancel: () => controller.abort(),
+    });
+
+    const run = async (): Promise<MatlabResult> => {
+      if (!checkInstalled(options)) {
+        throw new MatlabNotInstalledError();
+      }
+
+      const code =
+        script.endsWith('.m') && existsSync(script)
+          ? `run('${resolve(script).replace(/'/g, "''")}');`
+          : script;
+      const tempPath = await createTempScript(`${generateFigureWatchCode()}\n${code}`);
+
+      try {
+        return await executeMatlabScript(
+          tempPath,
+          { ...options, signal: controller.signal },
+          {
+            onLine: (stream, line) => {
+              for (const event of toStreamEvents(stream, line)) {
+                channel.push(event);
+              }
+            },
+            onSpawn: (process) => {
+              child = process;
+            },
+          }
+        );
+      } finally {
+        await cleanupTempScript(tempPath);
+      }
+    };
+
+    run()
+      .then((result) => {
+        channel.push({
+          type: 'done',
+          result: { ...result, output: removeFigureMarkers(result.output) },
+        });
+        channel.close();
+      })
+      .catch((error: unknown) => channel.close(error))
+      .finally(() => signal?.removeEventListener('abort', onAbort));
+
+    return channel;
+  }
+
   // ============================================================================
   // System Information Methods
   // ============================================================================
@@ -184,6 +318,78 @@ export class Matlab {
     return checkInstalled();
   }
 
+  /**
+   * Set the MATLAB executable, extra launch arguments and environment for
+   * every MATLAB process started afterwards, including sessions
+   *
+   * Per-call options override the executable, and add to the arguments and
+   * environment.
+   *
+   * @param options - Launch options
+   *
+   * @example
+   * ```typescript
+   * Matlab.configure({
+   *   executable: '/usr/local/MATLAB/R2022b/bin/matlab',
+   *   launchArgs: ['-singleCompThread'],
+   * });
+   *
+   * // One-off override
+   * await Matlab.run('bench()', { executable: '/usr/local/MATLAB/R2024a/bin/matlab' });
+   * ```
+   */
+  static configure(options: MatlabLaunchOptions): void {
+    configure(options);
+  }
+
+  /**
+   * Find MATLAB installations on disk without launching MATLAB
+   *
+   * @param installDirs - Directories to scan for release folders (default: the
+   *   standard install directories)
+   * @returns Installations from `MATLAB_ROOT`, the install directories and the
+   *   PATH, newest release first
+   *
+   * @example
+   * ```typescript
+   * for (const { release, version, executable } of Matlab.findInstallations()) {
+   *   console.log(release, version, executable);
+   * }
+   * ```
+   */
+  static findInstallations(installDirs?: string[]): MatlabInstallation[] {
+    return findInstallations(installDirs);
+  }
+
+  /**
+   * Use the newest installed MATLAB release that matches a range for every
+   * MATLAB process started afterwards
+   *
+   * @param selector - Release range and install directories to search
+   * @returns The selected installation
+   * @throws {MatlabNotInstalledError} If no installation matches
+   *
+   * @example
+   * ```typescript
+   * const { release } = Matlab.use({ release: '>=R2023a' });
+   * ```
+   */
+  static use(selector: MatlabInstallationSelector = {}): MatlabInstallation {
+    const installation = findInstallations(selector.installDirs).find(
+      (candidate) => !selector.release || satisfiesRelease(candidate.release, selector.release)
+    );
+    if (!installation) {
+      throw new MatlabNotInstalledError(
+        selector.release
+          ? `No MATLAB installation matches release range "${selector.release}"`
+          : undefined
+      );
+    }
+
+    configure({ executable: installation.executable });
+    return installation;
+  }
+
   /**
    * Get MATLAB version information
    *
@@ -267,6 +473,12 @@ export class Matlab {
    * console.log(vars.x);    // [1, 2, 3, 4, 5]
    * console.log(vars.y);    // [1, 4, 9, 16, 25]
    * console.log(vars.name); // "test"
+   *
+   * // Large numeric arrays as typed arrays via binary transfer
+   * const { big } = await Matlab.getVariables('big = rand(1000);', ['big'], {
+   *   transfer: 'auto',
+   * });
+   * // big: MatlabArray { type: 'double', dims: [1000, 1000], real: Float64Array(1000000) }
    * ```
    */
   static async getVariables(
@@ -278,6 +490,11 @@ export class Matlab {
       return {};
     }
 
+    const binaryThreshold = resolveBinaryThreshold(options);
+    if (binaryThreshold !== null) {
+      return Matlab.getVariablesBinary(script, variables, binaryThreshold, options);
+    }
+
     // Append JSON extraction code
     const extractionCode = generateJSONExtractionCode(variables);
     const fullScript = `${script}\n${extractionCode}`;
@@ -292,7 +509,79 @@ export class Matlab {
       return { output: autoParse(result.output) };
     }
 
-    return extracted;
+    return decodeExtractedValues(extracted);
+  }
+
+  /**
+   * Run a script and extract variables with their MATLAB class and shape
+   *
+   * Unlike {@link Matlab.getVariables}, each value is decoded from an envelope
+   * holding its class, size, sparsity and complexity, so a 1x1 matrix, a
+   * 1xN and an Nx1 vector, or a char row and a string can be told apart.
+   * Non-scalar numeric arrays are returned as {@link MatlabArray} instances.
+   *
+   * @param script - MATLAB code to execute
+   * @param variables - Array of variable names to extract
+   * @param options - Execution options
+   * @returns Promise resolving to object mapping names to values with their {@link VariableInfo}
+   *
+   * @example
+   * ```typescript
+   * const vars = await Matlab.getTypedVariables('col = [1; 2; 3]; n = int8(5);', ['col', 'n']);
+   * vars.col.info; // { name: 'col', size: [3, 1], type: 'double', ... }
+   * vars.col.value; // MatlabArray { dims: [3, 1], ... }
+   * vars.n.value; // 5 (vars.n.info.type === 'int8')
+   * ```
+   */
+  static async getTypedVariables(
+    script: string,
+    variables: string[],
+    options?: MatlabOptions
+  ): Promise<Record<string, TypedVariable>> {
+    if (variables.length === 0) {
+      return {};
+    }
+
+    const extractionCode = generateTypedExtractionCode(variables);
+    const result = await Matlab.run(`${script}\n${extractionCode}`, options);
+
+    const envelopes = extractJSON<Record<string, unknown>>(result.output);
+    if (envelopes === null) {
+      throw new MatlabError('Could not extract variables from MATLAB output', {
+        command: variables.join(', '),
+      });
+    }
+
+    return decodeTypedVariables(envelopes);
+  }
+
+  /**
+   * Run a script and extract variables, sending large numeric arrays through
+   * temporary binary files instead of JSON
+   */
+  private static async getVariablesBinary(
+    script: string,
+    variables: string[],
+    threshold: number,
+    options?: MatlabOptions
+  ): Promise<Record<string, unknown>> {
+    const outputDir = await createTempDir();
+
+    try {
+      const extractionCode = generateBinaryExtractionCode(variables, outputDir, threshold);
+      const result = await Matlab.run(`${script}\n${extractionCode}`, options);
+
+      const json = decodeExtractedValues(extractJSON<Record<string, unknown>>(result.output) ?? {});
+      const binary = await readBinaryVariables(outputDir, variables);
+
+      const values: Record<string, unknown> = {};
+      for (const name of variables) {
+        values[name] = binary[name] ?? json[name];
+      }
+      return values;
+    } finally {
+      await cleanupTempDir(outputDir);
+    }
   }
 
   /**
@@ -315,6 +604,111 @@ export class Matlab {
     return generateSetVariablesCode(variables);
   }
 
+  // ============================================================================
+  // Typed Value Methods
+  // ============================================================================
+
+  /**
+   * Wrap a value so it is sent to MATLAB as `double`
+   *
+   * Accepts a number, bigint, boolean, (nested) array, typed array or
+   * MatlabArray. The other typed-value methods work the same way.
+   *
+   * @example
+   * ```typescript
+   * Matlab.setVariables({
+   *   n: Matlab.int32(42),                   // n = int32(42);
+   *   gain: Matlab.single([0.5, 1.5]),       // gain = single([0.5, 1.5]);
+   *   pixels: Matlab.uint8(buffer),          // pixels = uint8([...]);
+   *   id: Matlab.uint64(18446744073709551615n), // exact, via typecast
+   * });
+   * ```
+   */
+  static double(value: unknown): MatlabArray {
+    return MatlabArray.from(value, 'double');
+  }
+
+  /** Wrap a value so it is sent to MATLAB as `single` */
+  static single(value: unknown): MatlabArray {
+    return MatlabArray.from(value, 'single');
+  }
+
+  /** Wrap a value so it is sent to MATLAB as `int8` */
+  static int8(value: unknown): MatlabArray {
+    return MatlabArray.from(value, 'int8');
+  }
+
+  /** Wrap a value so it is sent to MATLAB as `uint8` */
+  static uint8(value: unknown): MatlabArray {
+    return MatlabArray.from(value, 'uint8');
+  }
+
+  /** Wrap a value so it is sent to MATLAB as `int16` */
+  static int16(value: unknown): MatlabArray {
+    return MatlabArray.from(value, 'int16');
+  }
+
+  /** Wrap a value so it is sent to MATLAB as `uint16` */
+  static uint16(value: unknown): MatlabArray {
+    return MatlabArray.from(value, 'uint16');
+  }
+
+  /** Wrap a value so it is sent to MATLAB as `int32` */
+  static int32(value: unknown): MatlabArray {
+    return MatlabArray.from(value, 'int32');
+  }
+
+  /** Wrap a value so it is sent to MATLAB as `uint32` */
+  static uint32(value: unknown): MatlabArray {
+    return MatlabArray.from(value, 'uint32');
+  }
+
+  /**
+   * Wrap a value so it is sent to MATLAB as `int64`
+   *
+   * Pass bigints for values beyond 2^53; they are transferred exactly.
+   */
+  static int64(value: unknown): MatlabArray {
+    return MatlabArray.from(value, 'int64');
+  }
+
+  /**
+   * Wrap a value so it is sent to MATLAB as `uint64`
+   *
+   * Pass bigints for values beyond 2^53; they are transferred exactly.
+   */
+  static uint64(value: unknown): MatlabArray {
+    return MatlabArray.from(value, 'uint64');
+  }
+
+  /** Wrap a value so it is sent to MATLAB as `logical` */
+  static logical(value: unknown): MatlabArray {
+    return MatlabArray.from(value, 'logical');
+  }
+
+  /**
+   * Create a complex value to send to MATLAB
+   *
+   * Two numbers give a {@link Complex} scalar; arrays give a complex
+   * {@link MatlabArray} built from separate real and imaginary parts.
+   *
+   * @example
+   * ```typescript
+   * Matlab.setVariables({
+   *   z: Matlab.complex(3, 4),               // z = complex(3, 4);
+   *   zs: Matlab.complex([1, 2], [0, -1]),   // zs = complex([1, 2], [0, -1]);
+   * });
+   * ```
+   */
+  static complex(real: number, imag?: number): Complex;
+  static complex(real: unknown, imag: unknown): MatlabArray;
+  static complex(real: unknown, imag: unknown = 0): Complex | MatlabArray {
+    if (typeof real === 'number' && typeof imag === 'number') {
+      return new Complex(real, imag);
+    }
+    return MatlabArray.complex(real, imag);
+  }
+
   // ============================================================================
   // Data Export Methods
   // ============================================================================
@@ -441,6 +835,62 @@ writematrix(${variable}, '${absolutePath.replace(/\\/g, '/')}', 'Delimiter', '${
     return absolutePath;
   }
 
+  /**
+   * Read a MAT-file without launching MATLAB
+   *
+   * Only Level 5 MAT-files (saved with `-v6` or `-v7`) are supported.
+   *
+   * @param filePath - Path to .mat file
+   * @returns Promise resolving to variables and their metadata
+   * @throws {MatlabFileNotFoundError} If the file does not exist
+   *
+   * @example
+   * ```typescript
+   * await Matlab.exportToMAT('x = magic(4);', './data.mat', ['x'], { version: '-v7' });
+   * const { variables, info } = await Matlab.readMatFile('./data.mat');
+   * console.log(info[0]); // { name: 'x', size: [4, 4], type: 'double', ... }
+   * ```
+   */
+  static async readMatFile(filePath: string): Promise<MatFileContents> {
+    const absolutePath = resolve(filePath);
+
+    if (!existsSync(absolutePath)) {
+      throw new MatlabFileNotFoundError(filePath);
+    }
+
+    return readMatFile(absolutePath);
+  }
+
+  /**
+   * Write JavaScript values to a MAT-file without launching MATLAB
+   *
+   * Writes a Level 5 MAT-file (`-v7` by default, compressed unless
+   * `compress: false` is given).
+   *
+   * @param outputPath - Path for output MAT file
+   * @param variables - Object mapping variable names to values
+   * @param matOptions - MAT file options
+   * @returns Promise resolving to output file path
+   *
+   * @example
+   * ```typescript
+   * const path = await Matlab.writeMatFile('./input.mat', {
+   *   samples: new Float64Array(1_000_000),
+   *   meta: { rate: 44100, channel: 'left' },
+   * });
+   * await Matlab.run(`load('${path}'); disp(mean(samples));`);
+   * ```
+   */
+  static async writeMatFile(
+    outputPath: string,
+    variables: Record<string, unknown>,
+    matOptions?: MATFileOptions
+  ): Promise<string> {
+    const absolutePath = resolve(outputPath);
+    await writeMatFile(absolutePath, variables, matOptions);
+    return absolutePath;
+  }
+
   // ============================================================================
   // Figure/Graphics Methods
   // ============================================================================
@@ -471,7 +921,11 @@ writematrix(${variable}, '${absolutePath.replace(/\\/g, '/')}', 'Delimiter', '${
   ): Promise<string> {
     const absolutePath = resolve(outputPath);
     const validatedPath = validateOutputPath(absolutePath, figureOptions?.format ?? 'png');
-    const saveCode = generateSaveFigureCode(validatedPath, figureOptions);
+    const saveCode = generateSaveFigureCode(
+      validatedPath,
+      figureOptions,
+      readInstalledVersion(options)
+    );
 
     const fullScript = `${script}\n${saveCode}`;
     await Matlab.run(fullScript, options);
@@ -485,21 +939,23 @@ writematrix(${variable}, '${absolutePath.replace(/\\/g, '/')}', 'Delimiter', '${
    * @param script - MATLAB code that creates figures
    * @param outputDir - Directory for output files
    * @param prefix - Filename prefix (default: 'figure')
-   * @param figureOptions - Figure export options
+   * @param figureOptions - Figure export options, including the `filenameTemplate`
    * @param options - Execution options
-   * @returns Promise resolving to array of output file paths
+   * @returns Promise resolving to the saved figures, in order of figure number
    *
    * @example
    * ```typescript
-   * const paths = await Matlab.saveAllFigures(
+   * const figures = await Matlab.saveAllFigures(
    *   `
-   *     figure; plot(rand(10,1));
-   *     figure; bar(rand(5,1));
+   *     figure(Name="Raw"); plot(rand(10,1)); title('Samples');
+   *     figure(Name="Summary"); bar(rand(5,1));
    *   `,
    *   './figures',
    *   'chart',
-   *   { format: 'svg' }
+   *   { format: 'svg', filenameTemplate: '{prefix}_{number}_{name}.{ext}' }
    * );
+   * // [{ path: '/abs/figures/chart_1_Raw.svg', figureNumber: 1, name: 'Raw',
+   * //    titles: ['Samples'], width: 560, height: 420 }, ...]
    * ```
    */
   static async saveAllFigures(
@@ -508,29 +964,152 @@ writematrix(${variable}, '${absolutePath.replace(/\\/g, '/')}', 'Delimiter', '${
     prefix = 'figure',
     figureOptions?: Partial<FigureOptions>,
     options?: MatlabOptions
-  ): Promise<string[]> {
+  ): Promise<SavedFigure[]> {
     const absoluteDir = resolve(outputDir);
-    const saveCode = generateSaveAllFiguresCode(absoluteDir, prefix, figureOptions);
+    const saveCode = generateSaveAllFiguresCode(
+      absoluteDir,
+      prefix,
+      figureOptions,
+      readInstalledVersion(options)
+    );
 
-    // First get figure count, then save
-    const countScript = `
-${script}
-__nm_count__ = length(findall(0, 'Type', 'figure'));
-fprintf('${JSON_START_MARKER}%d${JSON_END_MARKER}', __nm_count__);
-${saveCode}
-    `.trim();
+    const result = await Matlab.run(`${script}\n${saveCode}`, options);
+    return parseSavedFigures(result.output);
+  }
 
-    const result = await Matlab.run(countScript, options);
-    const count = extractJSON<number>(result.output) ?? 0;
+  /**
+   * Run a script and return every resulting figure in memory
+   *
+   * Figures are exported to a temporary directory that is removed before
+   * this method returns.
+   *
+   * @param script - MATLAB code that creates figures
+   * @param figureOptions - Figure export options
+   * @param options - Execution options
+   * @returns Promise resolving to one entry per open figure
+   *
+   * @example
+   * ```typescript
+   * const [plot] = await Matlab.renderFigure('plot(rand(10, 1))', { format: 'png' });
+   * response.type('image/png').send(plot.buffer);
+   * ```
+   */
+  static async renderFigure(
+    script: string,
+    figureOptions?: Partial<FigureOptions>,
+    options?: MatlabOptions
+  ): Promise<RenderedFigure[]> {
+    const outputDir = await createTempDir();
 
-    // Generate list of saved file paths
-    const ext = figureOptions?.format ?? 'png';
-    const paths: string[] = [];
-    for (let i = 1; i <= count; i++) {
-      paths.push(`${absoluteDir}/${prefix}_${i}.${ext}`);
+    try {
+      const saveCode = generateSaveAllFiguresCode(
+        outputDir,
+        'figure',
+        figureOptions,
+        readInstalledVersion(options)
+      );
+      const result = await Matlab.run(`${script}\n${saveCode}`, options);
+      return await readRenderedFigures(
+        parseSavedFigures(result.output),
+        figureOptions?.format ?? 'png'
+      );
+    } finally {
+      await cleanupTempDir(outputDir);
     }
+  }
 
-    return paths;
+  /**
+   * Run a script and describe the data plotted in every resulting figure
+   *
+   * Returns the axes titles, labels, limits and scales, the visible legend
+   * entries, and the data and colors of line, scatter, bar and surface
+   * objects, so plots can be re-rendered with a JavaScript charting library.
+   *
+   * @param script - MATLAB code that creates figures
+   * @param options - Execution options
+   * @returns Promise resolving to one entry per figure, in order of figure number
+   *
+   * @example
+   * ```typescript
+   * const [figure] = await Matlab.extractFigureData(
+   *   "x = 0:0.5:2; plot(x, x.^2, 'DisplayName', 'square'); xlabel('x'); legend show;"
+   * );
+   * const [axes] = figure.axes;
+   * // axes.x.label === 'x', axes.legend === ['square']
+   * // axes.series[0] = { type: 'line', name: 'square', x: [0, 0.5, 1, 1.5, 2],
+   * //                    y: [0, 0.25, 1, 2.25, 4], z: [], color: [0, 0.447, 0.741] }
+   * ```
+   */
+  static async extractFigureData(script: string, options?: MatlabOptions): Promise<FigureData[]> {
+    const result = await Matlab.run(`${script}\n${generateFigureDataCode()}`, options);
+    return parseFigureData(result.output);
+  }
+
+  /**
+   * Run a script and record the frames it captures as an animation
+   *
+   * Call `nm_frame()` (or `nm_frame(fig)`) in the script's loop to capture the
+   * current figure as the next frame.
+   *
+   * @param script - MATLAB code that draws and captures each frame
+   * @param outputPath - Output file; the format's extension is added if missing
+   * @param animationOptions - Frame rate and format
+   * @param options - Execution options
+   * @returns Promise resolving to the written file and its frame count
+   * @throws {MatlabError} If the script captured no frames, or for `mp4` on
+   *   Linux, where MATLAB cannot write MPEG-4 video
+   *
+   * @example
+   * ```typescript
+   * const { frames } = await Matlab.recordAnimation(
+   *   `
+   *     x = linspace(0, 2*pi, 200);
+   *     for k = 1:60
+   *       plot(x, sin(x + k/10)); ylim([-1 1]);
+   *       nm_frame();
+   *     end
+   *   `,
+   *   './wave.gif',
+   *   { fps: 30 }
+   * );
+   * ```
+   */
+  static async recordAnimation(
+    script: string,
+    outputPath: string,
+    animationOptions?: AnimationOptions,
+    options?: MatlabOptions
+  ): Promise<AnimationResult> {
+    const extension = extname(outputPath).slice(1).toLowerCase();
+    const format =
+      animationOptions?.format ??
+      (['gif', 'mp4', 'avi'].includes(extension) ? (extension as AnimationFormat) : 'gif');
+    const fps = animationOptions?.fps ?? 10;
+    if (format === 'mp4' && process.platform === 'linux') {
+      throw new MatlabError('MATLAB cannot write MPEG-4 video on Linux', {
+        type: 'runtime',
+        suggestion: "Record to an '.avi' (Motion JPEG) or '.gif' file instead.",
+      });
+    }
+
+    let path = resolve(outputPath);
+    if (!path.toLowerCase().endsWith(getAnimationExtension(format))) {
+      path += getAnimationExtension(format);
+    }
+
+    const result = await Matlab.run(
+      generateRecordAnimationCode(script, path, { fps, format }),
+      options
+    );
+    const frames = extractJSON<number>(result.output) ?? 0;
+    if (frames === 0) {
+      throw new MatlabError('The script did not capture any frames', {
+        type: 'runtime',
+        suggestion: 'Call nm_frame() after drawing each frame.',
+      });
+    }
+
+    return { path, format, frames, fps };
   }
 
   // ============================================================================
@@ -577,11 +1156,10 @@ ${saveCode}
     const outputAssignment = nargout > 1 ? `[${outputVars.join(', ')}]` : outputVars[0];
 
     // Build the script
-    const script = `
-${outputAssignment} = ${funcName}(${matlabArgs});
-__nm_result__ = {${outputVars.join(', ')}};
-fprintf('${JSON_START_MARKER}%s${JSON_END_MARKER}', jsonencode(__nm_result__));
-    `.trim();
+    const extractionCode = callOptions?.preserveTypes
+      ? generateTypedExtractionCode(outputVars)
+      : generateJSONListExtractionCode(outputVars);
+    const script = `${outputAssignment} = ${funcName}(${matlabArgs});\n${extractionCode}`;
 
     const startTime = Date.now();
     const result = await Matlab.run(script, {
@@ -590,7 +1168,24 @@ fprintf('${JSON_START_MARKER}%s${JSON_END_MARKER}', jsonencode(__nm_result__));
     });
     const duration = Date.now() - startTime;
 
-    const outputs = extractJSON<T>(result.output);
+    if (callOptions?.preserveTypes) {
+      const envelopes = extractJSON<Record<string, unknown>>(result.output);
+      const typed = envelopes ? decodeTypedVariables(envelopes) : {};
+      const outputs: unknown[] = [];
+      const outputInfo: VariableInfo[] = [];
+
+      outputVars.forEach((name, i) => {
+        const output = typed[name];
+        if (output) {
+          outputs.push(output.value);
+          outputInfo.push({ ...output.info, name: `output${i + 1}` });
+        }
+      });
+
+      return { outputs: outputs as T, duration, warnings: result.warnings, outputInfo };
+    }
+
+    const outputs = extractJSON<unknown[]>(result.output);
 
     if (outputs === null) {
       // If JSON extraction failed, return empty array as default
@@ -603,7 +1198,7 @@ fprintf('${JSON_START_MARKER}%s${JSON_END_MARKER}', jsonencode(__nm_result__));
     }
 
     return {
-      outputs,
+      outputs: outputs.map(decodeExtractedValue) as T,
       duration,
       warnings: result.warnings,
     };
@@ -0,0 +1,381 @@
+/**
+ * MATLAB Session Pool - Bounded set of warm sessions shared between callers
+ * @packageDocumentation
+ */
+
+import { EventEmitter } from 'node:events';
+import { MatlabError, MatlabSessionCrashedError, MatlabTimeoutError } from './errors.js';
+import { type MatlabSession, createSession } from './session.js';
+import type { SessionOptions, SessionPoolOptions, SessionPoolStats } from './types.js';
+
+/**
+ * Caller waiting for a free session
+ */
+interface PoolWaiter {
+  resolve: (session: MatlabSession) => void;
+  reject: (error: Error) => void;
+  timeout?: NodeJS.Timeout;
+}
+
+/**
+ * Why a session was taken out of the pool
+ * - `crashed`: MATLAB crashed or was restarted during the lease, e.g. after
+ *   an interrupted command did not stop
+ * - `state`: the session was no longer ready when released
+ * - `maxCommands`: the session reached `maxCommandsPerSession`
+ */
+type PoolRecycleReason = 'crashed' | 'state' | 'maxCommands';
+
+/**
+ * Pool of persistent MATLAB sessions with bounded concurrency
+ *
+ * The pool pre-warms a fixed number of sessions and leases them to callers.
+ * When every session is busy, callers are queued until one is released.
+ * Sessions that crash or reach `maxCommandsPerSession` are replaced with fresh ones.
+ *
+ * @example
+ * ```typescript
+ * import { MatlabSessionPool } from 'node-matlab';
+ *
+ * const pool = new MatlabSessionPool({ size: 4, maxCommandsPerSession: 500 });
+ * await pool.start();
+ *
+ * const results = await Promise.all(
+ *   jobs.map((job) =>
+ *     pool.use(async (session) => {
+ *       await session.setVariable('input', job.data);
+ *       await session.run('output = process(input);');
+ *       return session.getVariable('output');
+ *     })
+ *   )
+ * );
+ *
+ * await pool.close();
+ * ```
+ */
+export class MatlabSessionPool extends EventEmitter {
+  private readonly size: number;
+  private readonly maxCommandsPerSession: number;
+  private readonly acquireTimeout: number;
+  private readonly sessionOptions: SessionOptions;
+  private idle: MatlabSession[] = [];
+  private busy = new Set<MatlabSession>();
+  private waiters: PoolWaiter[] = [];
+  private starting = 0;
+  private startPromise: Promise<void> | null = null;
+  private closing = false;
+  private drainResolve: (() => void) | null = null;
+
+  constructor(options?: SessionPoolOptions) {
+    super();
+    const { size, maxCommandsPerSession, acquireTimeout, ...sessionOptions } = options ?? {};
+    this.size = Math.max(1, size ?? 2);
+    this.maxCommandsPerSession = maxCommandsPerSession ?? 0;
+    this.acquireTimeout = acquireTimeout ?? 0;
+    this.sessionOptions = sessionOptions;
+  }
+
+  /**
+   * Get current pool usage
+   */
+  get stats(): SessionPoolStats {
+    return {
+      size: this.size,
+      idle: this.idle.length,
+      busy: this.busy.size,
+      starting: this.starting,
+      queued: this.waiters.length,
+    };
+  }
+
+  /**
+   * Check if the pool has been closed or is draining
+   */
+  get isClosed(): boolean {
+    return this.closing;
+  }
+
+  /**
+   * Start all sessions in the pool
+   *
+   * Calling this more than once returns the same startup promise.
+   * If any session fails to start, the others are closed and the error is rethrown.
+   */
+  async start(): Promise<void> {
+    if (this.closing) {
+      throw new MatlabError('Session pool is closed');
+    }
+
+    if (!this.startPromise) {
+      this.startPromise = this.warmUp();
+    }
+
+    return this.startPromise;
+  }
+
+  /**
+   * Lease a session for the duration of a callback
+   *
+   * The session is returned to the pool when the callback settles, also when
+   * it throws. If MATLAB crashed or had to be restarted during the lease, the
+   * session is recycled before it is leased again.
+   *
+   * @param fn - Callback receiving the leased session
+   * @returns Promise resolving to the callback result
+   *
+   * @example
+   * ```typescript
+   * const mean = await pool.use((session) => session.eval('mean([1, 2, 3])'));
+   * ```
+   */
+  async use<T>(fn: (session: MatlabSession) => Promise<T>): Promise<T> {
+    const session = await this.acquire();
+    let crashed = false;
+    const onRestart = () => {
+      crashed = true;
+    };
+    session.on('restart', onRestart);
+
+    try {
+      return await fn(session);
+    } catch (error) {
+      if (error instanceof MatlabSessionCrashedError) {
+        crashed = true;
+      }
+      throw error;
+    } finally {
+      session.off('restart', onRestart);
+      this.release(session, crashed);
+    }
+  }
+
+  /**
+   * Close the pool
+   *
+   * New leases are rejected immediately. Callers that are already queued are
+   * still served, and all sessions are closed once every lease has been released.
+   */
+  async close(): Promise<void> {
+    if (this.closing) {
+      return;
+    }
+    this.closing = true;
+
+    // Sessions may still be starting up; let them settle before draining
+    await this.startPromise?.catch(() => undefined);
+
+    if (this.busy.size > 0 || this.waiters.length > 0 || this.starting > 0) {
+      await new Promise<void>((resolve) => {
+        this.drainResolve = resolve;
+      });
+    }
+
+    const sessions = this.idle;
+    this.idle = [];
+    this.emitStats();
+
+    await Promise.all(sessions.map((session) => session.close().catch(() => undefined)));
+    this.emit('close');
+  }
+
+  /**
+   * Start the configured number of sessions
+   */
+  private async warmUp(): Promise<void> {
+    const count = this.size - this.idle.length - this.busy.size - this.starting;
+    this.starting += count;
+    this.emitStats();
+
+    const results = await Promise.allSettled(
+      Array.from({ length: count }, () => createSession(this.sessionOptions))
+    );
+    this.starting -= count;
+
+    const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    const started = results
+      .filter((r): r is PromiseFulfilledResult<MatlabSession> => r.status === 'fulfilled')
+      .map((r) => r.value);
+
+    if (failure) {
+      await Promise.all(started.map((session) => session.close().catch(() => undefined)));
+      this.startPromise = null;
+      this.emitStats();
+      throw failure.reason;
+    }
+
+    for (const session of started) {
+      this.makeAvailable(session);
+    }
+    this.emit('ready');
+  }
+
+  /**
+   * Wait for a free session
+   */
+  private async acquire(): Promise<MatlabSession> {
+    if (this.closing) {
+      throw new MatlabError('Session pool is closed');
+    }
+
+    await this.start();
+
+    const session = this.idle.shift();
+    if (session) {
+      this.busy.add(session);
+      this.emitStats();
+      return session;
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: PoolWaiter = { resolve, reject };
+
+      if (this.acquireTimeout > 0) {
+        waiter.timeout = setTimeout(() => {
+          const index = this.waiters.indexOf(waiter);
+          if (index !== -1) {
+            this.waiters.splice(index, 1);
+            this.emitStats();
+            this.checkDrained();
+          }
+          reject(
+            new MatlabTimeoutError(
+              this.acquireTimeout,
+              `Timed out after ${this.acquireTimeout}ms waiting for a free MATLAB session`
+            )
+          );
+        }, this.acquireTimeout);
+      }
+
+      this.waiters.push(waiter);
+      this.emitStats();
+    });
+  }
+
+  /**
+   * Return a leased session to the pool, recycling it if needed
+   */
+  private release(session: MatlabSession, crashed: boolean): void {
+    this.busy.delete(session);
+
+    let reason: PoolRecycleReason | null = null;
+    if (crashed) {
+      reason = 'crashed';
+    } else if (!session.isReady) {
+      reason = 'state';
+    } else if (
+      this.maxCommandsPerSession > 0 &&
+      session.commandCount >= this.maxCommandsPerSession
+    ) {
+      reason = 'maxCommands';
+    }
+
+    if (reason) {
+      this.recycle(session, reason);
+    } else {
+      this.makeAvailable(session);
+    }
+  }
+
+  /**
+   * Close a session and start a replacement
+   */
+  private recycle(session: MatlabSession, reason: PoolRecycleReason): void {
+    this.emit('recycle', { reason, commandCount: session.commandCount });
+    session.close().catch(() => undefined);
+
+    if (this.closing && this.waiters.length === 0) {
+      this.emitStats();
+      this.checkDrained();
+      return;
+    }
+
+    this.starting++;
+    this.emitStats();
+
+    createSession(this.sessionOptions).then(
+      (replacement) => {
+        this.starting--;
+        this.makeAvailable(replacement);
+      },
+      (error: Error) => {
+        this.starting--;
+        this.emit('sessionError', error);
+
+        // Without any live sessions, queued callers would wait forever
+        if (this.idle.length === 0 && this.busy.size === 0 && this.starting === 0) {
+          for (const waiter of this.waiters.splice(0)) {
+            if (waiter.timeout) {
+              clearTimeout(waiter.timeout);
+            }
+            waiter.reject(error);
+          }
+        }
+        this.emitStats();
+        this.checkDrained();
+      }
+    );
+  }
+
+  /**
+   * Hand a session to the next waiter, or park it as idle
+   */
+  private makeAvailable(session: MatlabSession): void {
+    const waiter = this.waiters.shift();
+
+    if (waiter) {
+      if (waiter.timeout) {
+        clearTimeout(waiter.timeout);
+      }
+      this.busy.add(session);
+      this.emitStats();
+      waiter.resolve(session);
+      return;
+    }
+
+    this.idle.push(session);
+    this.emitStats();
+    this.checkDrained();
+  }
+
+  /**
+   * Resolve a pending close once nothing is in flight
+   */
+  private checkDrained(): void {
+    if (
+      this.drainResolve &&
+      this.busy.size === 0 &&
+      this.waiters.length === 0 &&
+      this.starting === 0
+    ) {
+      const resolve = this.drainResolve;
+      this.drainResolve = null;
+      resolve();
+    }
+  }
+
+  /**
+   * Emit current pool usage
+   */
+  private emitStats(): void {
+    this.emit('stats', this.stats);
+  }
+}
+
+/**
+ * Create and start a new MATLAB session pool
+ *
+ * @param options - Pool options
+ * @returns Promise resolving to started pool
+ *
+ * @example
+ * ```typescript
+ * const pool = await createSessionPool({ size: 4 });
+ * const result = await pool.use((session) => session.run('disp(version)'));
+ * await pool.close();
+ * ```
+ */
+export async function createSessionPool(options?: SessionPoolOptions): Promise<MatlabSessionPool> {
+  const pool = new MatlabSessionPool(options);
+  await pool.start();
+  return pool;
+}
@@ -5,14 +5,152 @@
 
 import { type ChildProcess, spawn } from 'node:child_process';
 import { EventEmitter } from 'node:events';
-import { MatlabError, MatlabNotInstalledError, MatlabTimeoutError, parseError } from './errors.js';
-import type { MatlabResult, SessionOptions, SessionState } from './types.js';
-import { extractJSON, generateJSONExtractionCode, jsToMatlabValue } from './utils/parser.js';
-import { isInstalled } from './utils/version.js';
+import { join } from 'node:path';
+import {
+  MatlabAbortError,
+  MatlabError,
+  MatlabNotInstalledError,
+  MatlabSessionCrashedError,
+  MatlabTimeoutError,
+  fromMatlabException,
+} from './errors.js';
+import type {
+  AutoRestartOptions,
+  FigureOptions,
+  MatlabOutputStream,
+  MatlabResult,
+  MatlabStreamEvent,
+  RenderedFigure,
+  SessionCallback,
+  SessionCommandOptions,
+  SessionOptions,
+  SessionRestartEvent,
+  SessionState,
+  SessionVariableOptions,
+  TypedVariable,
+  VariableInfo,
+} from './types.js';
+import { decodeTypedVariable, generateTypedExtractionCode } from './utils/envelope.js';
+import {
+  generateSaveAllFiguresCode,
+  parseSavedFigures,
+  readRenderedFigures,
+} from './utils/figure.js';
+import { installHelpers } from './utils/helpers.js';
+import { resolveLaunch } from './utils/launch.js';
+import { countValueElements, createTempMatFile, hasMatFileForm } from './utils/matfile.js';
+import {
+  decodeExtractedValue,
+  extractJSON,
+  generateJSONExtractionCode,
+  jsToMatlabValue,
+} from './utils/parser.js';
+import {
+  cleanupTempDir,
+  cleanupTempScript,
+  createTempDir,
+  extractWarnings,
+} from './utils/process.js';
+import {
+  type CallRequest,
+  type CommandFrame,
+  createCommandId,
+  encodeCallResponse,
+  extractFrame,
+  parseCallRequest,
+  parseFrame,
+  readOutputLines,
+  wrapCommand,
+} from './utils/protocol.js';
+import {
+  EventChannel,
+  FIGURE_CREATED_MARKER,
+  generateFigureWatchCode,
+  parseProgressRecord,
+  removeFigureMarkers,
+  removeProgressRecords,
+  toStreamEvents,
+} from './utils/stream.js';
+import {
+  generateBinaryExtractionCode,
+  readBinaryVariables,
+  resolveBinaryThreshold,
+} from './utils/transfer.js';
+import { isInstalled, readInstalledVersion } from './utils/version.js';
+import {
+  generateClearVariablesCode,
+  generateHasVariableCode,
+  generateRestoreSnapshotCode,
+  generateSaveSnapshotCode,
+  generateWhosCode,
+  parseWhosOutput,
+} from './utils/workspace.js';
 
-/** Command completion marker */
-const COMMAND_COMPLETE_MARKER = '__NODE_MATLAB_CMD_COMPLETE__';
-const COMMAND_ERROR_MARKER = '__NODE_MATLAB_CMD_ERROR__';
+/**
+ * Command waiting in or running from the session queue
+ */
+interface PendingCommand {
+  /** Identifier of the sentinels that end the command */
+  id: string;
+  command: string;
+  resolve: (result: MatlabResult) => void;
+  reject: (error: Error) => void;
+  startTime: number;
+  /** Set once the command timed out or was aborted and its promise rejected */
+  cancelled?: boolean;
+  /** Callback for each line the command prints */
+  onLine?: (stream: MatlabOutputStream, line: string) => void;
+  /** Positions in the output buffers up to which lines have been reported */
+  offsets: Record<MatlabOutputStream, number>;
+}
+
+/**
+ * Route a command's stdout lines to its `onProgress` and `onStructuredProgress`
+ *
+ * @returns Line callback, or undefined if the command has neither callback
+ */
+function createProgressHandler(
+  options?: SessionCommandOptions
+): ((stream: MatlabOutputStream, line: string) => void) | undefined {
+  const onProgress = options?.onProgress;
+  const onStructuredProgress = options?.onStructuredProgress;
+  if (!onProgress && !onStructuredProgress) {
+    return undefined;
+  }
+
+  return (stream, line) => {
+    if (stream !== 'stdout' || line.startsWith(FIGURE_CREATED_MARKER)) return;
+
+    const progress = parseProgressRecord(line);
+    if (progress) {
+      onStructuredProgress?.(progress);
+    } else {
+      onProgress?.(line);
+    }
+  };
+}
+
+/**
+ * Resolve the `autoRestart` session option into backoff limits
+ *
+ * @returns Limits with defaults applied, or null if restarts are disabled
+ */
+function resolveAutoRestart(
+  option: boolean | AutoRestartOptions | undefined
+): Required<AutoRestartOptions> | null {
+  if (!option) {
+    return null;
+  }
+
+  const limits = option === true ? {} : option;
+  return {
+    maxRestarts: limits.maxRestarts ?? 3,
+    initialDelay: limits.initialDelay ?? 1000,
+    maxDelay: limits.maxDelay ?? 30000,
+    backoffFactor: limits.backoffFactor ?? 2,
+    resetAfter: limits.resetAfter ?? 60000,
+  };
+}
 
 /**
  * Persistent MATLAB session for efficient multiple command execution
@@ -40,15 +178,22 @@ const COMMAND_ERROR_MARKER = '__NODE_MATLAB_CMD_ERROR__';
 export class MatlabSession extends EventEmitter {
   private process: ChildProcess | null = null;
   private state: SessionState = 'closed';
-  private commandQueue: Array<{
-    command: string;
-    resolve: (result: MatlabResult) => void;
-    reject: (error: Error) => void;
-    timeout?: NodeJS.Timeout;
-    startTime: number;
-  }> = [];
+  private commandQueue: PendingCommand[] = [];
   private currentOutput = '';
   private currentError = '';
+  private commandsExecuted = 0;
+  private snapshotPath: string | null = null;
+  private addedPaths: string[] = [];
+  private currentDir: string | undefined;
+  private startedAt = 0;
+  private restartAttempts = 0;
+  private restartTimer: NodeJS.Timeout | null = null;
+  private interruptTimer: NodeJS.Timeout | null = null;
+  /** Restart reason when MATLAB was killed because it could not be interrupted */
+  private interruptFailure: string | null = null;
+  private recovering = false;
+  private closing = false;
+  private callbacks = new Map<string, SessionCallback>();
   private options: SessionOptions;
 
   constructor(options?: SessionOptions) {
@@ -58,6 +203,15 @@ export class MatlabSession extends EventEmitter {
       cwd: options?.cwd,
       addPath: options?.addPath ?? [],
       keepAlive: options?.keepAlive ?? true,
+      matFileThreshold: options?.matFileThreshold ?? 10000,
+      transfer: options?.transfer,
+      binaryThreshold: options?.binaryThreshold,
+      restoreSnapshotOnRestart: options?.restoreSnapshotOnRestart ?? true,
+      autoRestart: options?.autoRestart ?? false,
+      interruptTimeout: options?.interruptTimeout ?? 5000,
+      executable: options?.executable,
+      launchArgs: options?.launchArgs,
+      env: options?.env,
     };
   }
 
@@ -82,6 +236,20 @@ export class MatlabSession extends EventEmitter {
     return this.state !== 'closed';
   }
 
+  /**
+   * Number of commands completed since the session started
+   */
+  get commandCount(): number {
+    return this.commandsExecuted;
+  }
+
+  /**
+   * Path of the most recent snapshot saved or restored by this session
+   */
+  get lastSnapshot(): string | null {
+    return this.snapshotPath;
+  }
+
   /**
    * Start the MATLAB session
    *
@@ -92,20 +260,39 @@ export class MatlabSession extends EventEmitter {
       throw new Error(`Cannot start session in state: ${this.state}`);
     }
 
-    if (!isInstalled()) {
+    if (!isInstalled(this.options)) {
       throw new MatlabNotInstalledError();
     }
 
+    this.commandsExecuted = 0;
+    this.restartAttempts = 0;
+    this.addedPaths = [];
+    this.currentDir = undefined;
+    return this.launch('');
+  }
+
+  /**
+   * Spawn the MATLAB process and wait for its prompt
+   *
+   * @param setup - MATLAB code run after the `addPath` option, before any queued command
+   */
+  private async launch(setup: string): Promise<void> {
     this.state = 'starting';
+    this.closing = false;
     this.emit('stateChange', this.state);
 
+    const helperDir = await installHelpers();
+
     return new Promise((resolve, reject) => {
       // Start MATLAB in interactive mode
-      this.process = spawn('matlab', ['-nosplash', '-nodesktop'], {
+      const launch = resolveLaunch(this.options);
+      const child = spawn(launch.executable, [...launch.args, '-nosplash', '-nodesktop'], {
         stdio: ['pipe', 'pipe', 'pipe'],
         cwd: this.options.cwd,
+        env: launch.env,
         windowsHide: true,
       });
+      this.process = child;
 
       let startupComplete = false;
       let startupOutput = '';
@@ -121,16 +308,18 @@ export class MatlabSession extends EventEmitter {
           // Emit startup output for debugging purposes
           this.emit('startup', startupOutput);
 
-          // Add paths if specified
-          if (this.options.addPath && this.options.addPath.length > 0) {
-            const pathCommands = this.options.addPath
-              .map((p) => `addpath('${p.replace(/'/g, "''")}');`)
-              .join(' ');
-            this.process?.stdin?.write(`${pathCommands}\n`);
+          // Add the helpers and paths if specified, then replay any recovered state
+          const setupCommands = [helperDir, ...(this.options.addPath ?? [])]
+            .map((p) => `addpath('${p.replace(/'/g, "''")}');`)
+            .concat(setup ? [setup] : [])
+            .join('\n');
+          if (setupCommands) {
+            child.stdin?.write(`${setupCommands}\n`);
           }
 
           // Set up session
           this.setupEventHandlers();
+          this.startedAt = Date.now();
           this.state = 'ready';
           this.emit('stateChange', this.state);
           this.emit('ready');
@@ -138,41 +327,188 @@ export class MatlabSession extends EventEmitter {
         }
       };
 
-      this.process.stdout?.on('data', onStartupData);
+      child.stdout?.on('data', onStartupData);
 
-      this.process.stderr?.on('data', (data: Buffer) => {
+      child.stderr?.on('data', (data: Buffer) => {
         const chunk = data.toString();
         if (!startupComplete) {
           startupOutput += chunk;
         }
       });
 
-      this.process.on('error', (error) => {
+      child.on('error', (error) => {
         this.state = 'error';
         this.emit('stateChange', this.state);
         this.emit('error', error);
         reject(error);
       });
 
-      this.process.on('close', (code) => {
+      child.on('close', (code, signal) => {
+        // A process killed by close() may exit after its replacement started
+        if (this.process !== child) return;
+        this.process = null;
+
         if (!startupComplete) {
           reject(new Error(`MATLAB process exited during startup with code ${code}`));
+        } else if (!this.closing) {
+          this.handleCrash(code, signal);
+          return;
+        }
+
+        if (this.restartTimer === null && !this.recovering) {
+          this.state = 'closed';
+          this.emit('stateChange', this.state);
+          this.emit('close', code);
         }
-        this.state = 'closed';
-        this.emit('stateChange', this.state);
-        this.emit('close', code);
       });
 
       // Startup timeout
       setTimeout(() => {
         if (!startupComplete) {
-          this.process?.kill();
+          child.kill();
           reject(new Error('MATLAB startup timed out'));
         }
       }, 60000);
     });
   }
 
+  /**
+   * Handle the MATLAB process exiting without `close()` being called
+   *
+   * Only the command that was running is rejected. The rest of the queue is
+   * kept for the respawned process, or rejected if no restart is allowed.
+   */
+  private handleCrash(exitCode: number | null, signal: NodeJS.Signals | null): void {
+    this.clearInterruptTimer();
+    const inFlight = this.state === 'busy' ? this.commandQueue.shift() : undefined;
+    if (inFlight && !inFlight.cancelled) {
+      inFlight.reject(new MatlabSessionCrashedError(exitCode, signal, inFlight.command));
+    }
+
+    this.currentOutput = '';
+    this.currentError = '';
+
+    // Killed because an interrupted command did not stop: restart regardless
+    // of the autoRestart option
+    if (this.interruptFailure) {
+      const reason = this.interruptFailure;
+      this.interruptFailure = null;
+      this.scheduleRestart(exitCode, signal, reason);
+      return;
+    }
+
+    // A session that stayed up long enough starts a fresh backoff sequence
+    const policy = resolveAutoRestart(this.options.autoRestart);
+    if (policy && Date.now() - this.startedAt >= policy.resetAfter) {
+      this.restartAttempts = 0;
+    }
+
+    this.scheduleRestart(exitCode, signal);
+  }
+
+  /**
+   * Respawn MATLAB after a backoff delay, or give up and close the session
+   *
+   * @param reason - Forces a restart with this reason even if `autoRestart`
+   *   is disabled
+   */
+  private scheduleRestart(
+    exitCode: number | null,
+    signal: NodeJS.Signals | null,
+    reason?: string
+  ): void {
+    const policy = resolveAutoRestart(
+      reason ? this.options.autoRestart || true : this.options.autoRestart
+    );
+    const crash = new MatlabSessionCrashedError(exitCode, signal);
+
+    if (!policy || this.restartAttempts >= policy.maxRestarts) {
+      this.rejectQueue(crash);
+      this.state = 'closed';
+      this.emit('stateChange', this.state);
+      this.emit('close', exitCode);
+      return;
+    }
+
+    const attempt = ++this.restartAttempts;
+    const delay = Math.min(
+      policy.initialDelay * policy.backoffFactor ** (attempt - 1),
+      policy.maxDelay
+    );
+    const event: SessionRestartEvent = {
+      reason: reason ?? crash.message,
+      exitCode,
+      signal,
+      attempt,
+      delay,
+    };
+
+    this.state = 'starting';
+    this.emit('stateChange', this.state);
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      void this.recover(event, reason);
+    }, delay);
+  }
+
+  /**
+   * Respawn the MATLAB process, replay `addPath()`/`cd()` calls and the last
+   * snapshot, then continue with the queued commands
+   */
+  private async recover(event: SessionRestartEvent, reason?: string): Promise<void> {
+    const setup = [this.replaySetup()];
+    if (this.options.restoreSnapshotOnRestart && this.snapshotPath) {
+      setup.push(await this.restoreSnapshotCode(this.snapshotPath));
+    }
+
+    this.recovering = true;
+    try {
+      await this.launch(setup.filter(Boolean).join('\n'));
+    } catch {
+      if (!this.closing) {
+        this.scheduleRestart(event.exitCode, event.signal, reason);
+      }
+      return;
+    } finally {
+      this.recovering = false;
+    }
+
+    this.emit('restart', event);
+    this.processQueue();
+  }
+
+  /**
+   * MATLAB code loading a snapshot, keeping the helper directory, the
+   * `addPath` option and directories added with `addPath()` on the path
+   */
+  private async restoreSnapshotCode(filePath: string): Promise<string> {
+    const keepPaths = [await installHelpers(), ...(this.options.addPath ?? []), ...this.addedPaths];
+    return generateRestoreSnapshotCode(filePath, keepPaths);
+  }
+
+  /**
+   * MATLAB code repeating the `addPath()` and `cd()` calls made on this session
+   */
+  private replaySetup(): string {
+    const commands = this.addedPaths.map((p) => `addpath('${p.replace(/'/g, "''")}');`);
+    if (this.currentDir !== undefined) {
+      commands.push(`cd('${this.currentDir.replace(/'/g, "''")}');`);
+    }
+    return commands.join(' ');
+  }
+
+  /**
+   * Reject and clear every pending command
+   */
+  private rejectQueue(error: Error): void {
+    for (const pending of this.commandQueue) {
+      if (!pending.cancelled) {
+        pending.reject(error);
+      }
+    }
+    this.commandQueue = [];
+  }
+
   /**
    * Set up event handlers for ongoing communication
    */
@@ -188,6 +524,8 @@ export class MatlabSession extends EventEmitter {
     this.process.stderr?.removeAllListeners('data');
     this.process.stderr?.on('data', (data: Buffer) => {
       this.currentError += data.toString();
+      this.emitLines();
+      this.checkCommandComplete();
     });
   }
 
@@ -196,50 +534,113 @@ export class MatlabSession extends EventEmitter {
    */
   private handleOutput(chunk: string): void {
     this.currentOutput += chunk;
+    this.emitLines();
+    this.checkCommandComplete();
+  }
 
-    // Check for command completion
-    if (this.currentOutput.includes(COMMAND_COMPLETE_MARKER)) {
-      this.processCommandComplete(false);
-    } else if (this.currentOutput.includes(COMMAND_ERROR_MARKER)) {
-      this.processCommandComplete(true);
+  /**
+   * Pass the lines the running command has printed to its line callback and
+   * answer the callback requests among them
+   */
+  private emitLines(): void {
+    const pending = this.commandQueue[0];
+    if (this.state !== 'busy' || !pending || pending.cancelled) return;
+
+    const buffers: Record<MatlabOutputStream, string> = {
+      stdout: this.currentOutput,
+      stderr: this.currentError,
+    };
+    for (const stream of ['stdout', 'stderr'] as const) {
+      const { lines, offset } = readOutputLines(
+        buffers[stream],
+        pending.id,
+        pending.offsets[stream]
+      );
+      pending.offsets[stream] = offset;
+      for (const line of lines) {
+        const request = stream === 'stdout' ? parseCallRequest(line) : null;
+        if (request) {
+          void this.answerCall(pending, request);
+        } else {
+          pending.onLine?.(stream, line);
+        }
+      }
+    }
+  }
+
+  /**
+   * Run a registered callback for `nm_call` and write its result to MATLAB
+   *
+   * The answer is dropped if the command was interrupted in the meantime,
+   * since MATLAB would read it as a new command.
+   */
+  private async answerCall(pending: PendingCommand, request: CallRequest): Promise<void> {
+    const id = pending.id;
+    let response: string;
+
+    try {
+      const callback = this.callbacks.get(request.name);
+      if (!callback) {
+        throw new Error(`No callback registered as '${request.name}'`);
+      }
+      const value = await callback(...request.args.map(decodeExtractedValue));
+      response = encodeCallResponse({ value: jsToMatlabValue(value) });
+    } catch (error) {
+      response = encodeCallResponse({
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    if (this.commandQueue[0] === pending && !pending.cancelled && pending.id === id) {
+      this.process?.stdin?.write(response);
     }
   }
 
+  /**
+   * Complete the running command once its end sentinel has arrived on both
+   * stdout and stderr
+   */
+  private checkCommandComplete(): void {
+    const pending = this.commandQueue[0];
+    if (this.state !== 'busy' || !pending) return;
+
+    const stdout = extractFrame(this.currentOutput, pending.id);
+    const stderr = extractFrame(this.currentError, pending.id);
+    if (!stdout || !stderr) return;
+
+    // Keep anything printed after the sentinels for the next command
+    this.currentOutput = stdout.rest;
+    this.currentError = stderr.rest;
+    this.processCommandComplete(parseFrame(stdout.body, stderr.body, pending.id));
+  }
+
   /**
    * Process command completion
    */
-  private processCommandComplete(hasError: boolean): void {
+  private processCommandComplete(frame: CommandFrame): void {
     const pending = this.commandQueue.shift();
     if (!pending) return;
 
     // Calculate duration
     const duration = Date.now() - pending.startTime;
+    this.clearInterruptTimer();
 
-    if (pending.timeout) {
-      clearTimeout(pending.timeout);
-    }
-
-    // Extract output (remove markers and prompt)
-    const output = this.currentOutput
-      .replace(COMMAND_COMPLETE_MARKER, '')
-      .replace(COMMAND_ERROR_MARKER, '')
-      .replace(/^>>\s*/gm, '')
-      .trim();
-
-    // Reset for next command
-    const error = this.currentError;
-    this.currentOutput = '';
-    this.currentError = '';
     this.state = 'ready';
     this.emit('stateChange', this.state);
 
-    if (hasError || error.toLowerCase().includes('error')) {
-      pending.reject(parseError(error || output));
+    if (pending.cancelled) {
+      // Already rejected; MATLAB is back at the prompt
+    } else if (frame.error) {
+      this.commandsExecuted++;
+      pending.reject(fromMatlabException(frame.error, { command: pending.command }));
     } else {
+      this.commandsExecuted++;
+      const warnings = extractWarnings(frame.errorOutput);
       pending.resolve({
-        output,
+        output: removeProgressRecords(frame.output),
         exitCode: 0,
         duration,
+        warnings: warnings.length > 0 ? warnings : undefined,
       });
     }
 
@@ -259,49 +660,221 @@ export class MatlabSession extends EventEmitter {
     this.state = 'busy';
     this.emit('stateChange', this.state);
 
-    // Add completion marker to command
-    const wrappedCommand = `${next.command}\ndisp('${COMMAND_COMPLETE_MARKER}');\n`;
+    this.process?.stdin?.write(wrapCommand(next.command, next.id));
+  }
+
+  /**
+   * Cancel a command that timed out or was aborted
+   *
+   * A queued command is removed from the queue. A running command is
+   * interrupted with SIGINT; the session waits for MATLAB to return to the
+   * prompt and restarts the process if it does not within `interruptTimeout`.
+   * On Windows, where Node.js cannot deliver SIGINT and ends the process
+   * instead, MATLAB is restarted right away.
+   */
+  private cancel(pending: PendingCommand, error: MatlabError): void {
+    const index = this.commandQueue.indexOf(pending);
+    if (index === -1 || pending.cancelled) return;
+
+    pending.cancelled = true;
+    pending.reject(error);
+
+    if (index > 0 || this.state !== 'busy') {
+      this.commandQueue.splice(index, 1);
+      return;
+    }
+
+    if (process.platform === 'win32') {
+      this.interruptFailure = 'Command cancelled';
+      this.process?.kill('SIGKILL');
+      return;
+    }
+
+    this.process?.kill('SIGINT');
+    this.probeInterrupt(pending, true);
+  }
+
+  /**
+   * Wait for an interrupted command to return to the prompt
+   *
+   * An interrupt skips the end sentinel, so a probe command is sent instead.
+   * If the command had already finished, the interrupt can cancel the probe
+   * itself; a second probe tells that apart from a command that ignores the
+   * interrupt before MATLAB is killed.
+   *
+   * @param retry - Send another probe if this one does not return in time
+   */
+  private probeInterrupt(pending: PendingCommand, retry: boolean): void {
+    pending.id = createCommandId();
+    this.process?.stdin?.write(wrapCommand('', pending.id));
+
+    this.interruptTimer = setTimeout(() => {
+      this.interruptTimer = null;
+      if (retry) {
+        this.probeInterrupt(pending, false);
+        return;
+      }
+      this.interruptFailure = 'Command did not stop after interrupt';
+      this.process?.kill('SIGKILL');
+    }, this.options.interruptTimeout);
+  }
 
-    this.process?.stdin?.write(wrappedCommand);
+  /**
+   * Stop waiting for an interrupted command to return to the prompt
+   */
+  private clearInterruptTimer(): void {
+    if (this.interruptTimer) {
+      clearTimeout(this.interruptTimer);
+      this.interruptTimer = null;
+    }
   }
 
   /**
    * Run a MATLAB command in the session
    *
+   * When the command times out or its signal is aborted, MATLAB is
+   * interrupted and the promise rejects with {@link MatlabTimeoutError} or
+   * {@link MatlabAbortError}; later commands run once MATLAB is back at the
+   * prompt.
+   *
    * @param command - MATLAB command to execute
+   * @param options - Timeout, cancellation and progress callback for this command
    * @returns Promise resolving to execution result
    *
    * @example
    * ```typescript
    * const result = await session.run('x = 1:10;');
+   *
+   * const controller = new AbortController();
+   * await session.run('longTask()', {
+   *   timeout: 60000,
+   *   signal: controller.signal,
+   *   onProgress: (line) => console.log(line),
+   * });
    * ```
    */
-  async run(command: string): Promise<MatlabResult> {
+  async run(command: string, options?: SessionCommandOptions): Promise<MatlabResult> {
+    return this.enqueue(command, options, createProgressHandler(options));
+  }
+
+  /**
+   * Run a MATLAB command and yield its output as it arrives
+   *
+   * Lines are buffered until complete. The last event is `done` with the
+   * command's result; if the command fails, the loop throws the error instead.
+   * When the consumer falls behind, the session stops reading MATLAB's output
+   * until it catches up. Leaving the loop early interrupts the command.
+   *
+   * @param command - MATLAB command to execute
+   * @param options - Timeout, cancellation and progress callback for this command
+   * @returns Async iterable of {@link MatlabStreamEvent}s
+   *
+   * @example
+   * ```typescript
+   * for await (const event of session.stream('trainModel()')) {
+   *   if (event.type === 'stdout') console.log(event.line);
+   *   if (event.type === 'figure-created') console.log(`Figure ${event.figure}`);
+   *   if (event.type === 'done') console.log(`Finished in ${event.result.duration}ms`);
+   * }
+   * ```
+   */
+  stream(command: string, options?: SessionCommandOptions): AsyncIterable<MatlabStreamEvent> {
+    const controller = new AbortController();
+    const signal = options?.signal;
+    const onAbort = () => controller.abort();
+    if (signal?.aborted) {
+      controller.abort();
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const channel = new EventChannel<MatlabStreamEvent>({
+      pause: () => {
+        this.process?.stdout?.pause();
+        this.process?.stderr?.pause();
+      },
+      resume: () => {
+        this.process?.stdout?.resume();
+        this.process?.stderr?.resume();
+      },
+      cancel: () => controller.abort(),
+    });
+
+    const onProgress = createProgressHandler(options);
+    this.enqueue(
+      generateFigureWatchCode(command),
+      { ...options, signal: controller.signal },
+      (stream, line) => {
+        onProgress?.(stream, line);
+        for (const event of toStreamEvents(stream, line)) {
+          channel.push(event);
+        }
+      }
+    )
+      .then((result) => {
+        channel.push({
+          type: 'done',
+          result: { ...result, output: removeFigureMarkers(result.output) },
+        });
+        channel.close();
+      })
+      .catch((error: unknown) => channel.close(error))
+      .finally(() => signal?.removeEventListener('abort', onAbort));
+
+    return channel;
+  }
+
+  /**
+   * Queue a command with a callback for its output lines
+   */
+  private async enqueue(
+    command: string,
+    options: SessionCommandOptions | undefined,
+    onLine?: (stream: MatlabOutputStream, line: string) => void
+  ): Promise<MatlabResult> {
     if (this.state === 'closed' || this.state === 'error') {
       throw new Error(`Session is ${this.state}`);
     }
 
+    const signal = options?.signal;
+    if (signal?.aborted) {
+      throw new MatlabAbortError();
+    }
+
     return new Promise((resolve, reject) => {
-      const startTime = Date.now();
+      const timeoutMs = options?.timeout ?? this.options.timeout;
       let timeout: NodeJS.Timeout | undefined;
+      const onAbort = () => this.cancel(pending, new MatlabAbortError());
 
-      if (this.options.timeout && this.options.timeout > 0) {
-        timeout = setTimeout(() => {
-          const index = this.commandQueue.findIndex((c) => c.command === command);
-          if (index !== -1) {
-            this.commandQueue.splice(index, 1);
-          }
-          reject(new MatlabTimeoutError(this.options.timeout!));
-        }, this.options.timeout);
-      }
+      const settle = () => {
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', onAbort);
+      };
 
-      this.commandQueue.push({
+      const pending: PendingCommand = {
+        id: createCommandId(),
         command,
-        resolve,
-        reject,
-        timeout,
-        startTime,
-      });
+        resolve: (result) => {
+          settle();
+          resolve(result);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        },
+        startTime: Date.now(),
+        onLine,
+        offsets: { stdout: 0, stderr: 0 },
+      };
+
+      if (timeoutMs && timeoutMs > 0) {
+        timeout = setTimeout(
+          () => this.cancel(pending, new MatlabTimeoutError(timeoutMs)),
+          timeoutMs
+        );
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.commandQueue.push(pending);
 
       // Start processing if ready
       if (this.state === 'ready') {
@@ -314,10 +887,11 @@ export class MatlabSession extends EventEmitter {
    * Evaluate a simple expression and return the result
    *
    * @param expression - MATLAB expression
+   * @param options - Options for this command
    * @returns Promise resolving to result string
    */
-  async eval(expression: string): Promise<string> {
-    const result = await this.run(`disp(${expression})`);
+  async eval(expression: string, options?: SessionCommandOptions): Promise<string> {
+    const result = await this.run(`disp(${expression})`, options);
     return result.output;
   }
 
@@ -325,6 +899,8 @@ export class MatlabSession extends EventEmitter {
    * Get a variable from the MATLAB workspace
    *
    * @param name - Variable name
+   * @param options - Transfer options (defaults to the session options) and
+   *   options for the extraction command
    * @returns Promise resolving to variable value
    *
    * @example
@@ -332,56 +908,329 @@ export class MatlabSession extends EventEmitter {
    * await session.run('x = [1, 2, 3, 4, 5];');
    * const x = await session.getVariable('x');
    * // x = [1, 2, 3, 4, 5]
+   *
+   * await session.run('big = rand(1000);');
+   * const big = await session.getVariable('big', { transfer: 'binary' });
+   * // big = { type: 'double', dims: [1000, 1000], real: Float64Array(1000000) }
    * ```
    */
-  async getVariable(name: string): Promise<unknown> {
+  async getVariable(name: string, options?: SessionVariableOptions): Promise<unknown> {
+    const binaryThreshold = resolveBinaryThreshold({
+      transfer: options?.transfer ?? this.options.transfer,
+      binaryThreshold: options?.binaryThreshold ?? this.options.binaryThreshold,
+    });
+
+    if (binaryThreshold !== null) {
+      const outputDir = await createTempDir();
+      try {
+        const result = await this.run(
+          generateBinaryExtractionCode([name], outputDir, binaryThreshold),
+          options
+        );
+        const binary = await readBinaryVariables(outputDir, [name]);
+        const json = extractJSON<Record<string, unknown>>(result.output);
+        return binary[name] ?? decodeExtractedValue(json?.[name] ?? null);
+      } finally {
+        await cleanupTempDir(outputDir);
+      }
+    }
+
     const extractionCode = generateJSONExtractionCode([name]);
-    const result = await this.run(extractionCode);
+    const result = await this.run(extractionCode, options);
 
     const extracted = extractJSON<Record<string, unknown>>(result.output);
-    return extracted?.[name] ?? null;
+    return decodeExtractedValue(extracted?.[name] ?? null);
+  }
+
+  /**
+   * Get a variable from the MATLAB workspace with its class and shape
+   *
+   * @param name - Variable name
+   * @param options - Options for this command
+   * @returns Promise resolving to the value and its {@link VariableInfo}
+   * @throws {MatlabError} If the variable could not be extracted
+   *
+   * @example
+   * ```typescript
+   * await session.run('s = "text"; c = \'text\';');
+   * (await session.getTypedVariable('s')).info.type; // 'string'
+   * (await session.getTypedVariable('c')).info.type; // 'char'
+   * ```
+   */
+  async getTypedVariable(name: string, options?: SessionCommandOptions): Promise<TypedVariable> {
+    const result = await this.run(generateTypedExtractionCode([name]), options);
+
+    const envelopes = extractJSON<Record<string, unknown>>(result.output);
+    if (!envelopes || !(name in envelopes)) {
+      throw new MatlabError(`Could not extract variable: ${name}`, { command: name });
+    }
+
+    return decodeTypedVariable(name, envelopes[name]);
   }
 
   /**
    * Set a variable in the MATLAB workspace
    *
+   * Large values (see `matFileThreshold`) are written to a temporary MAT-file
+   * and loaded with `load()` instead of being inlined as MATLAB code. Values
+   * the MAT-file would store with a different class, such as dates or mixed
+   * arrays, are always sent as code.
+   *
    * @param name - Variable name
    * @param value - Value to set
+   * @param options - Options for this command
    *
    * @example
    * ```typescript
    * await session.setVariable('x', [1, 2, 3, 4, 5]);
    * await session.setVariable('name', 'test');
+   * await session.setVariable('signal', new Float64Array(1_000_000));
    * ```
    */
-  async setVariable(name: string, value: unknown): Promise<void> {
+  async setVariable(name: string, value: unknown, options?: SessionCommandOptions): Promise<void> {
+    const threshold = this.options.matFileThreshold ?? 0;
+
+    if (threshold > 0 && countValueElements(value) >= threshold && hasMatFileForm(value)) {
+      const matPath = await createTempMatFile({ [name]: value });
+      try {
+        await this.run(`load('${matPath.replace(/'/g, "''")}');`, options);
+      } finally {
+        await cleanupTempScript(matPath);
+      }
+      return;
+    }
+
     const matlabValue = jsToMatlabValue(value);
-    await this.run(`${name} = ${matlabValue};`);
+    await this.run(`${name} = ${matlabValue};`, options);
+  }
+
+  /**
+   * List the variables in the MATLAB workspace
+   *
+   * @param options - Options for this command
+   * @returns Promise resolving to one {@link VariableInfo} per variable, as reported by `whos`
+   * @throws {MatlabError} If the workspace listing could not be read
+   *
+   * @example
+   * ```typescript
+   * await session.run('x = rand(3); global g; g = 1;');
+   * const vars = await session.listVariables();
+   * // [{ name: 'g', size: [1, 1], type: 'double', bytes: 8, global: true, ... },
+   * //  { name: 'x', size: [3, 3], type: 'double', bytes: 72, global: false, ... }]
+   * ```
+   */
+  async listVariables(options?: SessionCommandOptions): Promise<VariableInfo[]> {
+    const result = await this.run(generateWhosCode(), options);
+
+    const whos = extractJSON<unknown>(result.output);
+    if (whos === null) {
+      throw new MatlabError('Could not list workspace variables', { command: 'whos' });
+    }
+
+    return parseWhosOutput(whos);
+  }
+
+  /**
+   * Check whether a variable exists in the MATLAB workspace
+   *
+   * @param name - Variable name
+   * @param options - Options for this command
+   * @returns Promise resolving to true if the variable exists
+   * @throws {MatlabError} If the name is not a valid MATLAB identifier
+   */
+  async hasVariable(name: string, options?: SessionCommandOptions): Promise<boolean> {
+    const result = await this.run(generateHasVariableCode(name), options);
+    return extractJSON<boolean>(result.output) === true;
+  }
+
+  /**
+   * Clear variables from the MATLAB workspace
+   *
+   * @param names - Variables to clear (all variables when omitted)
+   * @param options - Options for this command
+   * @throws {MatlabError} If a name is not a valid MATLAB identifier
+   *
+   * @example
+   * ```typescript
+   * await session.clearVariables(['x', 'y']);
+   * ```
+   */
+  async clearVariables(names?: string[], options?: SessionCommandOptions): Promise<void> {
+    const code = generateClearVariablesCode(names);
+    if (code) {
+      await this.run(code, options);
+    }
+  }
+
+  /**
+   * Save the workspace, current directory and MATLAB path to a MAT-file
+   *
+   * The snapshot becomes the session's {@link lastSnapshot} and is reloaded by
+   * {@link restart} unless `restoreSnapshotOnRestart` is disabled. Snapshots
+   * saved without a path go to a temporary directory that is not removed
+   * when the session closes.
+   *
+   * @param filePath - Destination MAT-file (default: a new temporary file)
+   * @param options - Options for this command
+   * @returns Promise resolving to the snapshot path
+   *
+   * @example
+   * ```typescript
+   * await session.run('results = runExperiment(1:10);');
+   * const snapshot = await session.saveSnapshot('/data/checkpoint.mat');
+   *
+   * const fresh = await createSession();
+   * await fresh.restoreSnapshot(snapshot);
+   * ```
+   */
+  async saveSnapshot(filePath?: string, options?: SessionCommandOptions): Promise<string> {
+    const target = filePath ?? join(await createTempDir(), 'snapshot.mat');
+
+    await this.run(generateSaveSnapshotCode(target), options);
+    this.snapshotPath = target;
+    return target;
+  }
+
+  /**
+   * Replace the workspace with a snapshot saved by {@link saveSnapshot}
+   *
+   * Variables are cleared before loading, and the saved MATLAB path and
+   * current directory are restored. The node-matlab helpers and directories
+   * from the `addPath` option or {@link addPath} stay on the path.
+   *
+   * @param filePath - Snapshot MAT-file
+   * @param options - Options for this command
+   */
+  async restoreSnapshot(filePath: string, options?: SessionCommandOptions): Promise<void> {
+    await this.run(await this.restoreSnapshotCode(filePath), options);
+    this.snapshotPath = filePath;
+  }
+
+  /**
+   * Restart the MATLAB process
+   *
+   * Pending commands are rejected. Directories added with {@link addPath} and
+   * the directory set with {@link cd} are restored. When a snapshot has been
+   * saved or restored and `restoreSnapshotOnRestart` is enabled, it is loaded
+   * into the new process.
+   */
+  async restart(): Promise<void> {
+    await this.close();
+    await this.launch(this.replaySetup());
+
+    if (this.options.restoreSnapshotOnRestart && this.snapshotPath) {
+      await this.restoreSnapshot(this.snapshotPath);
+    }
   }
 
   /**
    * Add a path to MATLAB's search path
    *
    * @param dir - Directory to add
+   * @param options - Options for this command
    */
-  async addPath(dir: string): Promise<void> {
-    await this.run(`addpath('${dir.replace(/'/g, "''")}');`);
+  async addPath(dir: string, options?: SessionCommandOptions): Promise<void> {
+    await this.run(`addpath('${dir.replace(/'/g, "''")}');`, options);
+    if (!this.addedPaths.includes(dir)) {
+      this.addedPaths.push(dir);
+    }
   }
 
   /**
    * Change the working directory
    *
    * @param dir - New working directory
+   * @param options - Options for this command
    */
-  async cd(dir: string): Promise<void> {
-    await this.run(`cd('${dir.replace(/'/g, "''")}');`);
+  async cd(dir: string, options?: SessionCommandOptions): Promise<void> {
+    await this.run(`cd('${dir.replace(/'/g, "''")}');`, options);
+    this.currentDir = dir;
   }
 
   /**
    * Clear all variables from workspace
+   *
+   * @param options - Options for this command
    */
-  async clearWorkspace(): Promise<void> {
-    await this.run('clear all;');
+  async clearWorkspace(options?: SessionCommandOptions): Promise<void> {
+    await this.run('clear all;', options);
+  }
+
+  /**
+   * Export every open figure to memory
+   *
+   * Figures are exported to a temporary directory that is removed before
+   * this method returns; they stay open in the session.
+   *
+   * @param figureOptions - Figure export options
+   * @param options - Options for this command
+   * @returns Promise resolving to one entry per open figure
+   *
+   * @example
+   * ```typescript
+   * await session.run('surf(peaks)');
+   * const [surface] = await session.captureFigures({ format: 'svg' });
+   * ```
+   */
+  async captureFigures(
+    figureOptions?: Partial<FigureOptions>,
+    options?: SessionCommandOptions
+  ): Promise<RenderedFigure[]> {
+    const outputDir = await createTempDir();
+    try {
+      const result = await this.run(
+        generateSaveAllFiguresCode(
+          outputDir,
+          'figure',
+          figureOptions,
+          readInstalledVersion(this.options)
+        ),
+        options
+      );
+      return await readRenderedFigures(
+        parseSavedFigures(result.output),
+        figureOptions?.format ?? 'png'
+      );
+    } finally {
+      await cleanupTempDir(outputDir);
+    }
+  }
+
+  /**
+   * Register a function MATLAB code can call with `nm_call(name, args...)`
+   *
+   * `nm_call` blocks until the callback returns. Arguments are decoded like
+   * {@link getVariable} results and the return value is converted like a
+   * {@link setVariable} value; an error thrown by the callback is raised in
+   * MATLAB with the identifier `node:callbackFailed`. The command's timeout
+   * keeps running while MATLAB waits.
+   *
+   * @param name - Name passed to `nm_call`
+   * @param callback - Function called with the MATLAB arguments (may be async)
+   *
+   * @example
+   * ```typescript
+   * session.registerCallback('fetchRecord', async (id) => db.records.find(Number(id)));
+   * session.registerCallback('log', (message) => logger.info(String(message)));
+   *
+   * await session.run(`
+   *   record = nm_call('fetchRecord', 42);
+   *   nm_call('log', sprintf('Loaded %s', record.name));
+   * `);
+   * ```
+   */
+  registerCallback(name: string, callback: SessionCallback): void {
+    this.callbacks.set(name, callback);
+  }
+
+  /**
+   * Remove a callback registered with {@link registerCallback}
+   *
+   * @param name - Name the callback was registered under
+   * @returns true if a callback was removed
+   */
+  unregisterCallback(name: string): boolean {
+    return this.callbacks.delete(name);
   }
 
   /**
@@ -390,27 +1239,40 @@ export class MatlabSession extends EventEmitter {
   async close(): Promise<void> {
     if (this.state === 'closed') return;
 
-    return new Promise((resolve) => {
-      // Clear pending commands
-      for (const pending of this.commandQueue) {
-        if (pending.timeout) {
-          clearTimeout(pending.timeout);
-        }
-        pending.reject(new MatlabError('Session closed'));
-      }
-      this.commandQueue = [];
+    this.closing = true;
+    this.clearInterruptTimer();
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+
+    // Clear pending commands
+    this.rejectQueue(new MatlabError('Session closed'));
 
+    const child = this.process;
+    if (!child) {
+      // Waiting to be restarted after a crash
+      this.state = 'closed';
+      this.emit('stateChange', this.state);
+      return;
+    }
+
+    return new Promise((resolve) => {
       // Send quit command and close
-      this.process?.stdin?.write('quit\n');
+      child.stdin?.write('quit\n');
 
       const forceKill = setTimeout(() => {
-        this.process?.kill('SIGKILL');
+        // Forget the process now so its late exit cannot touch a restarted one
+        child.removeAllListeners('close');
+        child.kill('SIGKILL');
+        this.process = null;
         this.state = 'closed';
         this.emit('stateChange', this.state);
+        this.emit('close', null);
         resolve();
       }, 5000);
 
-      this.process?.once('close', () => {
+      child.once('close', () => {
         clearTimeout(forceKill);
         this.state = 'closed';
         this.emit('stateChange', this.state);
@@ -7,10 +7,40 @@
 // Core Types
 // ============================================================================
 
+/**
+ * How workspace variables are transferred from MATLAB to Node.js
+ * - `json`: encode every variable with `jsonencode` (default)
+ * - `binary`: write numeric and logical arrays to temporary binary files
+ * - `auto`: use binary files for numeric arrays with at least `binaryThreshold` elements
+ */
+export type VariableTransferMode = 'json' | 'binary' | 'auto';
+
+/**
+ * Options controlling how variables are read back from MATLAB
+ */
+export interface VariableTransferOptions {
+  /** Transfer mode (default: 'json', or 'auto' when `binaryThreshold` is set) */
+  transfer?: VariableTransferMode;
+  /** Minimum element count for binary transfer in 'auto' mode (default: 10000) */
+  binaryThreshold?: number;
+}
+
+/**
+ * How the MATLAB process is launched
+ */
+export interface MatlabLaunchOptions {
+  /** MATLAB executable name or path (default: `$MATLAB_ROOT/bin/matlab`, or `matlab` from the PATH) */
+  executable?: string;
+  /** Extra command-line arguments, such as `-singleCompThread` or `-nojvm` */
+  launchArgs?: string[];
+  /** Additional environment variables */
+  env?: Record<string, string>;
+}
+
 /**
  * Options for running MATLAB commands
  */
-export interface MatlabOptions {
+export interface MatlabOptions extends VariableTransferOptions, MatlabLaunchOptions {
   /** Timeout in milliseconds */
   timeout?: number;
   /** Working directory for MATLAB execution */
@@ -19,10 +49,30 @@ export interface MatlabOptions {
   addPath?: string[];
   /** Callback for streaming output lines */
   onProgress?: (line: string) => void;
+  /** Callback for each record reported with `nm_progress` */
+  onStructuredProgress?: (progress: MatlabProgress) => void;
   /** AbortSignal for cancellation */
   signal?: AbortSignal;
-  /** Additional environment variables */
-  env?: Record<string, string>;
+  /**
+   * Variables to load into the workspace before the script runs. Numbers,
+   * strings, numeric or logical arrays, typed arrays and structs of these are
+   * sent as a MAT-file; dates, `Complex` scalars and mixed arrays, which a
+   * MAT-file would store with a different class, are assigned by generated
+   * code as in `setVariables`
+   */
+  variables?: Record<string, unknown>;
+}
+
+/**
+ * Progress record reported by MATLAB code with `nm_progress(fraction, message, data)`
+ */
+export interface MatlabProgress {
+  /** Fraction of the work done, from 0 to 1 */
+  fraction: number;
+  /** Status message */
+  message?: string;
+  /** Any additional value, as decoded from `jsonencode` */
+  data?: unknown;
 }
 
 /**
@@ -51,6 +101,30 @@ export interface MatlabVersion {
   full?: string;
 }
 
+/**
+ * A MATLAB installation found on disk
+ */
+export interface MatlabInstallation {
+  /** Installation root (`matlabroot`) */
+  root: string;
+  /** Path of the MATLAB executable */
+  executable: string;
+  /** Release name (e.g., "R2023a") */
+  release: string;
+  /** Version number from `VersionInfo.xml` (e.g., "9.14.0.2206163"), or "Unknown" */
+  version: string;
+}
+
+/**
+ * Criteria for choosing among installed MATLAB releases
+ */
+export interface MatlabInstallationSelector {
+  /** Semver-like release range (e.g., ">=R2023a", "R2022b - R2024a") */
+  release?: string;
+  /** Directories to scan for release folders (default: the standard install directories) */
+  installDirs?: string[];
+}
+
 /**
  * Information about an installed MATLAB toolbox
  */
@@ -63,6 +137,31 @@ export interface Toolbox {
   productId?: string;
 }
 
+// ============================================================================
+// Streaming Types
+// ============================================================================
+
+/**
+ * Output stream of a MATLAB process
+ */
+export type MatlabOutputStream = 'stdout' | 'stderr';
+
+/**
+ * Event yielded by `Matlab.stream()` and `MatlabSession.stream()`
+ * - `stdout` / `stderr`: a complete, non-empty output line
+ * - `warning`: a MATLAB warning, following the `stderr` or `stdout` line it was read from
+ * - `figure-created`: a figure was opened
+ * - `progress`: a record reported with `nm_progress`
+ * - `done`: the last event, carrying the result of the run
+ */
+export type MatlabStreamEvent =
+  | { type: 'stdout'; line: string }
+  | { type: 'stderr'; line: string }
+  | { type: 'warning'; message: string }
+  | { type: 'figure-created'; figure: number | null }
+  | { type: 'progress'; progress: MatlabProgress }
+  | { type: 'done'; result: MatlabResult };
+
 // ============================================================================
 // Figure/Graphics Types
 // ============================================================================
@@ -70,7 +169,28 @@ export interface Toolbox {
 /**
  * Supported image formats for figure export
  */
-export type ImageFormat = 'png' | 'svg' | 'pdf' | 'eps' | 'jpg' | 'fig';
+export type ImageFormat = 'png' | 'svg' | 'pdf' | 'eps' | 'jpg' | 'tiff' | 'gif' | 'fig';
+
+/**
+ * Named figure sizes, in pixels (see `getFigureSizePreset`)
+ */
+export type FigureSizePreset = 'small' | 'medium' | 'large' | 'widescreen' | 'square';
+
+/**
+ * Units of the figure `width` and `height`
+ */
+export type FigureUnits = 'pixels' | 'inches' | 'centimeters' | 'points';
+
+/**
+ * Figure background: a MATLAB color name, `#rrggbb`, an RGB triplet in [0, 1],
+ * or transparent
+ */
+export type FigureBackground =
+  | 'white'
+  | 'transparent'
+  | 'none'
+  | (string & {})
+  | [number, number, number];
 
 /**
  * Options for saving MATLAB figures
@@ -80,14 +200,173 @@ export interface FigureOptions {
   format: ImageFormat;
   /** Resolution in DPI (default: 300) */
   resolution?: number;
-  /** Figure width in pixels */
+  /** Figure width in `units` (overrides `size`) */
   width?: number;
-  /** Figure height in pixels */
+  /** Figure height in `units` (overrides `size`) */
   height?: number;
-  /** Background color */
-  backgroundColor?: 'white' | 'transparent' | 'none';
+  /**
+   * Size preset used for `width` or `height` when not given ('medium' if only
+   * one of them is set). Without `width`, `height` and `size` the figure keeps
+   * its own size
+   */
+  size?: FigureSizePreset;
+  /** Units of `width` and `height` (default: 'pixels') */
+  units?: FigureUnits;
+  /**
+   * Background color (default: 'white')
+   *
+   * Transparent backgrounds are kept by vector formats and PNG; JPG gets white.
+   */
+  backgroundColor?: FigureBackground;
   /** Content type for vector formats */
   contentType?: 'auto' | 'vector' | 'image';
+  /**
+   * Filename template when saving all figures (default: "{prefix}_{number}.{ext}")
+   *
+   * Placeholders: `{prefix}`, `{number}` (figure `Number`), `{index}` (1-based
+   * position), `{name}` (figure `Name` with other characters than letters,
+   * digits, `_` and `-` replaced by `_`) and `{ext}`.
+   */
+  filenameTemplate?: string;
+}
+
+/**
+ * Supported formats for recorded animations
+ */
+export type AnimationFormat = 'gif' | 'mp4' | 'avi';
+
+/**
+ * Options for recording an animation
+ */
+export interface AnimationOptions {
+  /** Frames per second (default: 10) */
+  fps?: number;
+  /** Output format (default: from the output extension, otherwise 'gif') */
+  format?: AnimationFormat;
+}
+
+/**
+ * A recorded animation
+ */
+export interface AnimationResult {
+  /** Path of the written file */
+  path: string;
+  /** Output format */
+  format: AnimationFormat;
+  /** Number of recorded frames */
+  frames: number;
+  /** Frames per second */
+  fps: number;
+}
+
+/**
+ * Kinds of plot objects described by figure data extraction
+ */
+export type FigureSeriesType = 'line' | 'scatter' | 'bar' | 'surface';
+
+/**
+ * Coordinates of a plot object: a vector, or a matrix as rows for surfaces
+ * (NaN becomes null)
+ */
+export type FigureSeriesValues = (number | null)[] | (number | null)[][];
+
+/**
+ * Data and style of one plot object
+ */
+export interface FigureSeries {
+  /** Object type */
+  type: FigureSeriesType;
+  /** `DisplayName`, as shown in the legend */
+  name: string;
+  /** `XData` */
+  x: FigureSeriesValues;
+  /** `YData` */
+  y: FigureSeriesValues;
+  /** `ZData` (empty for 2-D objects) */
+  z: FigureSeriesValues;
+  /**
+   * RGB triplet in [0, 1], a per-point color matrix for scatter plots, or a
+   * color mode such as 'flat' or 'none'
+   */
+  color: [number, number, number] | number[][] | string;
+}
+
+/**
+ * One axis of a plot
+ */
+export interface FigureAxisData {
+  /** Axis label */
+  label: string;
+  /** Axis limits [min, max] */
+  limits: [number, number];
+  /** Axis scale */
+  scale: 'linear' | 'log';
+}
+
+/**
+ * Contents of one set of axes
+ */
+export interface FigureAxesData {
+  /** Axes title */
+  title: string;
+  /** X axis */
+  x: FigureAxisData;
+  /** Y axis */
+  y: FigureAxisData;
+  /** Z axis */
+  z: FigureAxisData;
+  /** Legend entries (empty without a visible legend) */
+  legend: string[];
+  /** Plot objects in creation order */
+  series: FigureSeries[];
+}
+
+/**
+ * Plotted data of a figure
+ */
+export interface FigureData {
+  /** Figure `Number`, or null for figures without an integer handle */
+  figureNumber: number | null;
+  /** Figure `Name` (empty if not set) */
+  name: string;
+  /** Axes in creation order (legends and colorbars are not included) */
+  axes: FigureAxesData[];
+}
+
+/**
+ * A figure saved to disk by MATLAB
+ */
+export interface SavedFigure {
+  /** Path of the saved file */
+  path: string;
+  /** Figure `Number`, or null for figures without an integer handle */
+  figureNumber: number | null;
+  /** Figure `Name` (empty if not set) */
+  name: string;
+  /** Title of each axes, in creation order (empty strings for untitled axes) */
+  titles: string[];
+  /** Image width in pixels (figure width for vector formats) */
+  width: number;
+  /** Image height in pixels (figure height for vector formats) */
+  height: number;
+}
+
+/**
+ * A figure exported to memory
+ */
+export interface RenderedFigure {
+  /** File contents in the requested format */
+  buffer: Buffer;
+  /** Image format */
+  format: ImageFormat;
+  /** Image width in pixels (figure width for vector formats) */
+  width: number;
+  /** Image height in pixels (figure height for vector formats) */
+  height: number;
+  /** Figure `Number`, or null for figures without an integer handle */
+  figureNumber: number | null;
+  /** Figure `Name` (empty if not set) */
+  name: string;
 }
 
 // ============================================================================
@@ -97,7 +376,7 @@ export interface FigureOptions {
 /**
  * Options for creating a MATLAB session
  */
-export interface SessionOptions {
+export interface SessionOptions extends VariableTransferOptions, MatlabLaunchOptions {
   /** Timeout for each command in milliseconds */
   timeout?: number;
   /** Working directory */
@@ -106,6 +385,92 @@ export interface SessionOptions {
   addPath?: string[];
   /** Keep session alive between commands */
   keepAlive?: boolean;
+  /**
+   * Values with at least this many elements are sent to MATLAB through a
+   * temporary MAT-file instead of generated code (default: 10000, 0 = never).
+   * Only values that get the same MATLAB class either way are: numbers,
+   * strings, numeric or logical arrays, typed arrays and structs of these.
+   * Dates (`datetime` in code, a datenum in a MAT-file), `Complex` scalars
+   * and mixed arrays are always sent as code
+   */
+  matFileThreshold?: number;
+  /**
+   * Reload the most recent snapshot taken with `saveSnapshot()` when the
+   * session is restarted (default: true)
+   */
+  restoreSnapshotOnRestart?: boolean;
+  /**
+   * Respawn MATLAB when the process dies unexpectedly. Only the command that
+   * was running is rejected; queued commands run on the new process.
+   * `true` uses the default {@link AutoRestartOptions} (default: false)
+   */
+  autoRestart?: boolean | AutoRestartOptions;
+  /**
+   * Time to wait for MATLAB to return to the prompt after a timed-out or
+   * aborted command is interrupted. MATLAB is checked twice, so the process
+   * is restarted after at most twice this time (default: 5000)
+   */
+  interruptTimeout?: number;
+}
+
+/**
+ * Options for a single session command, mirroring the per-run fields of
+ * {@link MatlabOptions}
+ */
+export interface SessionCommandOptions {
+  /** Timeout in milliseconds, overriding the session timeout (0 = no timeout) */
+  timeout?: number;
+  /** AbortSignal for cancellation */
+  signal?: AbortSignal;
+  /** Callback for each complete line this command prints to stdout */
+  onProgress?: (line: string) => void;
+  /** Callback for each record this command reports with `nm_progress` */
+  onStructuredProgress?: (progress: MatlabProgress) => void;
+}
+
+/**
+ * Options for reading a variable from a session
+ */
+export interface SessionVariableOptions extends SessionCommandOptions, VariableTransferOptions {}
+
+/**
+ * Node.js function MATLAB code can call with `nm_call` during a session command
+ */
+export type SessionCallback = (...args: unknown[]) => unknown | Promise<unknown>;
+
+/**
+ * Backoff limits for automatic session restarts
+ */
+export interface AutoRestartOptions {
+  /** Maximum consecutive restarts before giving up (default: 3) */
+  maxRestarts?: number;
+  /** Delay before the first restart in milliseconds (default: 1000) */
+  initialDelay?: number;
+  /** Upper bound for the delay between restarts in milliseconds (default: 30000) */
+  maxDelay?: number;
+  /** Factor the delay grows by after each consecutive restart (default: 2) */
+  backoffFactor?: number;
+  /**
+   * Forget earlier restarts once the session has stayed up this long in
+   * milliseconds (default: 60000)
+   */
+  resetAfter?: number;
+}
+
+/**
+ * Payload of the session `restart` event
+ */
+export interface SessionRestartEvent {
+  /** Why the previous process ended */
+  reason: string;
+  /** Exit code of the previous process (null if it was killed by a signal) */
+  exitCode: number | null;
+  /** Signal that killed the previous process */
+  signal: NodeJS.Signals | null;
+  /** Consecutive restart attempt, starting at 1 */
+  attempt: number;
+  /** Delay waited before respawning in milliseconds */
+  delay: number;
 }
 
 /**
@@ -113,6 +478,34 @@ export interface SessionOptions {
  */
 export type SessionState = 'starting' | 'ready' | 'busy' | 'closed' | 'error';
 
+/**
+ * Options for creating a pool of MATLAB sessions
+ */
+export interface SessionPoolOptions extends SessionOptions {
+  /** Number of sessions to keep warm (default: 2) */
+  size?: number;
+  /** Recycle a session after it has run this many commands (default: unlimited) */
+  maxCommandsPerSession?: number;
+  /** Maximum time in milliseconds to wait for a free session (default: no limit) */
+  acquireTimeout?: number;
+}
+
+/**
+ * Snapshot of session pool usage
+ */
+export interface SessionPoolStats {
+  /** Configured pool size */
+  size: number;
+  /** Sessions ready to be leased */
+  idle: number;
+  /** Sessions currently leased to callers */
+  busy: number;
+  /** Sessions being started or restarted */
+  starting: number;
+  /** Callers waiting for a free session */
+  queued: number;
+}
+
 // ============================================================================
 // Error Types
 // ============================================================================
@@ -131,8 +524,35 @@ export type MatlabErrorType =
   | 'out_of_memory'
   | 'index_error'
   | 'dimension_mismatch'
+  | 'session_crashed'
   | 'unknown';
 
+/**
+ * Frame of a MATLAB call stack
+ */
+export interface MatlabStackFrame {
+  /** File containing the function (empty for command-line code) */
+  file: string;
+  /** Function name */
+  name: string;
+  /** Line number */
+  line: number;
+}
+
+/**
+ * MException captured as structured data
+ */
+export interface MatlabExceptionData {
+  /** Identifier such as `'MATLAB:badsubscript'` (empty if none was set) */
+  identifier: string;
+  /** Error message */
+  message: string;
+  /** Call stack, innermost frame first */
+  stack: MatlabStackFrame[];
+  /** Exceptions added with `addCause` */
+  cause: MatlabExceptionData[];
+}
+
 /**
  * MATLAB error details
  */
@@ -153,6 +573,8 @@ export interface MatlabErrorDetails {
   command?: string;
   /** Exit code from MATLAB process */
   exitCode?: number;
+  /** Structured MException the error was created from */
+  exception?: MatlabExceptionData;
 }
 
 /**
@@ -190,6 +612,31 @@ export type MatlabDataType =
   | 'function_handle'
   | 'unknown';
 
+/**
+ * MATLAB classes with dense numeric storage
+ */
+export type MatlabNumericClass =
+  | 'double'
+  | 'single'
+  | 'int8'
+  | 'int16'
+  | 'int32'
+  | 'int64'
+  | 'uint8'
+  | 'uint16'
+  | 'uint32'
+  | 'uint64'
+  | 'logical';
+
+/**
+ * Single element of a numeric array as a plain JavaScript value
+ */
+export type MatlabArrayElement =
+  | number
+  | bigint
+  | boolean
+  | { real: number | bigint; imag: number | bigint };
+
 /**
  * Metadata about a MATLAB variable
  */
@@ -206,6 +653,20 @@ export interface VariableInfo {
   complex?: boolean;
   /** Whether variable is sparse */
   sparse?: boolean;
+  /** Whether variable is declared global */
+  global?: boolean;
+  /** Whether variable is persistent */
+  persistent?: boolean;
+}
+
+/**
+ * Variable value together with its MATLAB metadata
+ */
+export interface TypedVariable<T = unknown> {
+  /** Decoded value */
+  value: T;
+  /** Class, size, sparsity and complexity as reported by MATLAB */
+  info: VariableInfo;
 }
 
 // ============================================================================
@@ -236,6 +697,134 @@ export interface MATFileOptions {
   compress?: boolean;
 }
 
+// ============================================================================
+// MAT-File Types
+// ============================================================================
+
+/**
+ * Typed array used to hold MATLAB numeric data
+ */
+export type MatTypedArray =
+  | Float64Array
+  | Float32Array
+  | Int8Array
+  | Uint8Array
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array
+  | BigInt64Array
+  | BigUint64Array;
+
+/**
+ * Dense numeric or logical array read from a MAT-file
+ *
+ * Data is stored in column-major order, as in MATLAB.
+ */
+export interface MatNumericArray {
+  /** MATLAB class (double, int16, logical, ...) */
+  type: MatlabDataType;
+  /** Array dimensions */
+  dims: number[];
+  /** Real part */
+  real: MatTypedArray;
+  /** Imaginary part for complex arrays */
+  imag?: MatTypedArray;
+}
+
+/**
+ * Sparse matrix read from a MAT-file, in compressed sparse column form
+ */
+export interface MatSparseMatrix {
+  /** MATLAB class (double or logical) */
+  type: MatlabDataType;
+  /** Always true for sparse matrices */
+  sparse: true;
+  /** Matrix dimensions */
+  dims: number[];
+  /** Zero-based row index of each non-zero value */
+  rowIndices: Int32Array;
+  /** Offsets into `rowIndices` where each column starts (length = columns + 1) */
+  columnPointers: Int32Array;
+  /** Non-zero values (real part) */
+  real: Float64Array;
+  /** Non-zero values (imaginary part) for complex matrices */
+  imag?: Float64Array;
+}
+
+/**
+ * Character array read from a MAT-file
+ */
+export interface MatCharArray {
+  type: 'char';
+  /** Array dimensions */
+  dims: number[];
+  /** Text content; rows of a character matrix are joined with newlines */
+  value: string;
+}
+
+/**
+ * Cell array read from a MAT-file
+ */
+export interface MatCellArray {
+  type: 'cell';
+  /** Array dimensions */
+  dims: number[];
+  /** Cell contents in column-major order */
+  cells: MatValue[];
+}
+
+/**
+ * Struct array (or old-style object) read from a MAT-file
+ */
+export interface MatStructArray {
+  type: 'struct';
+  /** Array dimensions */
+  dims: number[];
+  /** Field names in declaration order */
+  fieldNames: string[];
+  /** Struct elements in column-major order */
+  elements: Record<string, MatValue>[];
+  /** Class name for MATLAB objects stored as structs */
+  className?: string;
+}
+
+/**
+ * Value of a class the MAT-file reader cannot decode (string, table, function handle, ...)
+ */
+export interface MatUnsupportedValue {
+  type: MatlabDataType;
+  /** Array dimensions, if known */
+  dims: number[];
+  /** MATLAB class name, if known */
+  className?: string;
+}
+
+/**
+ * Any value read from a MAT-file
+ */
+export type MatValue =
+  | MatNumericArray
+  | MatSparseMatrix
+  | MatCharArray
+  | MatCellArray
+  | MatStructArray
+  | MatUnsupportedValue;
+
+/**
+ * Contents of a MAT-file
+ */
+export interface MatFileContents {
+  /** Descriptive text from the file header */
+  header: string;
+  /** Variables by name */
+  variables: Record<string, MatValue>;
+  /** Metadata for each variable, in file order */
+  info: VariableInfo[];
+  /** Names of variables saved as global */
+  globals: string[];
+}
+
 // ============================================================================
 // Live Script Types
 // ============================================================================
@@ -275,6 +864,8 @@ export interface FunctionCallOptions {
   timeout?: number;
   /** Working directory */
   cwd?: string;
+  /** Decode outputs with their MATLAB class and shape (see `Matlab.getTypedVariables`) */
+  preserveTypes?: boolean;
 }
 
 /**
@@ -287,6 +878,8 @@ export interface FunctionCallResult<T = unknown[]> {
   duration: number;
   /** Any warnings generated */
   warnings?: string[];
+  /** Metadata for each output, when called with `preserveTypes` */
+  outputInfo?: VariableInfo[];
 }
 
 // ============================================================================
@@ -3,7 +3,9 @@
  * @packageDocumentation
  */
 
-import type { MatlabDataType, VariableInfo } from '../types.js';
+import { MatlabArray } from '../array.js';
+import { Complex } from '../complex.js';
+import type { MatTypedArray, MatlabDataType, VariableInfo } from '../types.js';
 
 /**
  * Convert JavaScript value to MATLAB code string
@@ -29,6 +31,11 @@ export function convertToMatlab(value: unknown): string {
     return formatNumber(value);
   }
 
+  if (typeof value === 'bigint') {
+    // 64-bit integer so values beyond 2^53 are not rounded
+    return formatMatlabArray(MatlabArray.from(value));
+  }
+
   if (typeof value === 'string') {
     return formatString(value);
   }
@@ -37,6 +44,19 @@ export function convertToMatlab(value: unknown): string {
     return formatArray(value);
   }
 
+  if (value instanceof MatlabArray) {
+    return formatMatlabArray(value);
+  }
+
+  if (value instanceof Complex) {
+    return `complex(${formatNumber(value.real)}, ${formatNumber(value.imag)})`;
+  }
+
+  if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+    // Typed arrays keep their class (Int16Array -> int16, Buffer -> uint8, ...)
+    return formatMatlabArray(MatlabArray.from(value));
+  }
+
   if (value instanceof Date) {
     return formatDate(value);
   }
@@ -73,12 +93,25 @@ function formatString(str: string): string {
   return `'${escaped}'`;
 }
 
+/**
+ * Check if a rectangular nested array holds Complex values
+ */
+export function isComplexArray(arr: unknown[]): boolean {
+  return arr.flat(Number.POSITIVE_INFINITY)[0] instanceof Complex;
+}
+
 /**
  * Format an array for MATLAB
  */
 function formatArray(arr: unknown[]): string {
   if (arr.length === 0) return '[]';
 
+  // Nested deeper than a matrix, or complex: build a MatlabArray
+  const dims = MatlabArray.shapeOf(arr);
+  if (dims && (dims.length > 2 || isComplexArray(arr))) {
+    return formatMatlabArray(MatlabArray.from(arr));
+  }
+
   // Check if it's a 2D array (matrix)
   if (arr.every((item) => Array.isArray(item))) {
     const rows = arr.map((row) => {
@@ -101,6 +134,100 @@ function formatArray(arr: unknown[]): string {
   return `[${items.join(', ')}]`;
 }
 
+/** Largest integer a MATLAB double literal represents exactly */
+const MAX_EXACT_INTEGER = BigInt(Number.MAX_SAFE_INTEGER);
+
+/**
+ * Format the values of a typed array as a MATLAB array literal with the given dims
+ *
+ * Scalars are written bare, matrices row by row, and arrays with more
+ * dimensions as a column-major row vector wrapped in `reshape`.
+ */
+function formatTypedArray(values: MatTypedArray, dims: number[]): string {
+  const format = (v: number | bigint) => (typeof v === 'bigint' ? String(v) : formatNumber(v));
+
+  if (values.length === 1 && dims.length === 2) {
+    return format(values[0] as number | bigint);
+  }
+
+  if (dims.length === 2) {
+    const [rows = 0, cols = 0] = dims;
+    const lines: string[] = [];
+    for (let r = 0; r < rows; r++) {
+      const row: string[] = [];
+      for (let c = 0; c < cols; c++) {
+        row.push(format(values[r + c * rows] as number | bigint));
+      }
+      lines.push(row.join(', '));
+    }
+    return `[${lines.join('; ')}]`;
+  }
+
+  const flat = Array.from(values as ArrayLike<number | bigint>, format);
+  return `reshape([${flat.join(', ')}], [${dims.join(', ')}])`;
+}
+
+/**
+ * Format 64-bit integers that a double literal cannot hold exactly
+ *
+ * The values are written as pairs of uint32 words and reassembled in MATLAB
+ * with `typecast`, which is exact for the full int64/uint64 range.
+ *
+ * @returns MATLAB expression, or null if every value fits in a double
+ */
+function formatExactIntegers(
+  values: MatTypedArray,
+  dims: number[],
+  type: 'int64' | 'uint64'
+): string | null {
+  if (!(values instanceof BigInt64Array || values instanceof BigUint64Array)) return null;
+
+  const bigints = Array.from(values as ArrayLike<bigint>);
+  if (bigints.every((v) => v <= MAX_EXACT_INTEGER && v >= -MAX_EXACT_INTEGER)) {
+    return null;
+  }
+
+  // Little-endian word order, as on every platform MATLAB runs on
+  const words = bigints.flatMap((v) => {
+    const bits = BigInt.asUintN(64, v);
+    return [String(bits & 0xffffffffn), String(bits >> 32n)];
+  });
+  const expression = `typecast(uint32([${words.join(', ')}]), '${type}')`;
+
+  return values.length === 1 && dims.length === 2
+    ? expression
+    : `reshape(${expression}, [${dims.join(', ')}])`;
+}
+
+/**
+ * Format a MatlabArray, preserving its class, shape and complexity
+ */
+function formatMatlabArray(arr: MatlabArray): string {
+  if (arr.isEmpty) {
+    const dims = arr.dims.join(', ');
+    return arr.type === 'logical' ? `false(${dims})` : `zeros(${dims}, '${arr.type}')`;
+  }
+
+  if (arr.type === 'int64' || arr.type === 'uint64') {
+    const real = formatExactIntegers(arr.real, arr.dims, arr.type);
+    const imag = arr.imag ? formatExactIntegers(arr.imag, arr.dims, arr.type) : null;
+
+    if (real !== null || imag !== null) {
+      const cast = (values: MatTypedArray, exact: string | null) =>
+        exact ?? `${arr.type}(${formatTypedArray(values, arr.dims)})`;
+      const realPart = cast(arr.real, real);
+      return arr.imag ? `complex(${realPart}, ${cast(arr.imag, imag)})` : realPart;
+    }
+  }
+
+  let literal = formatTypedArray(arr.real, arr.dims);
+  if (arr.imag) {
+    literal = `complex(${literal}, ${formatTypedArray(arr.imag, arr.dims)})`;
+  }
+
+  return arr.type === 'double' ? literal : `${arr.type}(${literal})`;
+}
+
 /**
  * Format a Date for MATLAB datetime
  */
@@ -137,7 +264,7 @@ function formatStruct(obj: Record<string, unknown>): string {
 /**
  * Sanitize a string to be a valid MATLAB field name
  */
-function sanitizeFieldName(name: string): string {
+export function sanitizeFieldName(name: string): string {
   // Replace invalid characters with underscores
   let sanitized = name.replace(/[^a-zA-Z0-9_]/g, '_');
 
@@ -176,6 +303,14 @@ export function inferMatlabType(value: unknown): MatlabDataType {
     return 'logical';
   }
 
+  if (typeof value === 'bigint') {
+    return MatlabArray.from(value).type;
+  }
+
+  if (value instanceof Complex) {
+    return 'double';
+  }
+
   if (typeof value === 'number') {
     if (Number.isInteger(value)) {
       return 'double'; // MATLAB defaults to double even for integers
@@ -187,6 +322,14 @@ export function inferMatlabType(value: unknown): MatlabDataType {
     return 'char';
   }
 
+  if (value instanceof MatlabArray) {
+    return value.type;
+  }
+
+  if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+    return MatlabArray.from(value).type;
+  }
+
   if (Array.isArray(value)) {
     if (value.length === 0) return 'double';
 
@@ -222,11 +365,24 @@ export function createVariableInfo(name: string, value: unknown): VariableInfo {
   const type = inferMatlabType(value);
   let size: number[];
 
+  if (
+    value instanceof MatlabArray ||
+    value instanceof Complex ||
+    (ArrayBuffer.isView(value) && !(value instanceof DataView))
+  ) {
+    const array = MatlabArray.from(value);
+    return { name, size: [...array.dims], type, complex: array.complex };
+  }
+
   if (value === null || value === undefined) {
     size = [0, 0];
   } else if (Array.isArray(value)) {
+    const dims = MatlabArray.shapeOf(value);
     if (value.length === 0) {
       size = [0, 0];
+    } else if (dims && dims.length > 2) {
+      // N-D array
+      size = dims;
     } else if (Array.isArray(value[0])) {
       // 2D array
       size = [value.length, (value[0] as unknown[]).length];
@@ -249,9 +405,9 @@ export function createVariableInfo(name: string, value: unknown): VariableInfo {
 }
 
 /**
- * Convert complex number string to JavaScript object
+ * Parse a complex number string such as `3+4i` or `-1.5 - 2j`
  */
-export function parseComplexNumber(str: string): { real: number; imag: number } | null {
+export function parseComplexNumber(str: string): Complex | null {
   // Match patterns like "3+4i", "3-4i", "3+4j", "-3.5+2.1i"
   const match = str.match(
     /^([-+]?\d*\.?\d+(?:[eE][-+]?\d+)?)\s*([-+])\s*(\d*\.?\d+(?:[eE][-+]?\d+)?)[ij]$/
@@ -261,13 +417,13 @@ export function parseComplexNumber(str: string): { real: number; imag: number }
     const real = Number.parseFloat(match[1]);
     const sign = match[2] === '-' ? -1 : 1;
     const imag = sign * Number.parseFloat(match[3]);
-    return { real, imag };
+    return new Complex(real, imag);
   }
 
   // Pure imaginary: "4i" or "4j"
   const pureImagMatch = str.match(/^([-+]?\d*\.?\d+(?:[eE][-+]?\d+)?)[ij]$/);
   if (pureImagMatch?.[1]) {
-    return { real: 0, imag: Number.parseFloat(pureImagMatch[1]) };
+    return new Complex(0, Number.parseFloat(pureImagMatch[1]));
   }
 
   return null;
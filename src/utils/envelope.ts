@@ -0,0 +1,297 @@
+/**
+ * Type-preserving variable extraction
+ * @packageDocumentation
+ */
+
+import { MatlabArray } from '../array.js';
+import { Complex } from '../complex.js';
+import { JSON_END_MARKER, JSON_START_MARKER } from '../types.js';
+import type {
+  MatSparseMatrix,
+  MatlabDataType,
+  MatlabNumericClass,
+  TypedVariable,
+  VariableInfo,
+} from '../types.js';
+
+/**
+ * Envelope written by {@link generateTypedExtractionCode} for each variable
+ */
+interface VariableEnvelope {
+  class: string;
+  size: number[];
+  issparse: boolean;
+  iscomplex: boolean;
+  bytes?: number;
+  value?: unknown;
+  imag?: unknown;
+  rows?: unknown;
+  cols?: unknown;
+}
+
+/**
+ * MATLAB classes reported as-is in VariableInfo.type
+ */
+const KNOWN_TYPES: ReadonlySet<string> = new Set<MatlabDataType>([
+  'double',
+  'single',
+  'int8',
+  'int16',
+  'int32',
+  'int64',
+  'uint8',
+  'uint16',
+  'uint32',
+  'uint64',
+  'logical',
+  'char',
+  'string',
+  'cell',
+  'struct',
+  'table',
+  'datetime',
+  'duration',
+  'categorical',
+  'function_handle',
+]);
+
+/**
+ * Map a MATLAB class name to a VariableInfo type
+ *
+ * @param className - Result of `class(x)` in MATLAB
+ * @returns The class name, or `'unknown'` for classes outside {@link MatlabDataType}
+ */
+export function toMatlabDataType(className: string): MatlabDataType {
+  return KNOWN_TYPES.has(className) ? (className as MatlabDataType) : 'unknown';
+}
+
+/**
+ * Classes decoded into numbers or MatlabArray instances
+ */
+const NUMERIC_TYPES: ReadonlySet<string> = new Set<MatlabNumericClass>([
+  'double',
+  'single',
+  'int8',
+  'int16',
+  'int32',
+  'int64',
+  'uint8',
+  'uint16',
+  'uint32',
+  'uint64',
+  'logical',
+]);
+
+/**
+ * Generate MATLAB code that emits each variable wrapped in an envelope with
+ * its class, size, sparsity and complexity
+ *
+ * Numeric data is flattened in column-major order with real and imaginary
+ * parts separated, int64/uint64 values are sent as decimal strings so they
+ * stay exact, sparse matrices are sent as (row, column, value) triplets and
+ * char arrays row by row. Use {@link decodeTypedVariables} on the extracted
+ * JSON to rebuild the values.
+ *
+ * @param variables - Variable names to extract
+ */
+export function generateTypedExtractionCode(variables: string[]): string {
+  if (variables.length === 0) {
+    return '';
+  }
+
+  const lines: string[] = ['__nm_env__ = struct();'];
+
+  for (const name of variables) {
+    lines.push(
+      '__nm_e__ = struct();',
+      `__nm_e__.class = class(${name});`,
+      `__nm_e__.size = size(${name});`,
+      `__nm_e__.issparse = issparse(${name});`,
+      `__nm_e__.iscomplex = isnumeric(${name}) && ~isreal(${name});`,
+      `__nm_w__ = whos('${name}');`,
+      '__nm_e__.bytes = __nm_w__.bytes;',
+      `if issparse(${name})`,
+      `    [__nm_i__, __nm_j__, __nm_v__] = find(${name});`,
+      '    __nm_e__.rows = reshape(__nm_i__, 1, []);',
+      '    __nm_e__.cols = reshape(__nm_j__, 1, []);',
+      '    __nm_v__ = reshape(__nm_v__, 1, []);',
+      `elseif isnumeric(${name}) || islogical(${name})`,
+      `    __nm_v__ = reshape(${name}, 1, []);`,
+      `elseif ischar(${name})`,
+      `    __nm_v__ = reshape(permute(${name}, [2 1 3:ndims(${name})]), 1, []);`,
+      `elseif isa(${name}, 'function_handle')`,
+      `    __nm_v__ = func2str(${name});`,
+      'else',
+      `    __nm_v__ = ${name};`,
+      'end',
+      "if isa(__nm_v__, 'int64') || isa(__nm_v__, 'uint64')",
+      "    __nm_e__.value = arrayfun(@(v) sprintf('%d', v), real(__nm_v__), 'UniformOutput', false);",
+      '    if ~isreal(__nm_v__)',
+      "        __nm_e__.imag = arrayfun(@(v) sprintf('%d', v), imag(__nm_v__), 'UniformOutput', false);",
+      '    end',
+      'elseif isnumeric(__nm_v__) && ~isreal(__nm_v__)',
+      '    __nm_e__.value = real(__nm_v__);',
+      '    __nm_e__.imag = imag(__nm_v__);',
+      'else',
+      '    __nm_e__.value = __nm_v__;',
+      'end',
+      `__nm_env__.${name} = __nm_e__;`
+    );
+  }
+
+  lines.push(
+    `fprintf('${JSON_START_MARKER}%s${JSON_END_MARKER}', jsonencode(__nm_env__));`,
+    'clear __nm_env__ __nm_e__ __nm_w__ __nm_i__ __nm_j__ __nm_v__;'
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Normalize flattened data: jsonencode writes one-element arrays as scalars
+ * and NaN/Inf as null
+ */
+function toList(data: unknown): unknown[] {
+  const values = Array.isArray(data) ? data : data === undefined ? [] : [data];
+  return values.map((v) => (v === null ? Number.NaN : v));
+}
+
+/**
+ * Convert a decoded element to the value stored in a typed array
+ */
+function toElement(type: string, value: unknown): number | bigint | boolean {
+  if (type === 'int64' || type === 'uint64') {
+    return BigInt(String(value));
+  }
+  return typeof value === 'boolean' ? value : Number(value);
+}
+
+/**
+ * Rebuild a dense numeric or logical array
+ */
+function decodeNumeric(envelope: VariableEnvelope): unknown {
+  const type = envelope.class as MatlabNumericClass;
+  const real = toList(envelope.value).map((v) => toElement(type, v));
+  const imag = envelope.iscomplex ? toList(envelope.imag).map((v) => toElement(type, v)) : null;
+  const scalar = envelope.size.length === 2 && envelope.size.every((d) => d === 1);
+
+  if (scalar && real.length === 1) {
+    const re = real[0] as number | bigint | boolean;
+    if (type === 'logical') return Boolean(re);
+    if (imag && typeof re === 'number') return new Complex(re, Number(imag[0]));
+    if (!imag) return re;
+  }
+
+  const imagPart = imag ? new MatlabArray(type, envelope.size).real : undefined;
+  const array = new MatlabArray(type, envelope.size, undefined, imagPart);
+  real.forEach((v, i) => {
+    array.set(i, v, imag?.[i] as number | bigint | undefined);
+  });
+  return array;
+}
+
+/**
+ * Rebuild a sparse matrix in compressed sparse column form from triplets
+ */
+function decodeSparse(envelope: VariableEnvelope): MatSparseMatrix {
+  const rows = toList(envelope.rows).map(Number);
+  const cols = toList(envelope.cols).map(Number);
+  const values = toList(envelope.value).map(Number);
+  const columns = envelope.size[1] ?? 0;
+
+  // find() returns non-zeros sorted by column, then row
+  const columnPointers = new Int32Array(columns + 1);
+  for (const col of cols) {
+    columnPointers[col] = (columnPointers[col] ?? 0) + 1;
+  }
+  for (let c = 1; c <= columns; c++) {
+    columnPointers[c] = (columnPointers[c] ?? 0) + (columnPointers[c - 1] ?? 0);
+  }
+
+  const sparse: MatSparseMatrix = {
+    type: envelope.class === 'logical' ? 'logical' : 'double',
+    sparse: true,
+    dims: envelope.size,
+    rowIndices: Int32Array.from(rows, (r) => r - 1),
+    columnPointers,
+    real: Float64Array.from(values),
+  };
+  if (envelope.iscomplex) {
+    sparse.imag = Float64Array.from(toList(envelope.imag).map(Number));
+  }
+  return sparse;
+}
+
+/**
+ * Rebuild a char array: rows of a character matrix become separate strings,
+ * and an N-D char array gives the rows of each page in turn
+ */
+function decodeChar(envelope: VariableEnvelope): string | string[] {
+  const text = typeof envelope.value === 'string' ? envelope.value : '';
+  const [rows = 0, cols = 0] = envelope.size;
+
+  if (rows <= 1 && envelope.size.length <= 2) {
+    return text;
+  }
+
+  const count = cols > 0 ? text.length / cols : 0;
+  return Array.from({ length: count }, (_, r) => text.slice(r * cols, (r + 1) * cols));
+}
+
+/**
+ * Decode a single variable envelope
+ *
+ * Numeric and logical scalars become numbers, booleans, bigints (int64/uint64)
+ * or {@link Complex} values; other numeric arrays become {@link MatlabArray}
+ * instances with their class and shape; sparse matrices use the
+ * {@link MatSparseMatrix} form; char rows become strings. Cells, structs and
+ * other classes are returned as decoded by `jsonencode`.
+ *
+ * @param name - Variable name
+ * @param envelope - Envelope object from the extracted JSON
+ */
+export function decodeTypedVariable(name: string, envelope: unknown): TypedVariable {
+  const env = envelope as VariableEnvelope;
+  const size = toList(env.size).map(Number);
+  const normalized: VariableEnvelope = { ...env, size };
+
+  const info: VariableInfo = {
+    name,
+    size,
+    type: toMatlabDataType(env.class),
+    complex: Boolean(env.iscomplex),
+    sparse: Boolean(env.issparse),
+  };
+  if (typeof env.bytes === 'number') {
+    info.bytes = env.bytes;
+  }
+
+  let value: unknown;
+  if (env.issparse) {
+    value = decodeSparse(normalized);
+  } else if (NUMERIC_TYPES.has(env.class)) {
+    value = decodeNumeric(normalized);
+  } else if (env.class === 'char') {
+    value = decodeChar(normalized);
+  } else {
+    value = env.value ?? null;
+  }
+
+  return { value, info };
+}
+
+/**
+ * Decode the JSON object emitted by {@link generateTypedExtractionCode}
+ *
+ * @param envelopes - Parsed JSON mapping variable names to envelopes
+ * @returns Object mapping variable names to values with their metadata
+ */
+export function decodeTypedVariables(
+  envelopes: Record<string, unknown>
+): Record<string, TypedVariable> {
+  const result: Record<string, TypedVariable> = {};
+  for (const [name, envelope] of Object.entries(envelopes)) {
+    result[name] = decodeTypedVariable(name, envelope);
+  }
+  return result;
+}
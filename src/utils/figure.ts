@@ -3,7 +3,34 @@
  * @packageDocumentation
  */
 
-import type { FigureOptions, ImageFormat } from '../types.js';
+import { readFile } from 'node:fs/promises';
+import type {
+  AnimationFormat,
+  AnimationOptions,
+  FigureAxisData,
+  FigureBackground,
+  FigureData,
+  FigureOptions,
+  FigureSeries,
+  FigureSeriesValues,
+  FigureSizePreset,
+  FigureUnits,
+  ImageFormat,
+  MatlabVersion,
+  RenderedFigure,
+  SavedFigure,
+} from '../types.js';
+import { JSON_END_MARKER, JSON_START_MARKER } from '../types.js';
+import { extractJSON } from './parser.js';
+import { toEvalStatement } from './protocol.js';
+import { parseNumericVersion } from './version.js';
+
+/**
+ * Markers around the record printed for each figure saved by
+ * {@link generateSaveAllFiguresCode}
+ */
+export const FIGURE_RECORD_START_MARKER = '__NODE_MATLAB_FIGURE_START__';
+export const FIGURE_RECORD_END_MARKER = '__NODE_MATLAB_FIGURE_END__';
 
 /**
  * Default figure options
@@ -15,8 +42,22 @@ export const DEFAULT_FIGURE_OPTIONS: Required<FigureOptions> = {
   height: 600,
   backgroundColor: 'white',
   contentType: 'auto',
+  filenameTemplate: '{prefix}_{number}.{ext}',
+  size: 'medium',
+  units: 'pixels',
 };
 
+/** First version with `exportgraphics` (R2020a = 9.8) */
+const EXPORTGRAPHICS_VERSION = 9.08;
+
+/** Screen resolution MATLAB assumes when converting pixels to physical units */
+const PIXELS_PER_INCH = 96;
+
+/**
+ * Background exported for transparent raster images, then made transparent
+ */
+const TRANSPARENT_KEY_COLOR = '[1 0 1]';
+
 /**
  * Get file extension for image format
  */
@@ -27,6 +68,8 @@ export function getExtension(format: ImageFormat): string {
     pdf: '.pdf',
     eps: '.eps',
     jpg: '.jpg',
+    tiff: '.tif',
+    gif: '.gif',
     fig: '.fig',
   };
   return extensions[format];
@@ -34,6 +77,8 @@ export function getExtension(format: ImageFormat): string {
 
 /**
  * Get MATLAB print device flag for format
+ *
+ * `print` has no GIF device; GIF figures are printed as PNG and converted.
  */
 export function getPrintDevice(format: ImageFormat): string {
   const devices: Record<ImageFormat, string> = {
@@ -42,6 +87,8 @@ export function getPrintDevice(format: ImageFormat): string {
     pdf: '-dpdf',
     eps: '-depsc',
     jpg: '-djpeg',
+    tiff: '-dtiff',
+    gif: '', // Printed as PNG, then converted with imwrite
     fig: '', // Use saveas for .fig files
   };
   return devices[format];
@@ -54,15 +101,194 @@ export function isVectorFormat(format: ImageFormat): boolean {
   return ['svg', 'pdf', 'eps'].includes(format);
 }
 
+/**
+ * Figure size in the requested units
+ *
+ * Explicit `width` and `height` win over the `size` preset. Presets are
+ * defined in pixels and converted for physical units.
+ */
+export function resolveFigureSize(options?: Partial<FigureOptions>): {
+  width: number;
+  height: number;
+  units: FigureUnits;
+} {
+  const units = options?.units ?? DEFAULT_FIGURE_OPTIONS.units;
+  const preset = getFigureSizePreset(options?.size ?? DEFAULT_FIGURE_OPTIONS.size);
+  const scale = {
+    pixels: 1,
+    inches: 1 / PIXELS_PER_INCH,
+    centimeters: 2.54 / PIXELS_PER_INCH,
+    points: 72 / PIXELS_PER_INCH,
+  }[units];
+
+  return {
+    width: options?.width ?? Math.round(preset.width * scale * 100) / 100,
+    height: options?.height ?? Math.round(preset.height * scale * 100) / 100,
+    units,
+  };
+}
+
+/**
+ * Check whether a MATLAB version has `exportgraphics`
+ *
+ * @returns True from R2020a, false before, undefined if the version is unknown
+ */
+export function supportsExportGraphics(version?: MatlabVersion | null): boolean | undefined {
+  const numeric = version ? parseNumericVersion(version.version) : 0;
+  return numeric > 0 ? numeric >= EXPORTGRAPHICS_VERSION : undefined;
+}
+
+/**
+ * MATLAB color for a background option, or null for transparent
+ */
+function toMatlabColor(background: FigureBackground): string | null {
+  if (background === 'transparent' || background === 'none') {
+    return null;
+  }
+  if (Array.isArray(background)) {
+    return `[${background.join(' ')}]`;
+  }
+  const hex = background.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (hex) {
+    const channels = hex.slice(1).map((channel) => Number.parseInt(channel, 16) / 255);
+    return `[${channels.map((channel) => Number(channel.toFixed(4))).join(' ')}]`;
+  }
+  return `'${background.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Generate MATLAB code that sizes, colors and exports one figure
+ *
+ * @param handle - MATLAB expression for the figure
+ * @param path - MATLAB expression for the output file
+ * @param options - Figure export options
+ * @param version - MATLAB version; when unknown, `exportgraphics` is detected at run time
+ */
+function generateExportCode(
+  handle: string,
+  path: string,
+  options: Partial<FigureOptions> | undefined,
+  version?: MatlabVersion | null
+): string[] {
+  const opts = { ...DEFAULT_FIGURE_OPTIONS, ...options };
+  const { format } = opts;
+  const { width, height, units } = resolveFigureSize(options);
+  const color = toMatlabColor(opts.backgroundColor);
+  // Only PNG has an alpha channel; other raster formats get a white background
+  const keyed = color === null && format === 'png';
+  const rasterColor = keyed ? TRANSPARENT_KEY_COLOR : (color ?? "'white'");
+
+  // Figures keep their own size unless one is requested
+  const lines: string[] = [];
+  if (
+    options?.width !== undefined ||
+    options?.height !== undefined ||
+    options?.size !== undefined
+  ) {
+    lines.push(
+      `set(${handle}, 'Units', '${units}');`,
+      `set(${handle}, 'Position', [get(${handle}, 'Position') .* [1 1 0 0] + [0 0 ${width} ${height}]]);`
+    );
+  }
+
+  if (color === null) {
+    lines.push(
+      `set(${handle}, 'Color', 'none');`,
+      `set(findall(${handle}, 'Type', 'axes'), 'Color', 'none');`
+    );
+  } else {
+    lines.push(`set(${handle}, 'Color', ${color});`);
+  }
+
+  if (format === 'fig') {
+    lines.push(`saveas(${handle}, ${path});`);
+    return lines;
+  }
+
+  // GIF is exported as PNG to a temporary file, then converted
+  const target = format === 'gif' ? '__nm_png__' : path;
+  const device = getPrintDevice(format === 'gif' ? 'png' : format);
+  if (format === 'gif') {
+    lines.push(`__nm_png__ = [tempname '.png'];`);
+  }
+
+  const vector = isVectorFormat(format);
+  const contentType =
+    opts.contentType === 'auto' ? (vector ? 'vector' : 'image') : opts.contentType;
+  const exportBackground = vector ? (color ?? "'none'") : rasterColor;
+
+  const modern = vector
+    ? [
+        `exportgraphics(${handle}, ${target}, 'ContentType', '${contentType}', 'BackgroundColor', ${exportBackground});`,
+      ]
+    : [
+        `exportgraphics(${handle}, ${target}, 'Resolution', ${opts.resolution}, 'BackgroundColor', ${exportBackground});`,
+      ];
+
+  // print uses the figure color as is, at its on-screen size
+  const legacy = [`set(${handle}, 'PaperPositionMode', 'auto', 'InvertHardcopy', 'off');`];
+  if (vector) {
+    const renderer = contentType === 'vector' ? '-painters' : '-opengl';
+    legacy.push(`print(${handle}, ${target}, '${device}', '${renderer}');`);
+  } else {
+    if (color === null) {
+      legacy.push(`set(${handle}, 'Color', ${rasterColor});`);
+    }
+    legacy.push(`print(${handle}, ${target}, '${device}', '-r${opts.resolution}');`);
+  }
+
+  switch (supportsExportGraphics(version)) {
+    case true:
+      lines.push(...modern);
+      break;
+    case false:
+      lines.push(...legacy);
+      break;
+    default:
+      lines.push(
+        `if exist('exportgraphics', 'file')`,
+        ...modern.map((line) => `    ${line}`),
+        'else',
+        ...legacy.map((line) => `    ${line}`),
+        'end'
+      );
+  }
+
+  if (format === 'gif') {
+    lines.push(
+      `[__nm_ind__, __nm_map__] = rgb2ind(imread(__nm_png__), 256);`,
+      `imwrite(__nm_ind__, __nm_map__, ${path});`,
+      'delete(__nm_png__);',
+      'clear __nm_png__ __nm_ind__ __nm_map__;'
+    );
+  }
+
+  if (keyed) {
+    // Turn the key color into the alpha channel
+    lines.push(
+      `__nm_img__ = imread(${path});`,
+      `imwrite(__nm_img__, ${path}, 'Alpha', double(~(__nm_img__(:, :, 1) == 255 & __nm_img__(:, :, 2) == 0 & __nm_img__(:, :, 3) == 255)));`,
+      'clear __nm_img__;'
+    );
+  }
+
+  return lines;
+}
+
 /**
  * Generate MATLAB code to save current figure
+ *
+ * @param outputPath - Output file; the format's extension is added if missing
+ * @param options - Figure export options
+ * @param version - MATLAB version used to choose between `exportgraphics`
+ *   (R2020a+) and `print`/`saveas`; detected at run time when omitted
  */
 export function generateSaveFigureCode(
   outputPath: string,
-  options?: Partial<FigureOptions>
+  options?: Partial<FigureOptions>,
+  version?: MatlabVersion | null
 ): string {
-  const opts = { ...DEFAULT_FIGURE_OPTIONS, ...options };
-  const format = opts.format;
+  const format = options?.format ?? DEFAULT_FIGURE_OPTIONS.format;
 
   // Ensure output path has correct extension
   let finalPath = outputPath;
@@ -71,101 +297,399 @@ export function generateSaveFigureCode(
     finalPath += ext;
   }
 
-  const lines: string[] = [];
+  return generateExportCode('gcf', `'${escapePath(finalPath)}'`, options, version).join('\n');
+}
 
-  // Set figure size if specified
-  if (opts.width && opts.height) {
-    lines.push(`set(gcf, 'Position', [100, 100, ${opts.width}, ${opts.height}]);`);
-  }
+/**
+ * MATLAB expressions for the filename template placeholders
+ */
+const FILENAME_PLACEHOLDERS: Record<string, { format: string; value: string }> = {
+  number: { format: '%d', value: '__nm_fig__.Number' },
+  index: { format: '%d', value: '__nm_i__' },
+  name: { format: '%s', value: "regexprep(__nm_fig__.Name, '[^\\w-]+', '_')" },
+};
 
-  // Set background color
-  if (opts.backgroundColor === 'transparent' || opts.backgroundColor === 'none') {
-    lines.push(`set(gcf, 'Color', 'none');`);
-    lines.push(`set(gca, 'Color', 'none');`);
-  } else if (opts.backgroundColor === 'white') {
-    lines.push(`set(gcf, 'Color', 'white');`);
-  }
+/**
+ * Generate a MATLAB `sprintf` call building a figure filename from a template
+ *
+ * `{prefix}` and `{ext}` are filled in here; `{number}`, `{index}` and
+ * `{name}` are filled in by MATLAB. Unknown placeholders are kept as text.
+ */
+function generateFilenameCode(template: string, prefix: string, ext: string): string {
+  const args: string[] = [];
+  const literal = (text: string) =>
+    text.replace(/\\/g, '\\\\').replace(/%/g, '%%').replace(/'/g, "''");
 
-  // Use appropriate save method based on format
-  if (format === 'fig') {
-    lines.push(`saveas(gcf, '${escapePath(finalPath)}');`);
-  } else if (isVectorFormat(format)) {
-    // Use exportgraphics for vector formats (R2020a+)
-    const contentType = opts.contentType === 'auto' ? 'vector' : opts.contentType;
-    lines.push(
-      `try`,
-      `    exportgraphics(gcf, '${escapePath(finalPath)}', 'ContentType', '${contentType}');`,
-      `catch`,
-      `    print(gcf, '${escapePath(finalPath)}', '${getPrintDevice(format)}');`,
-      `end`
-    );
-  } else {
-    // Raster formats (png, jpg)
-    lines.push(
-      `try`,
-      `    exportgraphics(gcf, '${escapePath(finalPath)}', 'Resolution', ${opts.resolution});`,
-      `catch`,
-      `    print(gcf, '${escapePath(finalPath)}', '${getPrintDevice(format)}', '-r${opts.resolution}');`,
-      `end`
-    );
-  }
+  const format = template
+    .split(/(\{\w+\})/)
+    .map((part) => {
+      const key = part.match(/^\{(\w+)\}$/)?.[1];
+      if (key === 'prefix') {
+        return literal(prefix);
+      }
+      if (key === 'ext') {
+        return literal(ext.slice(1));
+      }
+      const placeholder = key ? FILENAME_PLACEHOLDERS[key] : undefined;
+      if (placeholder) {
+        args.push(placeholder.value);
+        return placeholder.format;
+      }
+      return literal(part);
+    })
+    .join('');
 
-  return lines.join('\n');
+  return `sprintf(${[`'${format}'`, ...args].join(', ')})`;
 }
 
 /**
  * Generate MATLAB code to save all open figures
+ *
+ * Figures are saved in order of their `Number`. For each one a record with
+ * its path, number, name, axes titles and pixel size is printed; read them
+ * with {@link parseSavedFigures}.
+ *
+ * @param outputDir - Directory for the files
+ * @param prefix - Value of the `{prefix}` placeholder in the filename template
+ * @param options - Figure export options
+ * @param version - MATLAB version, as for {@link generateSaveFigureCode}
  */
 export function generateSaveAllFiguresCode(
   outputDir: string,
   prefix = 'figure',
-  options?: Partial<FigureOptions>
+  options?: Partial<FigureOptions>,
+  version?: MatlabVersion | null
 ): string {
   const opts = { ...DEFAULT_FIGURE_OPTIONS, ...options };
   const ext = getExtension(opts.format);
+  const filename = generateFilenameCode(opts.filenameTemplate, prefix, ext);
 
-  const lines = [
+  const body = [
+    `__nm_filename__ = fullfile('${escapePath(outputDir)}', ${filename});`,
+    `figure(__nm_fig__);`,
+    ...generateExportCode('__nm_fig__', '__nm_filename__', options, version),
+  ];
+
+  // Report what was saved; raster sizes come from the file, others from the window
+  body.push(`__nm_size__ = getpixelposition(__nm_fig__);`, `__nm_size__ = __nm_size__(3:4);`);
+  if (!isVectorFormat(opts.format) && opts.format !== 'fig') {
+    body.push(
+      `try`,
+      `    __nm_info__ = imfinfo(__nm_filename__);`,
+      `    __nm_size__ = [__nm_info__(1).Width, __nm_info__(1).Height];`,
+      `catch`,
+      `end`
+    );
+  }
+  body.push(
+    ...generateAxesIterationCode('__nm_titles__', [
+      `__nm_titles__{__nm_k__} = ${textOf('__nm_ax__.Title')};`,
+    ]),
+    `fprintf('%s%s%s\\n', '${FIGURE_RECORD_START_MARKER}', jsonencode(struct('path', __nm_filename__, 'figureNumber', __nm_fig__.Number, 'name', __nm_fig__.Name, 'titles', {__nm_titles__}, 'width', __nm_size__(1), 'height', __nm_size__(2))), '${FIGURE_RECORD_END_MARKER}');`
+  );
+
+  return [
+    ...generateFigureIterationCode(body),
+    `clear __nm_figs__ __nm_order__ __nm_i__ __nm_fig__ __nm_filename__ __nm_size__ __nm_info__ __nm_axes__ __nm_ax__ __nm_k__ __nm_titles__;`,
+  ].join('\n');
+}
+
+/**
+ * Generate a loop over all open figures, in order of their `Number`
+ *
+ * @param body - Code run with the figure in `__nm_fig__` and its position in `__nm_i__`
+ */
+function generateFigureIterationCode(body: string[]): string[] {
+  return [
     `__nm_figs__ = findall(0, 'Type', 'figure');`,
+    // findall lists figures by stacking order; figures without a Number go first
+    `[~, __nm_order__] = sort(arrayfun(@(f) sum(f.Number), __nm_figs__));`,
+    `__nm_figs__ = __nm_figs__(__nm_order__);`,
     `for __nm_i__ = 1:length(__nm_figs__)`,
     `    __nm_fig__ = __nm_figs__(__nm_i__);`,
-    `    __nm_filename__ = fullfile('${escapePath(outputDir)}', sprintf('${prefix}_%d${ext}', __nm_fig__.Number));`,
-    `    figure(__nm_fig__);`,
+    ...body.map((line) => `    ${line}`),
+    'end',
   ];
+}
 
-  // Set figure properties
-  if (opts.width && opts.height) {
-    lines.push(`    set(__nm_fig__, 'Position', [100, 100, ${opts.width}, ${opts.height}]);`);
+/**
+ * Generate a loop over the axes of `__nm_fig__` in creation order, skipping
+ * legends and colorbars
+ *
+ * @param output - Cell created with one element per axes, for the body to fill
+ * @param body - Code run with the axes in `__nm_ax__` and its position in `__nm_k__`
+ */
+function generateAxesIterationCode(output: string, body: string[]): string[] {
+  return [
+    `__nm_axes__ = flipud(findall(__nm_fig__, 'Type', 'axes'));`,
+    `${output} = cell(1, numel(__nm_axes__));`,
+    `for __nm_k__ = 1:numel(__nm_axes__)`,
+    `    __nm_ax__ = __nm_axes__(__nm_k__);`,
+    ...body.map((line) => `    ${line}`),
+    'end',
+  ];
+}
+
+/**
+ * MATLAB expression for the text of a title or label object as one string
+ */
+function textOf(handle: string): string {
+  return `strjoin(cellstr(${handle}.String), newline)`;
+}
+
+/**
+ * Generate MATLAB code that prints the plotted data of every open figure
+ *
+ * Walks the figures like {@link generateSaveAllFiguresCode}, and for each
+ * axes records its title, labels, limits, scales, visible legend entries and
+ * the data and color of its line, scatter, bar and surface objects. Read the
+ * result with {@link parseFigureData}.
+ */
+export function generateFigureDataCode(): string {
+  const axis = (name: 'X' | 'Y' | 'Z') =>
+    `struct('label', ${textOf(`__nm_ax__.${name}Label`)}, 'limits', __nm_ax__.${name}Lim, 'scale', __nm_ax__.${name}Scale)`;
+
+  const series = [
+    `__nm_objs__ = flipud(findobj(__nm_ax__.Children, 'flat', '-regexp', 'Type', '^(line|scatter|bar|surface)$'));`,
+    `__nm_series__ = cell(1, numel(__nm_objs__));`,
+    `for __nm_j__ = 1:numel(__nm_objs__)`,
+    `    __nm_obj__ = __nm_objs__(__nm_j__);`,
+    `    switch __nm_obj__.Type`,
+    `        case 'line'`,
+    `            __nm_color__ = __nm_obj__.Color;`,
+    `        case 'scatter'`,
+    `            __nm_color__ = __nm_obj__.CData;`,
+    `        otherwise`,
+    `            __nm_color__ = __nm_obj__.FaceColor;`,
+    `    end`,
+    `    __nm_z__ = [];`,
+    `    if isprop(__nm_obj__, 'ZData')`,
+    `        __nm_z__ = __nm_obj__.ZData;`,
+    `    end`,
+    `    __nm_series__{__nm_j__} = struct('type', __nm_obj__.Type, 'name', __nm_obj__.DisplayName, 'x', __nm_obj__.XData, 'y', __nm_obj__.YData, 'z', __nm_z__, 'color', __nm_color__);`,
+    `end`,
+    `__nm_legend__ = {};`,
+    `if ~isempty(__nm_ax__.Legend) && strcmp(__nm_ax__.Legend.Visible, 'on')`,
+    `    __nm_legend__ = cellstr(__nm_ax__.Legend.String);`,
+    `end`,
+    `__nm_axdata__{__nm_k__} = struct('title', ${textOf('__nm_ax__.Title')}, 'x', ${axis('X')}, 'y', ${axis('Y')}, 'z', ${axis('Z')}, 'legend', {__nm_legend__}, 'series', {__nm_series__});`,
+  ];
+
+  return [
+    `__nm_data__ = {};`,
+    ...generateFigureIterationCode([
+      ...generateAxesIterationCode('__nm_axdata__', series),
+      `__nm_data__{end + 1} = struct('figureNumber', __nm_fig__.Number, 'name', __nm_fig__.Name, 'axes', {__nm_axdata__});`,
+    ]),
+    `fprintf('${JSON_START_MARKER}%s${JSON_END_MARKER}\\n', jsonencode(__nm_data__));`,
+    `clear __nm_data__ __nm_figs__ __nm_order__ __nm_i__ __nm_fig__ __nm_axes__ __nm_ax__ __nm_k__ __nm_axdata__ __nm_objs__ __nm_series__ __nm_j__ __nm_obj__ __nm_color__ __nm_z__ __nm_legend__;`,
+  ].join('\n');
+}
+
+/**
+ * Figure description as printed by {@link generateFigureDataCode}
+ */
+interface RawFigureData {
+  figureNumber?: unknown;
+  name?: unknown;
+  axes?: {
+    title?: unknown;
+    x?: RawAxisData;
+    y?: RawAxisData;
+    z?: RawAxisData;
+    legend?: unknown;
+    series?: {
+      type: FigureSeries['type'];
+      name?: unknown;
+      x?: unknown;
+      y?: unknown;
+      z?: unknown;
+      color: FigureSeries['color'];
+    }[];
+  }[];
+}
+
+interface RawAxisData {
+  label?: unknown;
+  limits?: unknown;
+  scale?: unknown;
+}
+
+/**
+ * Text value, or empty for anything else (jsonencode writes '' as [])
+ */
+function toText(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+/**
+ * Values as an array; jsonencode writes a single value without brackets
+ */
+function toSeriesValues(value: unknown): FigureSeriesValues {
+  if (Array.isArray(value)) {
+    return value as FigureSeriesValues;
   }
+  return typeof value === 'number' ? [value] : [];
+}
+
+/**
+ * Axis description with defaults for missing fields
+ */
+function toAxisData(axis: RawAxisData | undefined): FigureAxisData {
+  const limits = Array.isArray(axis?.limits) ? axis.limits.map(Number) : [];
+  return {
+    label: toText(axis?.label),
+    limits: [limits[0] ?? 0, limits[1] ?? 1],
+    scale: axis?.scale === 'log' ? 'log' : 'linear',
+  };
+}
 
-  if (opts.backgroundColor === 'transparent' || opts.backgroundColor === 'none') {
-    lines.push(`    set(__nm_fig__, 'Color', 'none');`);
-  } else if (opts.backgroundColor === 'white') {
-    lines.push(`    set(__nm_fig__, 'Color', 'white');`);
+/**
+ * Parse the output of {@link generateFigureDataCode}
+ *
+ * @param output - MATLAB output
+ * @returns One entry per figure, in order of figure number
+ */
+export function parseFigureData(output: string): FigureData[] {
+  const figures = extractJSON<RawFigureData[]>(output);
+  if (!Array.isArray(figures)) {
+    return [];
   }
 
-  // Save based on format
-  if (opts.format === 'fig') {
-    lines.push(`    saveas(__nm_fig__, __nm_filename__);`);
-  } else if (isVectorFormat(opts.format)) {
-    lines.push(
-      `    try`,
-      `        exportgraphics(__nm_fig__, __nm_filename__, 'ContentType', 'vector');`,
-      `    catch`,
-      `        print(__nm_fig__, __nm_filename__, '${getPrintDevice(opts.format)}');`,
-      `    end`
-    );
-  } else {
+  return figures.map((figure) => ({
+    figureNumber: typeof figure.figureNumber === 'number' ? figure.figureNumber : null,
+    name: toText(figure.name),
+    axes: (figure.axes ?? []).map((axes) => ({
+      title: toText(axes.title),
+      x: toAxisData(axes.x),
+      y: toAxisData(axes.y),
+      z: toAxisData(axes.z),
+      legend: Array.isArray(axes.legend) ? axes.legend.map(String) : [],
+      series: (axes.series ?? []).map((series) => ({
+        type: series.type,
+        name: toText(series.name),
+        x: toSeriesValues(series.x),
+        y: toSeriesValues(series.y),
+        z: toSeriesValues(series.z),
+        color: series.color,
+      })),
+    })),
+  }));
+}
+
+/**
+ * Parse the records printed by {@link generateSaveAllFiguresCode}
+ *
+ * @param output - MATLAB output
+ * @returns One entry per saved figure, in the order they were saved
+ */
+export function parseSavedFigures(output: string): SavedFigure[] {
+  const figures: SavedFigure[] = [];
+
+  for (const line of output.split('\n')) {
+    const startIndex = line.indexOf(FIGURE_RECORD_START_MARKER);
+    const endIndex = line.lastIndexOf(FIGURE_RECORD_END_MARKER);
+    if (startIndex === -1 || endIndex <= startIndex) {
+      continue;
+    }
+
+    try {
+      const record = JSON.parse(
+        line.slice(startIndex + FIGURE_RECORD_START_MARKER.length, endIndex)
+      );
+      figures.push({
+        path: String(record.path),
+        // Number is empty for figures with IntegerHandle 'off'
+        figureNumber: typeof record.figureNumber === 'number' ? record.figureNumber : null,
+        name: typeof record.name === 'string' ? record.name : '',
+        titles: Array.isArray(record.titles) ? record.titles.map(String) : [],
+        width: Number(record.width),
+        height: Number(record.height),
+      });
+    } catch {
+      // Not a complete record
+    }
+  }
+
+  return figures;
+}
+
+/**
+ * Read saved figures into memory
+ *
+ * @param figures - Figures reported by {@link parseSavedFigures}
+ * @param format - Format the figures were saved in
+ */
+export async function readRenderedFigures(
+  figures: SavedFigure[],
+  format: ImageFormat
+): Promise<RenderedFigure[]> {
+  return Promise.all(
+    figures.map(async ({ path, figureNumber, name, width, height }) => ({
+      buffer: await readFile(path),
+      format,
+      width,
+      height,
+      figureNumber,
+      name,
+    }))
+  );
+}
+
+/**
+ * Get file extension for an animation format
+ */
+export function getAnimationExtension(format: AnimationFormat): string {
+  return { gif: '.gif', mp4: '.mp4', avi: '.avi' }[format];
+}
+
+/**
+ * Generate MATLAB code that records the frames captured by `nm_frame` while
+ * a script runs
+ *
+ * GIF frames are appended with `imwrite`; MP4 and AVI frames are written with
+ * `VideoWriter` (MP4 needs Windows or macOS, AVI uses Motion JPEG and works on
+ * every platform). If the script fails, the video file is closed and the
+ * recording state cleared before the error is rethrown. The number of
+ * recorded frames is printed as JSON.
+ *
+ * @param script - MATLAB code that calls `nm_frame` for every frame
+ * @param outputPath - Output file, with the format's extension
+ * @param options - Animation options
+ */
+export function generateRecordAnimationCode(
+  script: string,
+  outputPath: string,
+  options?: AnimationOptions
+): string {
+  const format = options?.format ?? 'gif';
+  const fps = options?.fps ?? 10;
+  const path = `'${escapePath(outputPath)}'`;
+
+  const lines = [
+    'global __nm_animation__',
+    `__nm_animation__ = struct('path', ${path}, 'format', '${format}', 'delay', ${1 / fps}, 'count', 0, 'writer', []);`,
+  ];
+  if (format !== 'gif') {
+    const profile = format === 'mp4' ? 'MPEG-4' : 'Motion JPEG AVI';
     lines.push(
-      `    try`,
-      `        exportgraphics(__nm_fig__, __nm_filename__, 'Resolution', ${opts.resolution});`,
-      `    catch`,
-      `        print(__nm_fig__, __nm_filename__, '${getPrintDevice(opts.format)}', '-r${opts.resolution}');`,
-      `    end`
+      `__nm_animation__.writer = VideoWriter(${path}, '${profile}');`,
+      `__nm_animation__.writer.FrameRate = ${fps};`,
+      'open(__nm_animation__.writer);'
     );
   }
 
-  lines.push(`end`);
-  lines.push(`clear __nm_figs__ __nm_i__ __nm_fig__ __nm_filename__;`);
+  const finish = format !== 'gif' ? ['close(__nm_animation__.writer);'] : [];
+  const cleanup = [...finish, 'clear global __nm_animation__;'].join(' ');
+  lines.push(
+    `try, ${toEvalStatement(script)}`,
+    `catch __nm_animation_err__, ${cleanup} rethrow(__nm_animation_err__); end`,
+    ...finish
+  );
+  lines.push(
+    `fprintf('${JSON_START_MARKER}%d${JSON_END_MARKER}', __nm_animation__.count);`,
+    'clear global __nm_animation__'
+  );
 
   return lines.join('\n');
 }
@@ -195,9 +719,7 @@ function escapePath(path: string): string {
 /**
  * Generate MATLAB code for figure size preset
  */
-export function getFigureSizePreset(
-  preset: 'small' | 'medium' | 'large' | 'widescreen' | 'square'
-): { width: number; height: number } {
+export function getFigureSizePreset(preset: FigureSizePreset): { width: number; height: number } {
   const presets = {
     small: { width: 400, height: 300 },
     medium: { width: 800, height: 600 },
@@ -0,0 +1,125 @@
+/**
+ * MATLAB helper functions available to code run by node-matlab
+ * @packageDocumentation
+ */
+
+import { mkdtemp, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { generateArrayEncodingCode } from './parser.js';
+import { CALL_END_MARKER, CALL_START_MARKER } from './protocol.js';
+import { PROGRESS_END_MARKER, PROGRESS_START_MARKER } from './stream.js';
+
+/**
+ * Source of each helper function, keyed by function name
+ */
+const HELPER_SOURCES: Record<string, string> = {
+  nm_progress: [
+    'function nm_progress(fraction, message, data)',
+    '%NM_PROGRESS Report progress to node-matlab',
+    '%   NM_PROGRESS(FRACTION) reports FRACTION of the work (0 to 1) as done.',
+    '%   NM_PROGRESS(FRACTION, MESSAGE) adds a status message.',
+    '%   NM_PROGRESS(FRACTION, MESSAGE, DATA) adds any jsonencode-able value.',
+    "record = struct('fraction', fraction);",
+    'if nargin >= 2',
+    '    record.message = message;',
+    'end',
+    'if nargin >= 3',
+    '    record.data = data;',
+    'end',
+    `fprintf('%s%s%s\\n', '${PROGRESS_START_MARKER}', jsonencode(record), '${PROGRESS_END_MARKER}');`,
+    'end',
+  ].join('\n'),
+  nm_call: [
+    'function varargout = nm_call(name, varargin)',
+    '%NM_CALL Call a function registered with session.registerCallback',
+    '%   RESULT = NM_CALL(NAME, ARG1, ARG2, ...) passes the arguments to the',
+    '%   Node.js callback NAME and waits for its return value. An error thrown',
+    '%   by the callback is raised with the identifier node:callbackFailed.',
+    '%   Only available in a MatlabSession.',
+    'args = cell(1, numel(varargin));',
+    'for k = 1:numel(varargin)',
+    '    value = varargin{k};',
+    '    args{k} = value;',
+    ...generateArrayEncodingCode('args{k}', 'value')
+      .split('\n')
+      .map((line) => `    ${line}`),
+    'end',
+    "request = struct('name', name, 'args', {args});",
+    `fprintf('%s%s%s\\n', '${CALL_START_MARKER}', jsonencode(request), '${CALL_END_MARKER}');`,
+    "response = jsondecode(input('', 's'));",
+    "if isfield(response, 'error')",
+    "    error('node:callbackFailed', '%s', response.error);",
+    'end',
+    'value = eval(response.value);',
+    'if nargout > 0 || ~isempty(value)',
+    '    varargout{1} = value;',
+    'end',
+    'end',
+  ].join('\n'),
+  nm_frame: [
+    'function nm_frame(fig)',
+    '%NM_FRAME Add a frame to the animation recorded by Matlab.recordAnimation',
+    '%   NM_FRAME() captures the current figure; NM_FRAME(FIG) captures FIG.',
+    '%   Does nothing outside Matlab.recordAnimation.',
+    'global __nm_animation__',
+    'if isempty(__nm_animation__)',
+    '    return;',
+    'end',
+    'if nargin < 1',
+    '    fig = gcf;',
+    'end',
+    'drawnow;',
+    'frame = getframe(fig);',
+    "if strcmp(__nm_animation__.format, 'gif')",
+    '    [ind, map] = rgb2ind(frame.cdata, 256);',
+    '    if __nm_animation__.count == 0',
+    "        imwrite(ind, map, __nm_animation__.path, 'gif', 'LoopCount', Inf, 'DelayTime', __nm_animation__.delay);",
+    '    else',
+    "        imwrite(ind, map, __nm_animation__.path, 'gif', 'WriteMode', 'append', 'DelayTime', __nm_animation__.delay);",
+    '    end',
+    'else',
+    '    writeVideo(__nm_animation__.writer, frame);',
+    'end',
+    '__nm_animation__.count = __nm_animation__.count + 1;',
+    'end',
+  ].join('\n'),
+};
+
+let installation: Promise<string> | null = null;
+
+/**
+ * Write the helper functions to a temporary directory
+ *
+ * The directory is created once per Node.js process and shared by every
+ * script and session; it is left for the OS to clean up.
+ *
+ * @returns Directory to add to the MATLAB path
+ */
+export function installHelpers(): Promise<string> {
+  if (!installation) {
+    installation = (async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'node-matlab-helpers-'));
+      await Promise.all(
+        Object.entries(HELPER_SOURCES).map(([name, source]) =>
+          writeFile(join(dir, `${name}.m`), `${source}\n`, 'utf-8')
+        )
+      );
+      return dir;
+    })().catch((error: unknown) => {
+      installation = null;
+      throw error;
+    });
+  }
+  return installation;
+}
+
+/**
+ * Get the source of a helper function
+ *
+ * @param name - Helper function name (e.g. `nm_progress`)
+ * @returns MATLAB source, or undefined for an unknown helper
+ */
+export function getHelperSource(name: string): string | undefined {
+  return HELPER_SOURCES[name];
+}
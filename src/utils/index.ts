@@ -4,7 +4,15 @@
  */
 
 export * from './converter.js';
+export * from './envelope.js';
 export * from './figure.js';
+export * from './helpers.js';
+export * from './launch.js';
+export * from './matfile.js';
 export * from './parser.js';
 export * from './process.js';
+export * from './protocol.js';
+export * from './stream.js';
+export * from './transfer.js';
 export * from './version.js';
+export * from './workspace.js';
@@ -0,0 +1,92 @@
+/**
+ * MATLAB executable and launch configuration
+ * @packageDocumentation
+ */
+
+import { join } from 'node:path';
+import type { MatlabLaunchOptions } from '../types.js';
+
+/**
+ * Executable, arguments and environment used to spawn MATLAB
+ */
+export interface ResolvedLaunch {
+  /** Executable name or path */
+  executable: string;
+  /** Arguments passed before the node-matlab arguments */
+  args: string[];
+  /** Environment for the process, or undefined to inherit `process.env` */
+  env?: NodeJS.ProcessEnv;
+}
+
+/** Launch options applied to every spawn */
+let globalLaunch: MatlabLaunchOptions = {};
+
+/**
+ * Set launch options for every MATLAB process started afterwards
+ *
+ * Options are merged into the current configuration; per-call options take
+ * precedence for `executable`, and are appended for `launchArgs` and `env`.
+ *
+ * @param options - Launch options
+ *
+ * @example
+ * ```typescript
+ * configure({
+ *   executable: '/usr/local/MATLAB/R2024a/bin/matlab',
+ *   launchArgs: ['-singleCompThread'],
+ *   env: { MW_MINIMUM_LOG_LEVEL: 'error' },
+ * });
+ * ```
+ */
+export function configure(options: MatlabLaunchOptions): void {
+  globalLaunch = {
+    ...globalLaunch,
+    ...options,
+    env: options.env ? { ...globalLaunch.env, ...options.env } : globalLaunch.env,
+  };
+}
+
+/**
+ * Get the launch options set with {@link configure}
+ */
+export function getConfiguration(): MatlabLaunchOptions {
+  return { ...globalLaunch };
+}
+
+/**
+ * Forget the launch options set with {@link configure}
+ */
+export function resetConfiguration(): void {
+  globalLaunch = {};
+}
+
+/**
+ * Executable used when none is configured: `$MATLAB_ROOT/bin/matlab` if the
+ * `MATLAB_ROOT` environment variable is set, otherwise `matlab` from the PATH
+ */
+export function getDefaultExecutable(): string {
+  const root = process.env.MATLAB_ROOT;
+  if (!root) {
+    return 'matlab';
+  }
+  return join(root, 'bin', process.platform === 'win32' ? 'matlab.exe' : 'matlab');
+}
+
+/**
+ * Combine per-call launch options with the global configuration
+ *
+ * @param options - Per-call launch options
+ * @returns Executable, arguments and environment to spawn MATLAB with
+ */
+export function resolveLaunch(options?: MatlabLaunchOptions): ResolvedLaunch {
+  const env =
+    globalLaunch.env || options?.env
+      ? { ...process.env, ...globalLaunch.env, ...options?.env }
+      : undefined;
+
+  return {
+    executable: options?.executable ?? globalLaunch.executable ?? getDefaultExecutable(),
+    args: [...(globalLaunch.launchArgs ?? []), ...(options?.launchArgs ?? [])],
+    env,
+  };
+}
@@ -0,0 +1,1179 @@
+/**
+ * MAT-file (Level 5) reading and writing utilities
+ * @packageDocumentation
+ */
+
+import { mkdtemp, readFile, writeFile } from 'node:fs/promises';
+import { endianness, tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { deflateSync, inflateSync } from 'node:zlib';
+import { MatlabArray, typedArrayClass } from '../array.js';
+import { Complex } from '../complex.js';
+import { MatlabError } from '../errors.js';
+import type {
+  MATFileOptions,
+  MatCellArray,
+  MatCharArray,
+  MatFileContents,
+  MatNumericArray,
+  MatSparseMatrix,
+  MatStructArray,
+  MatTypedArray,
+  MatValue,
+  MatlabDataType,
+  MatlabNumericClass,
+  VariableInfo,
+} from '../types.js';
+import { sanitizeFieldName } from './converter.js';
+
+/** Size of the MAT-file header in bytes */
+const HEADER_SIZE = 128;
+
+/**
+ * MAT-file data element types (miXXX)
+ */
+const MI = {
+  INT8: 1,
+  UINT8: 2,
+  INT16: 3,
+  UINT16: 4,
+  INT32: 5,
+  UINT32: 6,
+  SINGLE: 7,
+  DOUBLE: 9,
+  INT64: 12,
+  UINT64: 13,
+  MATRIX: 14,
+  COMPRESSED: 15,
+  UTF8: 16,
+  UTF16: 17,
+  UTF32: 18,
+} as const;
+
+/**
+ * MATLAB array classes (mxXXX_CLASS)
+ */
+const MX = {
+  CELL: 1,
+  STRUCT: 2,
+  OBJECT: 3,
+  CHAR: 4,
+  SPARSE: 5,
+  DOUBLE: 6,
+  SINGLE: 7,
+  INT8: 8,
+  UINT8: 9,
+  INT16: 10,
+  UINT16: 11,
+  INT32: 12,
+  UINT32: 13,
+  INT64: 14,
+  UINT64: 15,
+  FUNCTION: 16,
+  OPAQUE: 17,
+} as const;
+
+/** Array flag bits (second byte of the array flags word) */
+const FLAG_COMPLEX = 0x08;
+const FLAG_GLOBAL = 0x04;
+const FLAG_LOGICAL = 0x02;
+
+/**
+ * Numeric array classes mapped to their MATLAB type name
+ */
+const NUMERIC_CLASSES: Record<number, MatlabDataType> = {
+  [MX.DOUBLE]: 'double',
+  [MX.SINGLE]: 'single',
+  [MX.INT8]: 'int8',
+  [MX.UINT8]: 'uint8',
+  [MX.INT16]: 'int16',
+  [MX.UINT16]: 'uint16',
+  [MX.INT32]: 'int32',
+  [MX.UINT32]: 'uint32',
+  [MX.INT64]: 'int64',
+  [MX.UINT64]: 'uint64',
+};
+
+/**
+ * Bytes per element for each MATLAB type, as reported by `whos`
+ */
+const ELEMENT_BYTES: Partial<Record<MatlabDataType, number>> = {
+  double: 8,
+  single: 4,
+  int8: 1,
+  uint8: 1,
+  int16: 2,
+  uint16: 2,
+  int32: 4,
+  uint32: 4,
+  int64: 8,
+  uint64: 8,
+  logical: 1,
+  char: 2,
+};
+
+/**
+ * A data element tag and the location of its payload
+ */
+interface DataElement {
+  type: number;
+  data: Uint8Array;
+  /** Offset of the next element in the enclosing buffer */
+  next: number;
+}
+
+/**
+ * Endian-aware cursor over a MAT-file buffer
+ */
+class MatReader {
+  private readonly view: DataView;
+
+  constructor(
+    private readonly bytes: Uint8Array,
+    readonly littleEndian: boolean
+  ) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get length(): number {
+    return this.bytes.byteLength;
+  }
+
+  /**
+   * Read the data element starting at `offset`
+   */
+  readElement(offset: number): DataElement {
+    if (offset + 8 > this.bytes.byteLength) {
+      throw new MatlabError('Unexpected end of MAT-file data');
+    }
+
+    const first = this.view.getUint32(offset, this.littleEndian);
+
+    // Small data element format: type and size packed into the first 4 bytes
+    if (first >>> 16 !== 0) {
+      const size = first >>> 16;
+      return {
+        type: first & 0xffff,
+        data: this.bytes.subarray(offset + 4, offset + 4 + size),
+        next: offset + 8,
+      };
+    }
+
+    const size = this.view.getUint32(offset + 4, this.littleEndian);
+    const start = offset + 8;
+    if (start + size > this.bytes.byteLength) {
+      throw new MatlabError('MAT-file data element exceeds file size');
+    }
+
+    // Compressed elements are not padded to an 8-byte boundary
+    const padded = first === MI.COMPRESSED ? size : Math.ceil(size / 8) * 8;
+
+    return {
+      type: first,
+      data: this.bytes.subarray(start, start + size),
+      next: start + padded,
+    };
+  }
+
+  /**
+   * Decode element data of the given miXXX type into plain numbers
+   */
+  readNumbers(type: number, data: Uint8Array): number[] {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const le = this.littleEndian;
+    const size = elementSize(type);
+    const count = Math.floor(data.byteLength / size);
+    const values = new Array<number>(count);
+
+    for (let i = 0; i < count; i++) {
+      const at = i * size;
+      switch (type) {
+        case MI.INT8:
+          values[i] = view.getInt8(at);
+          break;
+        case MI.UINT8:
+        case MI.UTF8:
+          values[i] = view.getUint8(at);
+          break;
+        case MI.INT16:
+          values[i] = view.getInt16(at, le);
+          break;
+        case MI.UINT16:
+        case MI.UTF16:
+          values[i] = view.getUint16(at, le);
+          break;
+        case MI.INT32:
+          values[i] = view.getInt32(at, le);
+          break;
+        case MI.UINT32:
+        case MI.UTF32:
+          values[i] = view.getUint32(at, le);
+          break;
+        case MI.SINGLE:
+          values[i] = view.getFloat32(at, le);
+          break;
+        case MI.DOUBLE:
+          values[i] = view.getFloat64(at, le);
+          break;
+        case MI.INT64:
+          values[i] = Number(view.getBigInt64(at, le));
+          break;
+        case MI.UINT64:
+          values[i] = Number(view.getBigUint64(at, le));
+          break;
+        default:
+          throw new MatlabError(`Unsupported MAT-file data type: ${type}`);
+      }
+    }
+
+    return values;
+  }
+
+  /**
+   * Decode element data of the given miXXX type into 64-bit integers
+   */
+  readBigInts(type: number, data: Uint8Array): bigint[] {
+    if (type !== MI.INT64 && type !== MI.UINT64) {
+      return this.readNumbers(type, data).map((v) => BigInt(Math.trunc(v)));
+    }
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const count = Math.floor(data.byteLength / 8);
+    const values = new Array<bigint>(count);
+    for (let i = 0; i < count; i++) {
+      values[i] =
+        type === MI.INT64
+          ? view.getBigInt64(i * 8, this.littleEndian)
+          : view.getBigUint64(i * 8, this.littleEndian);
+    }
+    return values;
+  }
+}
+
+/**
+ * Size in bytes of a single value of a miXXX type
+ */
+function elementSize(type: number): number {
+  switch (type) {
+    case MI.INT8:
+    case MI.UINT8:
+    case MI.UTF8:
+      return 1;
+    case MI.INT16:
+    case MI.UINT16:
+    case MI.UTF16:
+      return 2;
+    case MI.INT32:
+    case MI.UINT32:
+    case MI.SINGLE:
+    case MI.UTF32:
+      return 4;
+    case MI.DOUBLE:
+    case MI.INT64:
+    case MI.UINT64:
+      return 8;
+    default:
+      throw new MatlabError(`Unsupported MAT-file data type: ${type}`);
+  }
+}
+
+/**
+ * Create a typed array of the right kind for a MATLAB numeric type
+ */
+function createTypedArray(
+  reader: MatReader,
+  type: MatlabDataType,
+  element: DataElement
+): MatTypedArray {
+  switch (type) {
+    case 'int64':
+      return BigInt64Array.from(reader.readBigInts(element.type, element.data));
+    case 'uint64':
+      return BigUint64Array.from(reader.readBigInts(element.type, element.data));
+    default: {
+      const values = reader.readNumbers(element.type, element.data);
+      switch (type) {
+        case 'single':
+          return Float32Array.from(values);
+        case 'int8':
+          return Int8Array.from(values);
+        case 'uint8':
+        case 'logical':
+          return Uint8Array.from(values);
+        case 'int16':
+          return Int16Array.from(values);
+        case 'uint16':
+          return Uint16Array.from(values);
+        case 'int32':
+          return Int32Array.from(values);
+        case 'uint32':
+          return Uint32Array.from(values);
+        default:
+          return Float64Array.from(values);
+      }
+    }
+  }
+}
+
+/**
+ * Decode a miINT8 element holding ASCII text (names, field names)
+ */
+function decodeAscii(data: Uint8Array): string {
+  let end = data.indexOf(0);
+  if (end === -1) end = data.byteLength;
+  return Buffer.from(data.buffer, data.byteOffset, end).toString('latin1');
+}
+
+/** Characters passed to `String.fromCodePoint` at once, well below the argument limit */
+const CODE_POINT_CHUNK = 8192;
+
+/**
+ * Build a string from character codes in chunks, since spreading a large
+ * array into one call overflows the stack
+ */
+function fromCodePoints(codes: number[]): string {
+  let text = '';
+  for (let i = 0; i < codes.length; i += CODE_POINT_CHUNK) {
+    text += String.fromCodePoint(...codes.slice(i, i + CODE_POINT_CHUNK));
+  }
+  return text;
+}
+
+/**
+ * Decode character data into a string in row order
+ */
+function decodeChars(reader: MatReader, element: DataElement, dims: number[]): string {
+  let codes: number[];
+
+  if (element.type === MI.UTF8) {
+    const text = Buffer.from(element.data).toString('utf8');
+    codes = Array.from(text, (ch) => ch.codePointAt(0) ?? 0);
+  } else {
+    codes = reader.readNumbers(element.type, element.data);
+  }
+
+  const rows = dims[0] ?? 0;
+  const cols = rows === 0 ? 0 : codes.length / rows;
+
+  if (rows <= 1) {
+    return fromCodePoints(codes);
+  }
+
+  // Character matrices are stored column-major; rebuild each row
+  const lines: string[] = [];
+  for (let r = 0; r < rows; r++) {
+    const line: number[] = [];
+    for (let c = 0; c < cols; c++) {
+      line.push(codes[r + c * rows] ?? 32);
+    }
+    lines.push(fromCodePoints(line));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Parsed miMATRIX element with its name and flags
+ */
+interface ParsedMatrix {
+  name: string;
+  value: MatValue;
+  global: boolean;
+}
+
+/**
+ * Parse the contents of a miMATRIX element
+ */
+function parseMatrix(reader: MatReader, data: Uint8Array): ParsedMatrix {
+  // Empty miMATRIX elements stand for empty double arrays (e.g. in cells)
+  if (data.byteLength === 0) {
+    return {
+      name: '',
+      value: new MatlabArray('double', [0, 0]),
+      global: false,
+    };
+  }
+
+  const sub = new MatReader(data, reader.littleEndian);
+  const flagsElement = sub.readElement(0);
+  const flags = sub.readNumbers(MI.UINT32, flagsElement.data);
+  const classId = (flags[0] ?? 0) & 0xff;
+  const flagBits = ((flags[0] ?? 0) >>> 8) & 0xff;
+
+  // Opaque objects (string, table, datetime, ...) have a different layout
+  if (classId === MX.OPAQUE) {
+    const nameElement = sub.readElement(flagsElement.next);
+    const classElement = sub.readElement(sub.readElement(nameElement.next).next);
+    return {
+      name: decodeAscii(nameElement.data),
+      value: { type: 'unknown', dims: [], className: decodeAscii(classElement.data) },
+      global: (flagBits & FLAG_GLOBAL) !== 0,
+    };
+  }
+
+  const dimsElement = sub.readElement(flagsElement.next);
+  const dims = sub.readNumbers(dimsElement.type, dimsElement.data);
+  const nameElement = sub.readElement(dimsElement.next);
+  const name = decodeAscii(nameElement.data);
+  const complex = (flagBits & FLAG_COMPLEX) !== 0;
+  const logical = (flagBits & FLAG_LOGICAL) !== 0;
+  const numel = countElements(dims);
+  let offset = nameElement.next;
+
+  let value: MatValue;
+
+  switch (classId) {
+    case MX.CHAR: {
+      const element = sub.readElement(offset);
+      const chars: MatCharArray = { type: 'char', dims, value: decodeChars(sub, element, dims) };
+      value = chars;
+      break;
+    }
+
+    case MX.CELL: {
+      const cells: MatValue[] = [];
+      for (let i = 0; i < numel; i++) {
+        const element = sub.readElement(offset);
+        cells.push(parseElementValue(sub, element));
+        offset = element.next;
+      }
+      const cell: MatCellArray = { type: 'cell', dims, cells };
+      value = cell;
+      break;
+    }
+
+    case MX.STRUCT:
+    case MX.OBJECT: {
+      let className: string | undefined;
+      if (classId === MX.OBJECT) {
+        const classElement = sub.readElement(offset);
+        className = decodeAscii(classElement.data);
+        offset = classElement.next;
+      }
+
+      const lengthElement = sub.readElement(offset);
+      const fieldLength = sub.readNumbers(lengthElement.type, lengthElement.data)[0] ?? 0;
+      const namesElement = sub.readElement(lengthElement.next);
+      const fieldNames: string[] = [];
+      for (let i = 0; fieldLength > 0 && i < namesElement.data.byteLength / fieldLength; i++) {
+        fieldNames.push(
+          decodeAscii(namesElement.data.subarray(i * fieldLength, (i + 1) * fieldLength))
+        );
+      }
+      offset = namesElement.next;
+
+      const elements: Record<string, MatValue>[] = [];
+      for (let i = 0; i < numel; i++) {
+        const record: Record<string, MatValue> = {};
+        for (const field of fieldNames) {
+          const element = sub.readElement(offset);
+          record[field] = parseElementValue(sub, element);
+          offset = element.next;
+        }
+        elements.push(record);
+      }
+
+      const struct: MatStructArray = { type: 'struct', dims, fieldNames, elements };
+      if (className) {
+        struct.className = className;
+      }
+      value = struct;
+      break;
+    }
+
+    case MX.SPARSE: {
+      const irElement = sub.readElement(offset);
+      const jcElement = sub.readElement(irElement.next);
+      const prElement = sub.readElement(jcElement.next);
+      const columnPointers = Int32Array.from(sub.readNumbers(jcElement.type, jcElement.data));
+      const nnz = columnPointers[columnPointers.length - 1] ?? 0;
+      const type: MatlabDataType = logical ? 'logical' : 'double';
+
+      const sparse: MatSparseMatrix = {
+        type,
+        sparse: true,
+        dims,
+        rowIndices: Int32Array.from(sub.readNumbers(irElement.type, irElement.data)).subarray(
+          0,
+          nnz
+        ),
+        columnPointers,
+        real: createTypedArray(sub, 'double', prElement).subarray(0, nnz) as Float64Array,
+      };
+      if (complex) {
+        const piElement = sub.readElement(prElement.next);
+        sparse.imag = createTypedArray(sub, 'double', piElement).subarray(0, nnz) as Float64Array;
+      }
+      value = sparse;
+      break;
+    }
+
+    default: {
+      const numericType = NUMERIC_CLASSES[classId];
+      if (!numericType) {
+        // Function handles and other unsupported classes
+        value = { type: classId === MX.FUNCTION ? 'function_handle' : 'unknown', dims };
+        break;
+      }
+
+      const type = (logical ? 'logical' : numericType) as MatlabNumericClass;
+      const realElement = sub.readElement(offset);
+      value = new MatlabArray(
+        type,
+        dims,
+        createTypedArray(sub, type, realElement),
+        complex ? createTypedArray(sub, type, sub.readElement(realElement.next)) : undefined
+      );
+    }
+  }
+
+  return { name, value, global: (flagBits & FLAG_GLOBAL) !== 0 };
+}
+
+/**
+ * Parse a nested element (cell contents, struct fields) into a value
+ */
+function parseElementValue(reader: MatReader, element: DataElement): MatValue {
+  return parseTopLevel(reader, element).value;
+}
+
+/**
+ * Parse a top-level element, inflating compressed data if needed
+ */
+function parseTopLevel(reader: MatReader, element: DataElement): ParsedMatrix {
+  if (element.type === MI.COMPRESSED) {
+    const inflated = new Uint8Array(inflateSync(element.data));
+    const inner = new MatReader(inflated, reader.littleEndian);
+    return parseTopLevel(inner, inner.readElement(0));
+  }
+
+  if (element.type !== MI.MATRIX) {
+    throw new MatlabError(`Unexpected MAT-file element type: ${element.type}`);
+  }
+
+  return parseMatrix(reader, element.data);
+}
+
+/**
+ * Number of elements in an array with the given dimensions
+ */
+function countElements(dims: number[]): number {
+  return dims.reduce((a, b) => a * b, 1);
+}
+
+/**
+ * Build `whos`-style metadata for a parsed variable
+ */
+export function createMatVariableInfo(name: string, value: MatValue): VariableInfo {
+  const info: VariableInfo = {
+    name,
+    size: value.dims,
+    type: value.type,
+  };
+
+  if ('sparse' in value) {
+    info.sparse = true;
+    info.complex = value.imag !== undefined;
+    const perValue = (value.type === 'logical' ? 1 : 8) * (info.complex ? 2 : 1);
+    // Value storage plus row indices and column pointers
+    info.bytes = value.real.length * (perValue + 8) + value.columnPointers.length * 8;
+    return info;
+  }
+
+  if ('real' in value) {
+    info.complex = value.imag !== undefined;
+  }
+
+  const elementBytes = ELEMENT_BYTES[value.type];
+  if (elementBytes !== undefined) {
+    info.bytes = countElements(value.dims) * elementBytes * (info.complex ? 2 : 1);
+  }
+
+  return info;
+}
+
+/**
+ * Parse a Level 5 MAT-file from a buffer
+ *
+ * @param buffer - Contents of a `.mat` file
+ * @returns Parsed variables and their metadata
+ * @throws {MatlabError} If the buffer is not a Level 5 MAT-file
+ */
+export function parseMatFile(buffer: Uint8Array): MatFileContents {
+  if (buffer.byteLength < HEADER_SIZE) {
+    throw new MatlabError('Invalid MAT-file: file is too short');
+  }
+
+  const header = Buffer.from(buffer.buffer, buffer.byteOffset, 116)
+    .toString('latin1')
+    .replace(/[\s\0]+$/, '');
+
+  if (header.startsWith('MATLAB 7.3')) {
+    throw new MatlabError('MAT-file version 7.3 (HDF5) is not supported', {
+      suggestion: "Save the file with the '-v7' or '-v6' option.",
+    });
+  }
+
+  const endian = String.fromCharCode(buffer[126] ?? 0, buffer[127] ?? 0);
+  if (endian !== 'IM' && endian !== 'MI') {
+    throw new MatlabError('Invalid MAT-file: missing endian indicator', {
+      suggestion: 'Only Level 5 MAT-files (-v6, -v7) are supported.',
+    });
+  }
+
+  const reader = new MatReader(buffer, endian === 'IM');
+  const variables: Record<string, MatValue> = {};
+  const info: VariableInfo[] = [];
+  const globals: string[] = [];
+
+  let offset = HEADER_SIZE;
+  while (offset + 8 <= reader.length) {
+    const element = reader.readElement(offset);
+    offset = element.next;
+
+    const parsed = parseTopLevel(reader, element);
+    variables[parsed.name] = parsed.value;
+    info.push(createMatVariableInfo(parsed.name, parsed.value));
+    if (parsed.global) {
+      globals.push(parsed.name);
+    }
+  }
+
+  return { header, variables, info, globals };
+}
+
+/**
+ * Read a Level 5 MAT-file from disk without launching MATLAB
+ *
+ * Supports files saved with `-v6` and `-v7` (including compressed data).
+ * Numeric and logical arrays are returned as typed arrays in column-major
+ * order together with their dimensions.
+ *
+ * @param path - Path to the `.mat` file
+ * @returns Promise resolving to parsed variables and their metadata
+ *
+ * @example
+ * ```typescript
+ * const { variables, info } = await readMatFile('./data.mat');
+ * const x = variables.x; // { type: 'double', dims: [1, 100], real: Float64Array(100) }
+ * ```
+ */
+export async function readMatFile(path: string): Promise<MatFileContents> {
+  const buffer = await readFile(path);
+  return parseMatFile(buffer);
+}
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+/** Whether typed array data is written in little-endian byte order */
+const LITTLE_ENDIAN = endianness() === 'LE';
+
+/**
+ * Array class ids for numeric MATLAB types
+ */
+const NUMERIC_CLASS_IDS: Partial<Record<MatlabDataType, number>> = {
+  double: MX.DOUBLE,
+  single: MX.SINGLE,
+  int8: MX.INT8,
+  uint8: MX.UINT8,
+  int16: MX.INT16,
+  uint16: MX.UINT16,
+  int32: MX.INT32,
+  uint32: MX.UINT32,
+  int64: MX.INT64,
+  uint64: MX.UINT64,
+  logical: MX.UINT8,
+};
+
+/**
+ * Data element types used to store each numeric MATLAB type
+ */
+const NUMERIC_DATA_TYPES: Partial<Record<MatlabDataType, number>> = {
+  double: MI.DOUBLE,
+  single: MI.SINGLE,
+  int8: MI.INT8,
+  uint8: MI.UINT8,
+  int16: MI.INT16,
+  uint16: MI.UINT16,
+  int32: MI.INT32,
+  uint32: MI.UINT32,
+  int64: MI.INT64,
+  uint64: MI.UINT64,
+  logical: MI.UINT8,
+};
+
+/** Days between year 0 (MATLAB datenum origin) and the Unix epoch */
+const DATENUM_UNIX_EPOCH = 719529;
+
+/**
+ * Write a uint32 in the byte order used for the file
+ */
+function writeUInt32(buf: Buffer, value: number, offset: number): void {
+  if (LITTLE_ENDIAN) {
+    buf.writeUInt32LE(value, offset);
+  } else {
+    buf.writeUInt32BE(value, offset);
+  }
+}
+
+/**
+ * Get the raw bytes of a typed array
+ */
+function typedArrayBytes(array: ArrayBufferView): Buffer {
+  return Buffer.from(array.buffer, array.byteOffset, array.byteLength);
+}
+
+/**
+ * Encode a data element (tag + data + padding)
+ */
+function encodeElement(type: number, data: Buffer): Buffer {
+  // Small data element format for payloads of up to 4 bytes
+  if (data.length > 0 && data.length <= 4) {
+    const buf = Buffer.alloc(8);
+    writeUInt32(buf, (data.length << 16) | type, 0);
+    data.copy(buf, 4);
+    return buf;
+  }
+
+  const tag = Buffer.alloc(8);
+  writeUInt32(tag, type, 0);
+  writeUInt32(tag, data.length, 4);
+  const padding = Buffer.alloc((8 - (data.length % 8)) % 8);
+  return Buffer.concat([tag, data, padding]);
+}
+
+/**
+ * Convert values to the typed array used to store a MATLAB numeric type
+ */
+function coerceTypedArray(type: MatlabDataType, values: ArrayLike<number | bigint>): MatTypedArray {
+  const numbers = () => Array.from(values, (v) => Number(v));
+  const bigints = () =>
+    Array.from(values, (v) => BigInt(typeof v === 'bigint' ? v : Math.trunc(v)));
+
+  switch (type) {
+    case 'single':
+      return values instanceof Float32Array ? values : Float32Array.from(numbers());
+    case 'int8':
+      return values instanceof Int8Array ? values : Int8Array.from(numbers());
+    case 'uint8':
+    case 'logical':
+      return values instanceof Uint8Array ? values : Uint8Array.from(numbers());
+    case 'int16':
+      return values instanceof Int16Array ? values : Int16Array.from(numbers());
+    case 'uint16':
+      return values instanceof Uint16Array ? values : Uint16Array.from(numbers());
+    case 'int32':
+      return values instanceof Int32Array ? values : Int32Array.from(numbers());
+    case 'uint32':
+      return values instanceof Uint32Array ? values : Uint32Array.from(numbers());
+    case 'int64':
+      return values instanceof BigInt64Array ? values : BigInt64Array.from(bigints());
+    case 'uint64':
+      return values instanceof BigUint64Array ? values : BigUint64Array.from(bigints());
+    default:
+      return values instanceof Float64Array ? values : Float64Array.from(numbers());
+  }
+}
+
+/**
+ * Check if a value already has the shape of a parsed MAT-file value
+ */
+function isMatValue(value: unknown): value is MatValue {
+  if (typeof value !== 'object' || value === null) return false;
+  const v = value as Record<string, unknown>;
+  if (typeof v.type !== 'string' || !Array.isArray(v.dims)) return false;
+
+  return (
+    ArrayBuffer.isView(v.real) ||
+    (v.type === 'char' && typeof v.value === 'string') ||
+    (v.type === 'cell' && Array.isArray(v.cells)) ||
+    (v.type === 'struct' && Array.isArray(v.fieldNames) && Array.isArray(v.elements))
+  );
+}
+
+/**
+ * Check if a value is a plain object (converted to a struct)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !ArrayBuffer.isView(value) &&
+    !(value instanceof Date) &&
+    !isMatValue(value)
+  );
+}
+
+/**
+ * Empty double array (`[]`)
+ */
+function emptyMatValue(): MatNumericArray {
+  return { type: 'double', dims: [0, 0], real: new Float64Array(0) };
+}
+
+/**
+ * Build a struct array from JavaScript objects
+ */
+function structFromObjects(objects: Record<string, unknown>[]): MatStructArray {
+  const fieldNames: string[] = [];
+  for (const obj of objects) {
+    for (const key of Object.keys(obj)) {
+      const field = sanitizeFieldName(key);
+      if (!fieldNames.includes(field)) {
+        fieldNames.push(field);
+      }
+    }
+  }
+
+  const elements = objects.map((obj) => {
+    const record: Record<string, MatValue> = {};
+    for (const field of fieldNames) {
+      record[field] = emptyMatValue();
+    }
+    for (const [key, value] of Object.entries(obj)) {
+      record[sanitizeFieldName(key)] = toMatValue(value);
+    }
+    return record;
+  });
+
+  return { type: 'struct', dims: [1, objects.length], fieldNames, elements };
+}
+
+/**
+ * Convert a JavaScript array to a MAT-file value
+ */
+function arrayToMatValue(value: unknown[]): MatValue {
+  if (value.length === 0) {
+    return emptyMatValue();
+  }
+
+  if (MatlabArray.shapeOf(value)) {
+    return MatlabArray.from(value);
+  }
+
+  if (value.every(isPlainObject)) {
+    return structFromObjects(value);
+  }
+
+  return { type: 'cell', dims: [1, value.length], cells: value.map((v) => toMatValue(v)) };
+}
+
+/**
+ * Convert a JavaScript value to a MAT-file value
+ */
+function toMatValue(value: unknown): MatValue {
+  if (value === null || value === undefined) {
+    return emptyMatValue();
+  }
+
+  if (typeof value === 'number') {
+    return { type: 'double', dims: [1, 1], real: Float64Array.of(value) };
+  }
+
+  if (typeof value === 'bigint') {
+    return value > 0x7fffffffffffffffn
+      ? { type: 'uint64', dims: [1, 1], real: BigUint64Array.of(value) }
+      : { type: 'int64', dims: [1, 1], real: BigInt64Array.of(value) };
+  }
+
+  if (typeof value === 'boolean') {
+    return { type: 'logical', dims: [1, 1], real: Uint8Array.of(value ? 1 : 0) };
+  }
+
+  if (typeof value === 'string') {
+    return { type: 'char', dims: value ? [1, value.length] : [0, 0], value };
+  }
+
+  if (value instanceof Date) {
+    // Dates are stored as MATLAB datenums (days since year 0)
+    const datenum = value.getTime() / 86400000 + DATENUM_UNIX_EPOCH;
+    return { type: 'double', dims: [1, 1], real: Float64Array.of(datenum) };
+  }
+
+  if (isMatValue(value)) {
+    return value;
+  }
+
+  if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+    const array = value as unknown as ArrayLike<number | bigint>;
+    const type = typedArrayClass(value);
+    return { type, dims: [1, array.length], real: coerceTypedArray(type, array) };
+  }
+
+  if (Array.isArray(value)) {
+    return arrayToMatValue(value);
+  }
+
+  if (isPlainObject(value)) {
+    const struct = structFromObjects([value]);
+    struct.dims = [1, 1];
+    return struct;
+  }
+
+  throw new MatlabError(`Cannot write value of type ${typeof value} to a MAT-file`);
+}
+
+/**
+ * Encode the character data of a char array in column-major order
+ */
+function encodeChars(value: MatCharArray): { dims: number[]; data: Buffer } {
+  if (value.value === '') {
+    return { dims: [0, 0], data: Buffer.alloc(0) };
+  }
+
+  const rows = (value.dims[0] ?? 1) > 1 ? value.value.split('\n') : [value.value];
+  const cols = Math.max(...rows.map((r) => r.length));
+  const codes = new Uint16Array(rows.length * cols);
+
+  rows.forEach((row, r) => {
+    for (let c = 0; c < cols; c++) {
+      codes[r + c * rows.length] = c < row.length ? row.charCodeAt(c) : 32;
+    }
+  });
+
+  return { dims: [rows.length, cols], data: typedArrayBytes(codes) };
+}
+
+/**
+ * Encode a miMATRIX element for a value
+ */
+function encodeMatrix(name: string, value: MatValue): Buffer {
+  let classId: number;
+  let flags = 0;
+  let nzmax = 0;
+  let dims = value.dims;
+  const body: Buffer[] = [];
+
+  if (value.type === 'char' && 'value' in value) {
+    const encoded = encodeChars(value);
+    classId = MX.CHAR;
+    dims = encoded.dims;
+    body.push(encodeElement(MI.UINT16, encoded.data));
+  } else if (value.type === 'cell' && 'cells' in value) {
+    classId = MX.CELL;
+    for (const cell of value.cells) {
+      body.push(encodeMatrix('', cell));
+    }
+  } else if (value.type === 'struct' && 'elements' in value) {
+    classId = value.className ? MX.OBJECT : MX.STRUCT;
+    if (value.className) {
+      body.push(encodeElement(MI.INT8, Buffer.from(value.className, 'latin1')));
+    }
+
+    const fieldLength = Math.max(0, ...value.fieldNames.map((f) => f.length)) + 1;
+    const names = Buffer.alloc(fieldLength * value.fieldNames.length);
+    value.fieldNames.forEach((field, i) => {
+      names.write(field, i * fieldLength, 'latin1');
+    });
+    body.push(encodeElement(MI.INT32, typedArrayBytes(Int32Array.of(fieldLength))));
+    body.push(encodeElement(MI.INT8, names));
+
+    for (const element of value.elements) {
+      for (const field of value.fieldNames) {
+        body.push(encodeMatrix('', element[field] ?? emptyMatValue()));
+      }
+    }
+  } else if ('sparse' in value) {
+    classId = MX.SPARSE;
+    const nnz = value.real.length;
+    nzmax = Math.max(1, nnz);
+    if (value.type === 'logical') flags |= FLAG_LOGICAL;
+
+    const rowIndices = new Int32Array(nzmax);
+    rowIndices.set(value.rowIndices.subarray(0, nnz));
+    body.push(encodeElement(MI.INT32, typedArrayBytes(rowIndices)));
+    body.push(encodeElement(MI.INT32, typedArrayBytes(Int32Array.from(value.columnPointers))));
+    body.push(encodeElement(MI.DOUBLE, typedArrayBytes(Float64Array.from(value.real))));
+    if (value.imag) {
+      flags |= FLAG_COMPLEX;
+      body.push(encodeElement(MI.DOUBLE, typedArrayBytes(Float64Array.from(value.imag))));
+    }
+  } else if ('real' in value && NUMERIC_CLASS_IDS[value.type] !== undefined) {
+    classId = NUMERIC_CLASS_IDS[value.type] ?? MX.DOUBLE;
+    const dataType = NUMERIC_DATA_TYPES[value.type] ?? MI.DOUBLE;
+    if (value.type === 'logical') flags |= FLAG_LOGICAL;
+
+    body.push(encodeElement(dataType, typedArrayBytes(coerceTypedArray(value.type, value.real))));
+    if (value.imag) {
+      flags |= FLAG_COMPLEX;
+      body.push(encodeElement(dataType, typedArrayBytes(coerceTypedArray(value.type, value.imag))));
+    }
+  } else {
+    throw new MatlabError(`Cannot write MATLAB class '${value.type}' to a MAT-file`);
+  }
+
+  const arrayFlags = Buffer.alloc(8);
+  writeUInt32(arrayFlags, (flags << 8) | classId, 0);
+  writeUInt32(arrayFlags, nzmax, 4);
+
+  return encodeElement(
+    MI.MATRIX,
+    Buffer.concat([
+      encodeElement(MI.UINT32, arrayFlags),
+      encodeElement(MI.INT32, typedArrayBytes(Int32Array.from(dims))),
+      encodeElement(MI.INT8, Buffer.from(name, 'latin1')),
+      ...body,
+    ])
+  );
+}
+
+/**
+ * Create the 128-byte MAT-file header
+ */
+function createHeader(): Buffer {
+  const text = `MATLAB 5.0 MAT-file, Platform: ${process.platform}, Created on: ${new Date().toUTCString()}, by node-matlab`;
+  const buf = Buffer.alloc(HEADER_SIZE, ' ');
+  buf.write(text.slice(0, 116), 0, 'latin1');
+  buf.fill(0, 116, 124);
+
+  const version = Buffer.from(Uint16Array.of(0x0100, 0x4d49).buffer);
+  version.copy(buf, 124);
+  return buf;
+}
+
+/**
+ * Serialize JavaScript values into a Level 5 MAT-file
+ *
+ * Values are converted as follows:
+ * - numbers, number arrays and rectangular nested arrays become `double` arrays
+ * - typed arrays keep their class (`Int16Array` becomes `int16`, ...)
+ * - `bigint` becomes `int64` (or `uint64` above the int64 range)
+ * - booleans become `logical`, strings become `char`
+ * - objects become structs, arrays of objects become struct arrays
+ * - other arrays become cell arrays
+ * - `Date` becomes a datenum
+ * - values returned by {@link parseMatFile} are written back unchanged
+ *
+ * @param variables - Object mapping variable names to values
+ * @param options - MAT file options (`compress` defaults to true)
+ * @returns MAT-file contents
+ * @throws {MatlabError} If the requested version is not a Level 5 format
+ */
+export function serializeMatFile(
+  variables: Record<string, unknown>,
+  options?: MATFileOptions
+): Buffer {
+  const version = options?.version ?? '-v7';
+  if (version !== '-v7' && version !== '-v6') {
+    throw new MatlabError(`MAT-file version ${version} cannot be written`, {
+      suggestion: "Use the '-v7' or '-v6' version.",
+    });
+  }
+
+  const compress = options?.compress ?? version === '-v7';
+  if (compress && version === '-v6') {
+    throw new MatlabError('MAT-file version -v6 does not support compression');
+  }
+
+  const chunks: Buffer[] = [createHeader()];
+
+  for (const [name, value] of Object.entries(variables)) {
+    const matrix = encodeMatrix(sanitizeFieldName(name), toMatValue(value));
+
+    if (compress) {
+      const compressed = deflateSync(matrix);
+      const tag = Buffer.alloc(8);
+      writeUInt32(tag, MI.COMPRESSED, 0);
+      writeUInt32(tag, compressed.length, 4);
+      chunks.push(tag, compressed);
+    } else {
+      chunks.push(matrix);
+    }
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Write JavaScript values to a Level 5 MAT-file without launching MATLAB
+ *
+ * See {@link serializeMatFile} for how values are converted.
+ *
+ * @param path - Output path for the `.mat` file
+ * @param variables - Object mapping variable names to values
+ * @param options - MAT file options (`compress` defaults to true)
+ *
+ * @example
+ * ```typescript
+ * await writeMatFile('./input.mat', {
+ *   signal: new Float64Array(1_000_000),
+ *   labels: ['a', 'b'],
+ *   config: { rate: 44100 },
+ * });
+ * ```
+ */
+export async function writeMatFile(
+  path: string,
+  variables: Record<string, unknown>,
+  options?: MATFileOptions
+): Promise<void> {
+  await writeFile(path, serializeMatFile(variables, options));
+}
+
+/**
+ * Write variables to an uncompressed MAT-file in a new temporary directory
+ *
+ * Remove the file with `cleanupTempScript` once MATLAB has loaded it.
+ */
+export async function createTempMatFile(variables: Record<string, unknown>): Promise<string> {
+  const tempDir = await mkdtemp(join(tmpdir(), 'node-matlab-'));
+  const matPath = join(tempDir, 'data.mat');
+  await writeMatFile(matPath, variables, { compress: false });
+  return matPath;
+}
+
+/**
+ * Count the data elements in a JavaScript value
+ *
+ * Used to decide when a value is large enough to send through a MAT-file
+ * rather than as generated MATLAB code.
+ */
+export function countValueElements(value: unknown): number {
+  if (value instanceof MatlabArray) {
+    return value.numel;
+  }
+
+  if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+    return (value as unknown as ArrayLike<unknown>).length;
+  }
+
+  if (Array.isArray(value)) {
+    return value.reduce<number>((sum, item) => sum + countValueElements(item), 0);
+  }
+
+  if (isPlainObject(value)) {
+    return Object.values(value).reduce<number>((sum, item) => sum + countValueElements(item), 0);
+  }
+
+  return 1;
+}
+
+/**
+ * Check whether a value loads from a MAT-file with the same MATLAB class as
+ * the code generated for it by `convertToMatlab`
+ *
+ * Numbers, strings, rectangular numeric or logical arrays, typed arrays and
+ * structs of such values qualify. Dates (a datenum in a MAT-file, a datetime
+ * in code), `Complex` scalars and mixed or ragged arrays do not.
+ */
+export function hasMatFileForm(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+
+  if (['number', 'bigint', 'boolean', 'string'].includes(typeof value)) return true;
+
+  if (value instanceof MatlabArray) return true;
+
+  if (ArrayBuffer.isView(value) && !(value instanceof DataView)) return true;
+
+  if (Array.isArray(value)) {
+    return value.length === 0 || MatlabArray.shapeOf(value) !== null;
+  }
+
+  if (isPlainObject(value) && !(value instanceof Complex)) {
+    return Object.values(value).every(hasMatFileForm);
+  }
+
+  return false;
+}
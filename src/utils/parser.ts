@@ -3,7 +3,11 @@
  * @packageDocumentation
  */
 
+import { MatlabArray } from '../array.js';
+import { Complex } from '../complex.js';
 import { JSON_END_MARKER, JSON_START_MARKER } from '../types.js';
+import type { MatlabNumericClass } from '../types.js';
+import { convertToMatlab, isComplexArray, parseComplexNumber } from './converter.js';
 
 /**
  * Extract JSON data embedded in MATLAB output
@@ -73,6 +77,67 @@ export function parseMatrixOutput(output: string): number[][] {
   return matrix;
 }
 
+/**
+ * Parse MATLAB display output of an N-dimensional numeric array
+ *
+ * Handles the paged format MATLAB uses for arrays with more than two
+ * dimensions (`A(:,:,1) = ...`, `A(:,:,2) = ...`). Output without page
+ * headers is parsed as a single matrix.
+ *
+ * @returns Array in column-major order, or null if no numbers were found
+ */
+export function parseNDArrayOutput(output: string): MatlabArray | null {
+  const pages: Array<{ index: number[]; rows: number[][] }> = [];
+  let current: { index: number[]; rows: number[][] } | null = null;
+
+  for (const line of output.split('\n')) {
+    const header = line.match(/^\s*\w*\(:,\s*:,\s*([\d,\s]+)\)\s*=\s*$/);
+    if (header?.[1]) {
+      current = { index: header[1].split(',').map((n) => Number.parseInt(n, 10)), rows: [] };
+      pages.push(current);
+      continue;
+    }
+
+    const row = parseArrayString(line);
+    if (row.length === 0) continue;
+
+    if (!current) {
+      current = { index: [], rows: [] };
+      pages.push(current);
+    }
+    current.rows.push(row);
+  }
+
+  const first = pages[0];
+  if (!first || first.rows.length === 0) {
+    return null;
+  }
+
+  const rows = first.rows.length;
+  const cols = first.rows[0]?.length ?? 0;
+  const trailing = first.index.map((_, i) => Math.max(...pages.map((p) => p.index[i] ?? 1)));
+  const data: number[] = [];
+
+  // Pages are displayed in column-major order of their trailing subscripts
+  for (const page of pages) {
+    if (page.rows.length !== rows || page.rows.some((r) => r.length !== cols)) {
+      return null;
+    }
+    for (let c = 0; c < cols; c++) {
+      for (let r = 0; r < rows; r++) {
+        data.push(page.rows[r]?.[c] ?? 0);
+      }
+    }
+  }
+
+  const dims = [rows, cols, ...trailing];
+  if (data.length !== dims.reduce((a, b) => a * b, 1)) {
+    return null;
+  }
+
+  return new MatlabArray('double', dims, Float64Array.from(data));
+}
+
 /**
  * Parse MATLAB struct-like output
  */
@@ -170,7 +235,16 @@ export function parseString(output: string): string {
  */
 export function detectOutputType(
   output: string
-): 'scalar' | 'array' | 'matrix' | 'string' | 'struct' | 'cell' | 'logical' | 'unknown' {
+):
+  | 'scalar'
+  | 'complex'
+  | 'array'
+  | 'matrix'
+  | 'string'
+  | 'struct'
+  | 'cell'
+  | 'logical'
+  | 'unknown' {
   const trimmed = output.trim();
 
   // Check for logical
@@ -186,6 +260,11 @@ export function detectOutputType(
     return 'string';
   }
 
+  // Check for complex scalar (e.g. "3.0000 + 4.0000i")
+  if (parseComplexNumber(trimmed)) {
+    return 'complex';
+  }
+
   // Check for scalar
   if (
     /^[-+]?\d*\.?\d+(?:[eE][-+]?\d+)?[ij]?$/.test(trimmed) ||
@@ -227,6 +306,8 @@ export function autoParse(output: string): unknown {
   const type = detectOutputType(output);
 
   switch (type) {
+    case 'complex':
+      return parseComplexNumber(output.trim());
     case 'logical':
       return parseLogical(output);
     case 'scalar':
@@ -246,8 +327,41 @@ export function autoParse(output: string): unknown {
   }
 }
 
+/** Field holding the class of an array encoded by {@link generateArrayEncodingCode} */
+const ARRAY_CLASS_FIELD = 'nm_array_class';
+/** Field holding the dimensions of an encoded array */
+const ARRAY_DIMS_FIELD = 'nm_array_dims';
+/** Field holding the column-major data (real part) of an encoded array */
+const ARRAY_DATA_FIELD = 'nm_array_data';
+/** Field holding the column-major imaginary part of an encoded complex array */
+const ARRAY_IMAG_FIELD = 'nm_array_imag';
+
+/**
+ * Generate MATLAB code that replaces `target` with a class/dims/data struct
+ * when `name` is an array `jsonencode` would not round-trip: N-D numeric
+ * arrays, complex values (whose imaginary part `jsonencode` drops) and
+ * non-scalar arrays of classes other than double and logical
+ *
+ * @param target - Struct field to overwrite (e.g. `__nm_result__.x`)
+ * @param name - Variable to test
+ */
+export function generateArrayEncodingCode(target: string, name: string): string {
+  return [
+    `if (isnumeric(${name}) || islogical(${name})) && ~issparse(${name}) && (ndims(${name}) > 2 || ~isreal(${name}) || (~isscalar(${name}) && ~isa(${name}, 'double') && ~islogical(${name})))`,
+    `    ${target} = struct('${ARRAY_CLASS_FIELD}', class(${name}), '${ARRAY_DIMS_FIELD}', size(${name}), '${ARRAY_DATA_FIELD}', reshape(real(${name}), 1, []));`,
+    `    if ~isreal(${name})`,
+    `        ${target}.${ARRAY_IMAG_FIELD} = reshape(imag(${name}), 1, []);`,
+    '    end',
+    'end',
+  ].join('\n');
+}
+
 /**
  * Generate MATLAB code to wrap variables for JSON extraction
+ *
+ * N-D and integer/single arrays are encoded with their class and
+ * dimensions; use {@link decodeExtractedValues} to turn them back into
+ * {@link MatlabArray} instances.
  */
 export function generateJSONExtractionCode(variables: string[]): string {
   if (variables.length === 0) {
@@ -255,13 +369,88 @@ export function generateJSONExtractionCode(variables: string[]): string {
   }
 
   const structFields = variables.map((v) => `'${v}', ${v}`).join(', ');
+  const arrayCode = variables.map((v) => generateArrayEncodingCode(`__nm_result__.${v}`, v));
 
   return `
 __nm_result__ = struct(${structFields});
+${arrayCode.join('\n')}
+fprintf('${JSON_START_MARKER}%s${JSON_END_MARKER}', jsonencode(__nm_result__));
+`.trim();
+}
+
+/**
+ * Generate MATLAB code to extract values as a JSON array, in order
+ *
+ * Like {@link generateJSONExtractionCode}, but the values are collected in a
+ * cell so that cell-valued variables stay single elements. Use
+ * {@link decodeExtractedValue} on each element.
+ */
+export function generateJSONListExtractionCode(variables: string[]): string {
+  const arrayCode = variables.map((v, i) =>
+    generateArrayEncodingCode(`__nm_result__{${i + 1}}`, v)
+  );
+
+  return `
+__nm_result__ = {${variables.join(', ')}};
+${arrayCode.join('\n')}
 fprintf('${JSON_START_MARKER}%s${JSON_END_MARKER}', jsonencode(__nm_result__));
 `.trim();
 }
 
+/**
+ * Normalize encoded array data: jsonencode writes one-element arrays as
+ * scalars and NaN/Inf as null
+ */
+function encodedValues(data: unknown): Array<number | boolean> {
+  const values = Array.isArray(data) ? data : data === undefined ? [] : [data];
+  return values.map((v) => (v === null ? Number.NaN : (v as number | boolean)));
+}
+
+/**
+ * Decode a value encoded by {@link generateArrayEncodingCode}
+ *
+ * Arrays become {@link MatlabArray} instances; complex double or single
+ * scalars become {@link Complex} values. Other values are returned unchanged.
+ */
+export function decodeExtractedValue(value: unknown): unknown {
+  if (typeof value !== 'object' || value === null || !(ARRAY_CLASS_FIELD in value)) {
+    return value;
+  }
+
+  const encoded = value as Record<string, unknown>;
+  const dims = encoded[ARRAY_DIMS_FIELD];
+  if (!Array.isArray(dims)) {
+    return value;
+  }
+
+  const type = encoded[ARRAY_CLASS_FIELD] as MatlabNumericClass;
+  const real = encodedValues(encoded[ARRAY_DATA_FIELD]);
+  const imag = ARRAY_IMAG_FIELD in encoded ? encodedValues(encoded[ARRAY_IMAG_FIELD]) : null;
+
+  if (imag && real.length === 1 && (type === 'double' || type === 'single')) {
+    return new Complex(Number(real[0]), Number(imag[0]));
+  }
+
+  const imagPart = imag ? new MatlabArray(type, dims as number[]).real : undefined;
+  const result = new MatlabArray(type, dims as number[], undefined, imagPart);
+
+  real.forEach((v, i) => {
+    result.set(i, v, imag?.[i] as number | undefined);
+  });
+  return result;
+}
+
+/**
+ * Decode every variable in an object produced by {@link generateJSONExtractionCode}
+ */
+export function decodeExtractedValues<T extends Record<string, unknown>>(values: T): T {
+  const result: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(values)) {
+    result[name] = decodeExtractedValue(value);
+  }
+  return result as T;
+}
+
 /**
  * Generate MATLAB code to convert a JavaScript value to MATLAB
  */
@@ -285,9 +474,25 @@ export function jsToMatlabValue(value: unknown): string {
     return `'${value.replace(/'/g, "''")}'`;
   }
 
+  if (
+    typeof value === 'bigint' ||
+    value instanceof MatlabArray ||
+    value instanceof Complex ||
+    value instanceof Date ||
+    (ArrayBuffer.isView(value) && !(value instanceof DataView))
+  ) {
+    return convertToMatlab(value);
+  }
+
   if (Array.isArray(value)) {
     if (value.length === 0) return '[]';
 
+    // N-D or complex array
+    const dims = MatlabArray.shapeOf(value);
+    if (dims && (dims.length > 2 || isComplexArray(value))) {
+      return convertToMatlab(value);
+    }
+
     // Check if it's a 2D array (matrix)
     if (Array.isArray(value[0])) {
       const rows = value.map((row) => {
@@ -4,21 +4,89 @@
  */
 
 import { type ChildProcess, type SpawnOptions, spawn } from 'node:child_process';
-import { mkdtemp, unlink, writeFile } from 'node:fs/promises';
+import { mkdtemp, rm, unlink, writeFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
-import { MatlabAbortError, MatlabTimeoutError, parseError } from '../errors.js';
-import type { MatlabOptions, MatlabResult, ProcessState } from '../types.js';
+import {
+  MatlabAbortError,
+  MatlabTimeoutError,
+  fromMatlabException,
+  parseError,
+} from '../errors.js';
+import type { MatlabOptions, MatlabOutputStream, MatlabResult, ProcessState } from '../types.js';
+import { installHelpers } from './helpers.js';
+import { resolveLaunch } from './launch.js';
+import { createTempMatFile, hasMatFileForm } from './matfile.js';
+import { jsToMatlabValue } from './parser.js';
+import { extractException, toEvalStatement, wrapBatchCode } from './protocol.js';
+import { LineBuffer, parseProgressRecord, removeProgressRecords } from './stream.js';
+
+/**
+ * Receives the output of a MATLAB process line by line
+ */
+export interface OutputListener {
+  /** Called for each complete output line, without its terminator */
+  onLine(stream: MatlabOutputStream, line: string): void;
+  /** Called once the process has been spawned */
+  onSpawn?(child: ChildProcess): void;
+}
+
+/**
+ * Split a process's stdout and stderr into lines for `onProgress`,
+ * `onStructuredProgress` and an optional {@link OutputListener}
+ */
+function createLineHandler(options?: MatlabOptions, listener?: OutputListener) {
+  const buffers: Record<MatlabOutputStream, LineBuffer> = {
+    stdout: new LineBuffer(),
+    stderr: new LineBuffer(),
+  };
+
+  const emit = (stream: MatlabOutputStream, lines: string[]) => {
+    for (const line of lines) {
+      const progress = stream === 'stdout' ? parseProgressRecord(line) : null;
+      if (progress) {
+        options?.onStructuredProgress?.(progress);
+      } else if (stream === 'stdout' && options?.onProgress && line.trim()) {
+        options.onProgress(line);
+      }
+      listener?.onLine(stream, line);
+    }
+  };
+
+  return {
+    push: (stream: MatlabOutputStream, chunk: string) => emit(stream, buffers[stream].push(chunk)),
+    flush: () => {
+      emit('stdout', buffers.stdout.flush());
+      emit('stderr', buffers.stderr.flush());
+    },
+  };
+}
 
 /**
  * Build MATLAB command arguments
+ *
+ * @param scriptPath - Script to run
+ * @param options - Execution options
+ * @param inputPath - MAT-file to load into the workspace before the script runs
+ * @param helperDir - Directory with the node-matlab helper functions
  */
-export function buildMatlabArgs(scriptPath: string, options?: MatlabOptions): string[] {
-  const args: string[] = ['-nosplash', '-nodesktop', '-batch'];
+export function buildMatlabArgs(
+  scriptPath: string,
+  options?: MatlabOptions,
+  inputPath?: string,
+  helperDir?: string,
+  inputScriptPath?: string
+): string[] {
+  const args: string[] = [...resolveLaunch(options).args, '-nosplash', '-nodesktop', '-batch'];
 
   // Build the command string
   let command = '';
 
+  // Make helpers such as nm_progress available
+  if (helperDir) {
+    command += `addpath('${helperDir.replace(/'/g, "''")}'); `;
+  }
+
   // Add paths if specified
   if (options?.addPath && options.addPath.length > 0) {
     const pathCommands = options.addPath
@@ -27,10 +95,19 @@ export function buildMatlabArgs(scriptPath: string, options?: MatlabOptions): st
     command += `${pathCommands} `;
   }
 
+  // Load input variables
+  if (inputPath) {
+    command += `load('${inputPath.replace(/'/g, "''")}'); `;
+  }
+  if (inputScriptPath) {
+    command += `run('${inputScriptPath.replace(/'/g, "''")}'); `;
+  }
+
   // Add the main script execution
   command += `run('${scriptPath.replace(/'/g, "''")}');`;
 
-  args.push(command);
+  // Report failures as a structured MException
+  args.push(wrapBatchCode(command));
 
   return args;
 }
@@ -48,8 +125,9 @@ export function buildSpawnOptions(options?: MatlabOptions): SpawnOptions {
     spawnOpts.cwd = options.cwd;
   }
 
-  if (options?.env) {
-    spawnOpts.env = { ...process.env, ...options.env };
+  const { env } = resolveLaunch(options);
+  if (env) {
+    spawnOpts.env = env;
   }
 
   return spawnOpts;
@@ -80,16 +158,96 @@ export async function cleanupTempScript(scriptPath: string): Promise<void> {
   }
 }
 
+/**
+ * Create an empty temporary directory
+ */
+export async function createTempDir(): Promise<string> {
+  return mkdtemp(join(tmpdir(), 'node-matlab-'));
+}
+
+/**
+ * Remove a temporary directory and everything in it
+ */
+export async function cleanupTempDir(dirPath: string): Promise<void> {
+  try {
+    await rm(dirPath, { recursive: true, force: true });
+  } catch {
+    // Ignore cleanup errors - temp files will be cleaned up by OS eventually
+  }
+}
+
 /**
  * Execute MATLAB with the given script
+ *
+ * @param scriptPath - Script to run
+ * @param options - Execution options
+ * @param listener - Receives the output line by line while the script runs
  */
 export async function executeMatlabScript(
   scriptPath: string,
-  options?: MatlabOptions
+  options?: MatlabOptions,
+  listener?: OutputListener
+): Promise<MatlabResult> {
+  const helperDir = await installHelpers();
+  const { matFile, code } = splitInputVariables(options?.variables ?? {});
+
+  // Send input variables through a temporary MAT-file, and the values a
+  // MAT-file would change the class of through a generated script
+  const inputPath = Object.keys(matFile).length > 0 ? await createTempMatFile(matFile) : undefined;
+  const inputScriptPath = code ? await createTempScript(code) : undefined;
+
+  try {
+    return await spawnMatlabScript(
+      scriptPath,
+      options,
+      inputPath,
+      listener,
+      helperDir,
+      inputScriptPath
+    );
+  } finally {
+    if (inputPath) await cleanupTempScript(inputPath);
+    if (inputScriptPath) await cleanupTempScript(inputScriptPath);
+  }
+}
+
+/**
+ * Split input variables into those a MAT-file stores with the class of their
+ * generated code and MATLAB assignments for the rest
+ */
+function splitInputVariables(variables: Record<string, unknown>): {
+  matFile: Record<string, unknown>;
+  code: string;
+} {
+  const matFile: Record<string, unknown> = {};
+  const assignments: string[] = [];
+
+  for (const [name, value] of Object.entries(variables)) {
+    if (hasMatFileForm(value)) {
+      matFile[name] = value;
+    } else {
+      assignments.push(`${name} = ${jsToMatlabValue(value)};`);
+    }
+  }
+
+  return { matFile, code: assignments.join('\n') };
+}
+
+/**
+ * Spawn MATLAB to run a script file
+ */
+function spawnMatlabScript(
+  scriptPath: string,
+  options?: MatlabOptions,
+  inputPath?: string,
+  listener?: OutputListener,
+  helperDir?: string,
+  inputScriptPath?: string
 ): Promise<MatlabResult> {
   const startTime = Date.now();
-  const args = buildMatlabArgs(scriptPath, options);
+  const args = buildMatlabArgs(scriptPath, options, inputPath, helperDir, inputScriptPath);
   const spawnOpts = buildSpawnOptions(options);
+  const lines = createLineHandler(options, listener);
 
   return new Promise((resolve, reject) => {
     const state: ProcessState = {
@@ -97,8 +255,9 @@ export async function executeMatlabScript(
       startTime: new Date(),
     };
 
-    const matlabProcess: ChildProcess = spawn('matlab', args, spawnOpts);
+    const matlabProcess: ChildProcess = spawn(resolveLaunch(options).executable, args, spawnOpts);
     state.pid = matlabProcess.pid;
+    listener?.onSpawn?.(matlabProcess);
 
     let stdout = '';
     let stderr = '';
@@ -133,26 +292,22 @@ export async function executeMatlabScript(
       stdout += chunk;
       state.lastActivity = new Date();
 
-      // Call progress callback if provided
-      if (options?.onProgress) {
-        const lines = chunk.split('\n');
-        for (const line of lines) {
-          if (line.trim()) {
-            options.onProgress(line);
-          }
-        }
-      }
+      // Pass complete lines to the progress callback and listener
+      lines.push('stdout', chunk);
     });
 
     // Collect stderr
     matlabProcess.stderr?.on('data', (data: Buffer) => {
-      stderr += data.toString();
+      const chunk = data.toString();
+      stderr += chunk;
       state.lastActivity = new Date();
+      lines.push('stderr', chunk);
     });
 
     // Handle process completion
     matlabProcess.on('close', (code) => {
       state.running = false;
+      lines.flush();
 
       if (timeoutId) {
         clearTimeout(timeoutId);
@@ -166,11 +321,17 @@ export async function executeMatlabScript(
       }
 
       const exitCode = code ?? 0;
-      const output = stdout.trim();
+      const output = removeProgressRecords(stdout);
       const warnings = extractWarnings(stderr + stdout);
 
-      // Check for errors
-      if (exitCode !== 0 || stderr.toLowerCase().includes('error')) {
+      // Check for errors: prefer the structured MException, fall back to
+      // the output when MATLAB failed before the script ran
+      const exception = extractException(stderr);
+      if (exception) {
+        reject(fromMatlabException(exception, { exitCode }));
+        return;
+      }
+      if (exitCode !== 0) {
         const errorOutput = stderr || stdout;
         reject(parseError(errorOutput));
         return;
@@ -206,21 +367,30 @@ export async function executeMatlabCommand(
 ): Promise<MatlabResult> {
   const startTime = Date.now();
   const spawnOpts = buildSpawnOptions(options);
+  const lines = createLineHandler(options);
+  const helperDir = await installHelpers();
 
   // Build command with paths
-  let fullCommand = '';
+  let fullCommand = `addpath('${helperDir.replace(/'/g, "''")}'); `;
   if (options?.addPath && options.addPath.length > 0) {
     const pathCommands = options.addPath
       .map((p) => `addpath('${p.replace(/'/g, "''")}');`)
       .join(' ');
     fullCommand += `${pathCommands} `;
   }
-  fullCommand += command;
+  fullCommand += toEvalStatement(command);
 
-  const args: string[] = ['-nosplash', '-nodesktop', '-batch', fullCommand];
+  const launch = resolveLaunch(options);
+  const args: string[] = [
+    ...launch.args,
+    '-nosplash',
+    '-nodesktop',
+    '-batch',
+    wrapBatchCode(fullCommand),
+  ];
 
   return new Promise((resolve, reject) => {
-    const matlabProcess: ChildProcess = spawn('matlab', args, spawnOpts);
+    const matlabProcess: ChildProcess = spawn(launch.executable, args, spawnOpts);
 
     let stdout = '';
     let stderr = '';
@@ -252,15 +422,7 @@ export async function executeMatlabCommand(
     matlabProcess.stdout?.on('data', (data: Buffer) => {
       const chunk = data.toString();
       stdout += chunk;
-
-      if (options?.onProgress) {
-        const lines = chunk.split('\n');
-        for (const line of lines) {
-          if (line.trim()) {
-            options.onProgress(line);
-          }
-        }
-      }
+      lines.push('stdout', chunk);
     });
 
     matlabProcess.stderr?.on('data', (data: Buffer) => {
@@ -268,6 +430,7 @@ export async function executeMatlabCommand(
     });
 
     matlabProcess.on('close', (code) => {
+      lines.flush();
       if (timeoutId) {
         clearTimeout(timeoutId);
       }
@@ -280,10 +443,15 @@ export async function executeMatlabCommand(
       }
 
       const exitCode = code ?? 0;
-      const output = stdout.trim();
+      const output = removeProgressRecords(stdout);
       const warnings = extractWarnings(stderr + stdout);
 
-      if (exitCode !== 0 || stderr.toLowerCase().includes('error')) {
+      const exception = extractException(stderr);
+      if (exception) {
+        reject(fromMatlabException(exception, { exitCode }));
+        return;
+      }
+      if (exitCode !== 0) {
         const errorOutput = stderr || stdout;
         reject(parseError(errorOutput));
         return;
@@ -323,7 +491,7 @@ const WARNING_PATTERNS = [
  * Extract warnings from MATLAB output
  * Captures multiple warning formats and their context
  */
-function extractWarnings(output: string): string[] {
+export function extractWarnings(output: string): string[] {
   const warnings: string[] = [];
   const lines = output.split('\n');
   let inWarningBlock = false;
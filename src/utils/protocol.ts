@@ -0,0 +1,357 @@
+/**
+ * Wire protocol for session commands and batch error reporting
+ * @packageDocumentation
+ */
+
+import { randomBytes } from 'node:crypto';
+import type { MatlabExceptionData, MatlabStackFrame } from '../types.js';
+
+/**
+ * Markers around the MException printed to stderr by a batch run
+ */
+export const EXCEPTION_START_MARKER = '__NODE_MATLAB_EXCEPTION_START__';
+export const EXCEPTION_END_MARKER = '__NODE_MATLAB_EXCEPTION_END__';
+
+/**
+ * Markers around a callback request printed by the `nm_call` helper
+ */
+export const CALL_START_MARKER = '__NODE_MATLAB_CALL_START__';
+export const CALL_END_MARKER = '__NODE_MATLAB_CALL_END__';
+
+/**
+ * Exception as flattened by {@link generateExceptionEncodingCode}
+ */
+interface FlatException {
+  identifier?: string;
+  message?: string;
+  stack?: MatlabStackFrame | MatlabStackFrame[];
+  /** 1-based index of the exception this one is a cause of (0 for the root) */
+  parent?: number;
+}
+
+/**
+ * Callback request printed by the `nm_call` helper
+ */
+export interface CallRequest {
+  /** Name the callback was registered under */
+  name: string;
+  /** Arguments as encoded by `jsonencode`; decode with `decodeExtractedValue` */
+  args: unknown[];
+}
+
+/**
+ * Output of a single session command
+ */
+export interface CommandFrame {
+  /** Standard output printed by the command */
+  output: string;
+  /** Standard error printed by the command */
+  errorOutput: string;
+  /** Error thrown by the command, or null if it succeeded */
+  error: MatlabExceptionData | null;
+}
+
+/**
+ * Create an identifier for a session command
+ *
+ * Identifiers are random so output that happens to contain another command's
+ * sentinel cannot end it early.
+ */
+export function createCommandId(): string {
+  return randomBytes(8).toString('hex');
+}
+
+/**
+ * Sentinel printed before a command runs
+ */
+export function beginSentinel(id: string): string {
+  return `__NODE_MATLAB_BEGIN_${id}__`;
+}
+
+/**
+ * Sentinel printed after a command has finished, whether or not it failed
+ */
+export function endSentinel(id: string): string {
+  return `__NODE_MATLAB_END_${id}__`;
+}
+
+/**
+ * Prefix of the line carrying a command's serialized error
+ */
+export function errorSentinel(id: string): string {
+  return `__NODE_MATLAB_ERROR_${id}__`;
+}
+
+/**
+ * Generate a single MATLAB statement that evaluates code with `eval`
+ *
+ * Lines are passed as a cell array of char rows, so multi-line code fits on
+ * one line and syntax errors are raised when the statement runs rather than
+ * when it is parsed.
+ *
+ * @param code - MATLAB code
+ * @returns Statement terminated by a semicolon
+ */
+export function toEvalStatement(code: string): string {
+  const rows = code.split(/\r?\n/).map((line) => `'${line.replace(/'/g, "''")}'`);
+  return `eval(strjoin({${rows.join(', ')}}, newline));`;
+}
+
+/**
+ * Generate MATLAB code that serializes the caught MException in `__nm_err__`
+ * to JSON in `__nm_exc__`
+ *
+ * The cause tree is flattened breadth-first into a list where every entry
+ * records its parent, since code on the command line cannot recurse. Use
+ * {@link parseExceptionJSON} to rebuild it. The code fits on one line.
+ */
+export function generateExceptionEncodingCode(): string {
+  return [
+    '__nm_q__ = {__nm_err__}; __nm_par__ = 0; __nm_x__ = {};',
+    'while ~isempty(__nm_q__), __nm_e__ = __nm_q__{1}; __nm_q__(1) = [];',
+    "__nm_x__{end+1} = struct('identifier', __nm_e__.identifier, 'message', __nm_e__.message,",
+    "'stack', __nm_e__.stack, 'parent', __nm_par__(1)); __nm_par__(1) = [];",
+    '__nm_q__ = [__nm_q__, reshape(__nm_e__.cause, 1, [])];',
+    '__nm_par__ = [__nm_par__, repmat(numel(__nm_x__), 1, numel(__nm_e__.cause))]; end;',
+    '__nm_exc__ = jsonencode(__nm_x__); clear __nm_q__ __nm_par__ __nm_x__ __nm_e__;',
+  ].join(' ');
+}
+
+/**
+ * Rebuild an MException from the JSON written by
+ * {@link generateExceptionEncodingCode}
+ *
+ * @param json - Encoded exception list
+ * @returns The root exception with its causes, or null if the JSON is invalid
+ */
+export function parseExceptionJSON(json: string): MatlabExceptionData | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return null;
+  }
+
+  // jsonencode writes one-element arrays as objects
+  const flat = (Array.isArray(parsed) ? parsed : [parsed]) as FlatException[];
+  const exceptions = flat.map(
+    (entry): MatlabExceptionData => ({
+      identifier: entry?.identifier ?? '',
+      message: entry?.message ?? '',
+      stack: entry?.stack === undefined ? [] : ([] as MatlabStackFrame[]).concat(entry.stack),
+      cause: [],
+    })
+  );
+
+  flat.forEach((entry, i) => {
+    const parent = exceptions[(entry?.parent ?? 0) - 1];
+    const exception = exceptions[i];
+    if (parent && exception && i > 0) {
+      parent.cause.push(exception);
+    }
+  });
+
+  return exceptions[0] ?? null;
+}
+
+/**
+ * Wrap code for a batch run so a failure is reported as a structured
+ * MException on stderr, followed by exit code 1
+ *
+ * @param code - MATLAB statements to run, each terminated by a semicolon
+ * @returns Single-line MATLAB code
+ */
+export function wrapBatchCode(code: string): string {
+  return [
+    `try, ${code}`,
+    `catch __nm_err__, ${generateExceptionEncodingCode()}`,
+    `fprintf(2, '%s%s%s\\n', '${EXCEPTION_START_MARKER}', __nm_exc__, '${EXCEPTION_END_MARKER}');`,
+    'exit(1); end',
+  ].join(' ');
+}
+
+/**
+ * Extract the MException written by {@link wrapBatchCode}
+ *
+ * @param output - Standard error of the batch run
+ * @returns The exception, or null if none was reported
+ */
+export function extractException(output: string): MatlabExceptionData | null {
+  const startIndex = output.indexOf(EXCEPTION_START_MARKER);
+  const endIndex = output.indexOf(EXCEPTION_END_MARKER);
+
+  if (startIndex === -1 || endIndex <= startIndex) {
+    return null;
+  }
+
+  return parseExceptionJSON(output.slice(startIndex + EXCEPTION_START_MARKER.length, endIndex));
+}
+
+/**
+ * Wrap a command for the session protocol
+ *
+ * The command is run with `eval` inside `try/catch`, so syntax errors are
+ * caught as well. Begin and end sentinels are printed to both stdout and
+ * stderr; an error is printed to stdout as a JSON line with the identifier,
+ * message, stack and causes. The result is a single line of input.
+ *
+ * @param command - MATLAB code to run
+ * @param id - Command identifier from {@link createCommandId}
+ * @returns Line to write to MATLAB's stdin
+ */
+export function wrapCommand(command: string, id: string): string {
+  const begin = beginSentinel(id);
+  const end = endSentinel(id);
+  const error = errorSentinel(id);
+
+  return [
+    `fprintf('%s\\n', '${begin}'); fprintf(2, '%s\\n', '${begin}');`,
+    `try, ${toEvalStatement(command)}`,
+    `catch __nm_err__, ${generateExceptionEncodingCode()}`,
+    `fprintf('%s%s\\n', '${error}', __nm_exc__); end;`,
+    `clear __nm_err__ __nm_exc__; fprintf('%s\\n', '${end}'); fprintf(2, '%s\\n', '${end}');`,
+  ]
+    .join(' ')
+    .concat('\n');
+}
+
+/**
+ * Split one command's output from a stream buffer
+ *
+ * @param buffer - Output received so far
+ * @param id - Command identifier
+ * @returns The text between the command's sentinels and whatever follows the
+ *   end sentinel, or null if the command has not finished yet
+ */
+export function extractFrame(buffer: string, id: string): { body: string; rest: string } | null {
+  const end = endSentinel(id);
+  const endIndex = buffer.indexOf(end);
+  if (endIndex === -1) {
+    return null;
+  }
+
+  const begin = beginSentinel(id);
+  const beginIndex = buffer.lastIndexOf(begin, endIndex);
+  const bodyStart = beginIndex === -1 ? 0 : beginIndex + begin.length;
+
+  return {
+    body: buffer.slice(bodyStart, endIndex),
+    rest: buffer.slice(endIndex + end.length).replace(/^\r?\n/, ''),
+  };
+}
+
+/**
+ * Read the complete output lines a running command has printed since the
+ * last call
+ *
+ * Only text between the command's sentinels is considered, a trailing partial
+ * line is kept for the next call, and prompts and protocol lines are dropped.
+ *
+ * @param buffer - Stdout received so far
+ * @param id - Command identifier
+ * @param offset - Position returned by the previous call (0 initially)
+ * @returns New lines and the position to continue from
+ */
+export function readOutputLines(
+  buffer: string,
+  id: string,
+  offset: number
+): { lines: string[]; offset: number } {
+  const begin = beginSentinel(id);
+  const beginIndex = buffer.indexOf(begin);
+  if (beginIndex === -1) {
+    return { lines: [], offset };
+  }
+
+  const start = Math.max(beginIndex + begin.length, offset);
+  const endIndex = buffer.indexOf(endSentinel(id), start);
+  const limit = endIndex === -1 ? buffer.lastIndexOf('\n') + 1 : endIndex;
+  if (limit <= start) {
+    return { lines: [], offset };
+  }
+
+  const marker = errorSentinel(id);
+  const lines = buffer
+    .slice(start, limit)
+    .split(/\r?\n/)
+    .map((line) => line.replace(/^(>>\s*)+/, ''))
+    .filter((line) => line.trim() !== '' && !line.startsWith(marker));
+
+  return { lines, offset: limit };
+}
+
+/**
+ * Parse the stdout and stderr bodies of a finished command
+ *
+ * Callback requests printed by `nm_call` are left out of the output.
+ *
+ * @param output - Stdout between the command's sentinels
+ * @param errorOutput - Stderr between the command's sentinels
+ * @param id - Command identifier
+ */
+export function parseFrame(output: string, errorOutput: string, id: string): CommandFrame {
+  const marker = errorSentinel(id);
+  let error: MatlabExceptionData | null = null;
+
+  const lines = output.split(/\r?\n/).filter((line) => {
+    if (parseCallRequest(line)) {
+      return false;
+    }
+    if (!line.startsWith(marker)) {
+      return true;
+    }
+    error = parseExceptionJSON(line.slice(marker.length)) ?? {
+      identifier: '',
+      message: line.slice(marker.length),
+      stack: [],
+      cause: [],
+    };
+    return false;
+  });
+
+  return {
+    output: lines
+      .join('\n')
+      .replace(/^(>>\s*)+/gm, '')
+      .trim(),
+    errorOutput: errorOutput.replace(/^(>>\s*)+/gm, '').trim(),
+    error,
+  };
+}
+
+/**
+ * Parse a callback request printed by the `nm_call` helper
+ *
+ * @param line - Complete output line
+ * @returns The request, or null if the line is not a callback request
+ */
+export function parseCallRequest(line: string): CallRequest | null {
+  const startIndex = line.indexOf(CALL_START_MARKER);
+  const endIndex = line.lastIndexOf(CALL_END_MARKER);
+  if (startIndex === -1 || endIndex <= startIndex) {
+    return null;
+  }
+
+  try {
+    const request = JSON.parse(line.slice(startIndex + CALL_START_MARKER.length, endIndex));
+    if (typeof request?.name !== 'string') {
+      return null;
+    }
+    return { name: request.name, args: Array.isArray(request.args) ? request.args : [] };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Encode the answer to a callback request as one line for MATLAB's stdin
+ *
+ * `nm_call` evaluates `value` as MATLAB code, or raises `error` as a
+ * `node:callbackFailed` error.
+ *
+ * @param response - MATLAB code of the return value, or the error message
+ * @returns Line to write to MATLAB's stdin
+ */
+export function encodeCallResponse(response: { value: string } | { error: string }): string {
+  return `${JSON.stringify(response)}\n`;
+}
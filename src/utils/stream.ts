@@ -0,0 +1,278 @@
+/**
+ * Line buffering and async iteration of MATLAB output
+ * @packageDocumentation
+ */
+
+import type { MatlabOutputStream, MatlabProgress, MatlabStreamEvent } from '../types.js';
+import { EXCEPTION_START_MARKER, toEvalStatement } from './protocol.js';
+
+/**
+ * Prefix of the line printed when a figure is created during a stream
+ */
+export const FIGURE_CREATED_MARKER = '__NODE_MATLAB_FIGURE_CREATED__';
+
+/**
+ * Markers around a record printed by the `nm_progress` helper
+ */
+export const PROGRESS_START_MARKER = '__NODE_MATLAB_PROGRESS_START__';
+export const PROGRESS_END_MARKER = '__NODE_MATLAB_PROGRESS_END__';
+
+/**
+ * Events buffered before the producing process is paused
+ */
+const HIGH_WATER_MARK = 256;
+
+/**
+ * Split chunks of process output into complete lines
+ *
+ * A line cut across two chunks is returned once, when its terminator arrives.
+ *
+ * @example
+ * ```typescript
+ * const buffer = new LineBuffer();
+ * buffer.push('step 1\nst'); // ['step 1']
+ * buffer.push('ep 2\n');     // ['step 2']
+ * ```
+ */
+export class LineBuffer {
+  private partial = '';
+
+  /**
+   * Add a chunk and return the lines it completes
+   */
+  push(chunk: string): string[] {
+    const lines = (this.partial + chunk).split('\n');
+    this.partial = lines.pop() ?? '';
+    return lines.map((line) => line.replace(/\r$/, ''));
+  }
+
+  /**
+   * Return the unterminated last line, if any, once the output has ended
+   */
+  flush(): string[] {
+    const rest = this.partial.replace(/\r$/, '');
+    this.partial = '';
+    return rest ? [rest] : [];
+  }
+}
+
+/**
+ * Generate MATLAB code that reports every figure created while it runs
+ *
+ * A default `CreateFcn` prints {@link FIGURE_CREATED_MARKER} with the figure
+ * number. When `code` is given, it runs inside `try/catch` and the default is
+ * removed again afterwards; without it the default stays installed, which
+ * suits a batch process that exits after the script.
+ *
+ * @param code - MATLAB code to run
+ * @returns MATLAB code installing figure reporting (around `code`, if given)
+ */
+export function generateFigureWatchCode(code?: string): string {
+  const watch = `set(groot, 'defaultFigureCreateFcn', @(f, ~) fprintf('${FIGURE_CREATED_MARKER}%d\\n', f.Number));`;
+  if (code === undefined) {
+    return watch;
+  }
+
+  const unwatch = "set(groot, 'defaultFigureCreateFcn', 'remove');";
+  return [
+    watch,
+    `try, ${toEvalStatement(code)}`,
+    `catch __nm_stream_err__, ${unwatch} rethrow(__nm_stream_err__); end`,
+    unwatch,
+  ].join('\n');
+}
+
+/**
+ * Remove the lines printed by {@link generateFigureWatchCode} from output
+ */
+export function removeFigureMarkers(output: string): string {
+  return output
+    .split('\n')
+    .filter((line) => !line.startsWith(FIGURE_CREATED_MARKER))
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Parse a progress record printed by the `nm_progress` helper
+ *
+ * @param line - Complete output line
+ * @returns The record, or null if the line is not a progress record
+ */
+export function parseProgressRecord(line: string): MatlabProgress | null {
+  const startIndex = line.indexOf(PROGRESS_START_MARKER);
+  const endIndex = line.lastIndexOf(PROGRESS_END_MARKER);
+  if (startIndex === -1 || endIndex <= startIndex) {
+    return null;
+  }
+
+  try {
+    const record = JSON.parse(line.slice(startIndex + PROGRESS_START_MARKER.length, endIndex));
+    return { ...record, fraction: Number(record?.fraction) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove the records printed by the `nm_progress` helper from output
+ */
+export function removeProgressRecords(output: string): string {
+  return output
+    .split('\n')
+    .filter((line) => parseProgressRecord(line) === null)
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Convert an output line to stream events
+ *
+ * Protocol lines become `figure-created` and `progress` events or are dropped, and a
+ * `warning` event follows each line starting a MATLAB warning.
+ *
+ * @param stream - Stream the line was read from
+ * @param line - Complete output line
+ * @returns Events for the line (empty for blank and protocol lines)
+ */
+export function toStreamEvents(stream: MatlabOutputStream, line: string): MatlabStreamEvent[] {
+  if (line.startsWith(FIGURE_CREATED_MARKER)) {
+    const figure = Number.parseInt(line.slice(FIGURE_CREATED_MARKER.length), 10);
+    return [{ type: 'figure-created', figure: Number.isNaN(figure) ? null : figure }];
+  }
+  const progress = parseProgressRecord(line);
+  if (progress) {
+    return [{ type: 'progress', progress }];
+  }
+  if (line.trim() === '' || line.includes(EXCEPTION_START_MARKER)) {
+    return [];
+  }
+
+  const events: MatlabStreamEvent[] = [{ type: stream, line }];
+  const warning = line.match(/^\s*Warning:\s*(.*)$/);
+  if (warning) {
+    events.push({ type: 'warning', message: warning[1] ?? '' });
+  }
+  return events;
+}
+
+/**
+ * Callbacks connecting an {@link EventChannel} to its producer
+ */
+export interface EventChannelHooks {
+  /** Stop reading output; called when too many events are buffered */
+  pause?: () => void;
+  /** Continue reading output */
+  resume?: () => void;
+  /** The consumer stopped iterating before the channel was closed */
+  cancel?: () => void;
+}
+
+/**
+ * Single-consumer async queue of events
+ *
+ * The producer pushes events and closes the channel, optionally with an error
+ * that the consumer's loop then throws. When more than a fixed number of
+ * events are waiting, the producer is paused until the consumer catches up.
+ */
+export class EventChannel<T> implements AsyncIterableIterator<T> {
+  private buffer: T[] = [];
+  private waiting: {
+    resolve: (result: IteratorResult<T>) => void;
+    reject: (error: unknown) => void;
+  } | null = null;
+  private closed = false;
+  private error: unknown = undefined;
+  private paused = false;
+
+  constructor(private readonly hooks: EventChannelHooks = {}) {}
+
+  /**
+   * Queue an event (ignored once the channel is closed)
+   */
+  push(event: T): void {
+    if (this.closed) return;
+
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve({ value: event, done: false });
+      return;
+    }
+
+    this.buffer.push(event);
+    if (this.buffer.length >= HIGH_WATER_MARK) {
+      this.setPaused(true);
+    }
+  }
+
+  /**
+   * End the stream after the buffered events
+   *
+   * @param error - Error to throw from the consumer's loop
+   */
+  close(error?: unknown): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.error = error;
+    this.setPaused(false);
+
+    if (this.waiting && this.buffer.length === 0) {
+      const { resolve, reject } = this.waiting;
+      this.waiting = null;
+      this.error = undefined;
+      if (error === undefined) {
+        resolve({ value: undefined, done: true });
+      } else {
+        reject(error);
+      }
+    }
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this.buffer.length > 0) {
+      const value = this.buffer.shift() as T;
+      if (this.buffer.length <= HIGH_WATER_MARK / 2) {
+        this.setPaused(false);
+      }
+      return Promise.resolve({ value, done: false });
+    }
+
+    if (this.closed) {
+      const error = this.error;
+      this.error = undefined;
+      return error === undefined
+        ? Promise.resolve({ value: undefined, done: true })
+        : Promise.reject(error);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  return(): Promise<IteratorResult<T>> {
+    if (!this.closed) {
+      this.closed = true;
+      this.hooks.cancel?.();
+    }
+    this.buffer = [];
+    this.error = undefined;
+    this.setPaused(false);
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    return this;
+  }
+
+  private setPaused(paused: boolean): void {
+    if (this.paused === paused) return;
+    this.paused = paused;
+    if (paused) {
+      this.hooks.pause?.();
+    } else {
+      this.hooks.resume?.();
+    }
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * Binary variable transfer between MATLAB and Node.js
+ * @packageDocumentation
+ */
+
+import { readFile } from 'node:fs/promises';
+import { endianness } from 'node:os';
+import { join } from 'node:path';
+import { MatlabArray } from '../array.js';
+import { MatlabError } from '../errors.js';
+import { JSON_END_MARKER, JSON_START_MARKER } from '../types.js';
+import type {
+  MatTypedArray,
+  MatlabDataType,
+  MatlabNumericClass,
+  VariableTransferOptions,
+} from '../types.js';
+import { generateArrayEncodingCode } from './parser.js';
+
+/**
+ * Magic bytes at the start of every binary variable file
+ *
+ * File layout (little-endian):
+ * - 4 bytes: magic `NMB1`
+ * - uint8: length of the class name, followed by the class name (ASCII)
+ * - uint8: 1 if the array is complex
+ * - uint32: number of dimensions, followed by one uint64 per dimension
+ * - real part in column-major order, then the imaginary part if complex
+ */
+export const BINARY_MAGIC = 'NMB1';
+
+/** Default minimum element count for binary transfer in 'auto' mode */
+export const DEFAULT_BINARY_THRESHOLD = 10000;
+
+/**
+ * Typed array constructors for each class that can be transferred
+ */
+const TYPED_ARRAYS: Partial<
+  Record<MatlabDataType, { BYTES_PER_ELEMENT: number; new (buffer: ArrayBuffer): MatTypedArray }>
+> = {
+  double: Float64Array,
+  single: Float32Array,
+  int8: Int8Array,
+  uint8: Uint8Array,
+  int16: Int16Array,
+  uint16: Uint16Array,
+  int32: Int32Array,
+  uint32: Uint32Array,
+  int64: BigInt64Array,
+  uint64: BigUint64Array,
+  logical: Uint8Array,
+};
+
+/**
+ * Resolve the minimum element count for binary transfer
+ *
+ * @returns Element threshold, or null when every variable should use JSON
+ */
+export function resolveBinaryThreshold(options?: VariableTransferOptions): number | null {
+  const mode = options?.transfer ?? (options?.binaryThreshold !== undefined ? 'auto' : 'json');
+
+  switch (mode) {
+    case 'binary':
+      return 0;
+    case 'auto':
+      return Math.max(0, options?.binaryThreshold ?? DEFAULT_BINARY_THRESHOLD);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Get the path of the binary file for a variable
+ */
+export function getBinaryVariablePath(outputDir: string, name: string): string {
+  return join(outputDir, `${name}.bin`);
+}
+
+/**
+ * Escape path for use in MATLAB string
+ */
+function escapePath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/'/g, "''");
+}
+
+/**
+ * Generate MATLAB code that extracts variables, writing large numeric arrays
+ * to binary files and the rest as JSON
+ *
+ * Numeric and logical (non-sparse) arrays with at least `threshold` elements
+ * are written to `<outputDir>/<name>.bin`. All other variables are emitted as
+ * a JSON object between the usual markers.
+ *
+ * @param variables - Variable names to extract
+ * @param outputDir - Directory for binary files
+ * @param threshold - Minimum element count for binary transfer
+ */
+export function generateBinaryExtractionCode(
+  variables: string[],
+  outputDir: string,
+  threshold: number
+): string {
+  if (variables.length === 0) {
+    return '';
+  }
+
+  const lines: string[] = ['__nm_json__ = struct();'];
+
+  for (const name of variables) {
+    const filePath = escapePath(getBinaryVariablePath(outputDir, name));
+    lines.push(
+      `if (isnumeric(${name}) || islogical(${name})) && ~issparse(${name}) && numel(${name}) >= ${threshold}`,
+      `    __nm_fid__ = fopen('${filePath}', 'w', 'ieee-le');`,
+      `    __nm_cls__ = class(${name});`,
+      `    __nm_prec__ = strrep(__nm_cls__, 'logical', 'uint8');`,
+      `    fwrite(__nm_fid__, ['${BINARY_MAGIC}', char(length(__nm_cls__)), __nm_cls__], 'uint8');`,
+      `    fwrite(__nm_fid__, ~isreal(${name}), 'uint8');`,
+      `    fwrite(__nm_fid__, ndims(${name}), 'uint32');`,
+      `    fwrite(__nm_fid__, size(${name}), 'uint64');`,
+      `    if isreal(${name})`,
+      `        fwrite(__nm_fid__, ${name}, __nm_prec__);`,
+      `    else`,
+      `        fwrite(__nm_fid__, real(${name}), __nm_prec__);`,
+      `        fwrite(__nm_fid__, imag(${name}), __nm_prec__);`,
+      `    end`,
+      `    fclose(__nm_fid__);`,
+      `else`,
+      `    __nm_json__.${name} = ${name};`,
+      generateArrayEncodingCode(`__nm_json__.${name}`, name),
+      `end`
+    );
+  }
+
+  lines.push(
+    `fprintf('${JSON_START_MARKER}%s${JSON_END_MARKER}', jsonencode(__nm_json__));`,
+    `clear __nm_json__ __nm_fid__ __nm_cls__ __nm_prec__;`
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Copy a byte range into a new typed array of the given class
+ */
+function readTypedArray(
+  bytes: Uint8Array,
+  offset: number,
+  count: number,
+  type: MatlabDataType
+): MatTypedArray {
+  const Ctor = TYPED_ARRAYS[type];
+  if (!Ctor) {
+    throw new MatlabError(`Unsupported class in binary variable: ${type}`);
+  }
+
+  const byteLength = count * Ctor.BYTES_PER_ELEMENT;
+  if (offset + byteLength > bytes.byteLength) {
+    throw new MatlabError('Binary variable data is truncated');
+  }
+
+  // Copy into a fresh, aligned buffer (Buffer.alloc never uses the shared pool)
+  const copy = Buffer.alloc(byteLength);
+  copy.set(bytes.subarray(offset, offset + byteLength));
+
+  // Data is always little-endian on disk
+  if (endianness() === 'BE') {
+    if (Ctor.BYTES_PER_ELEMENT === 2) copy.swap16();
+    else if (Ctor.BYTES_PER_ELEMENT === 4) copy.swap32();
+    else if (Ctor.BYTES_PER_ELEMENT === 8) copy.swap64();
+  }
+
+  return new Ctor(copy.buffer);
+}
+
+/**
+ * Parse the contents of a binary variable file
+ *
+ * @param buffer - File contents
+ * @returns Numeric array with its class and dimensions
+ * @throws {MatlabError} If the data is not a binary variable file
+ */
+export function parseBinaryVariable(buffer: Uint8Array): MatlabArray {
+  const bytes = Buffer.from(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+
+  if (bytes.byteLength < 6 || bytes.toString('latin1', 0, 4) !== BINARY_MAGIC) {
+    throw new MatlabError('Invalid binary variable data: missing header');
+  }
+
+  let offset = 4;
+  const classLength = bytes.readUInt8(offset);
+  offset += 1;
+  const type = bytes.toString('latin1', offset, offset + classLength) as MatlabDataType;
+  offset += classLength;
+  const complex = bytes.readUInt8(offset) === 1;
+  offset += 1;
+  const ndims = bytes.readUInt32LE(offset);
+  offset += 4;
+
+  const dims: number[] = [];
+  for (let i = 0; i < ndims; i++) {
+    dims.push(Number(bytes.readBigUInt64LE(offset)));
+    offset += 8;
+  }
+
+  const count = dims.reduce((a, b) => a * b, 1);
+  const real = readTypedArray(bytes, offset, count, type);
+  const imag = complex ? readTypedArray(bytes, offset + real.byteLength, count, type) : undefined;
+
+  return new MatlabArray(type as MatlabNumericClass, dims, real, imag);
+}
+
+/**
+ * Read the binary files written by {@link generateBinaryExtractionCode}
+ *
+ * Variables that were sent as JSON have no file and are skipped.
+ *
+ * @param outputDir - Directory the binary files were written to
+ * @param variables - Variable names that were extracted
+ * @returns Object mapping variable names to numeric arrays
+ */
+export async function readBinaryVariables(
+  outputDir: string,
+  variables: string[]
+): Promise<Record<string, MatlabArray>> {
+  const result: Record<string, MatlabArray> = {};
+
+  for (const name of variables) {
+    let contents: Buffer;
+    try {
+      contents = await readFile(getBinaryVariablePath(outputDir, name));
+    } catch {
+      continue;
+    }
+    result[name] = parseBinaryVariable(contents);
+  }
+
+  return result;
+}
@@ -3,60 +3,96 @@
  * @packageDocumentation
  */
 
-import { execSync } from 'node:child_process';
+import { execFileSync } from 'node:child_process';
+import { existsSync, readFileSync, readdirSync, realpathSync, statSync } from 'node:fs';
+import { basename, delimiter, dirname, join, resolve as resolvePath } from 'node:path';
 import { MatlabNotInstalledError } from '../errors.js';
-import type { MatlabVersion, Toolbox } from '../types.js';
+import type { MatlabInstallation, MatlabLaunchOptions, MatlabVersion, Toolbox } from '../types.js';
+import { resolveLaunch } from './launch.js';
 
 /** Minimum supported MATLAB version (R2019a = 9.6) */
 const MIN_VERSION = 9.06;
 
-/** Cache for MATLAB installation status */
-let installationCache: { installed: boolean; path?: string; checkedAt?: number } | null = null;
+/** Cache for MATLAB installation status, keyed by executable */
+const installationCache = new Map<
+  string,
+  { installed: boolean; path?: string; checkedAt: number }
+>();
 const CACHE_TTL = 60000; // 1 minute
 
 /**
- * Check if MATLAB is installed and available in PATH
+ * Check if MATLAB is installed and available
+ *
+ * @param options - Launch options selecting the executable (default: the configured one)
  */
-export function isInstalled(): boolean {
+export function isInstalled(options?: MatlabLaunchOptions): boolean {
   const now = Date.now();
+  const { executable } = resolveLaunch(options);
 
   // Use cached result if available and not expired
-  if (installationCache?.checkedAt && now - installationCache.checkedAt < CACHE_TTL) {
-    return installationCache.installed;
+  const cached = installationCache.get(executable);
+  if (cached && now - cached.checkedAt < CACHE_TTL) {
+    return cached.installed;
+  }
+
+  // A path is checked directly, a bare name is looked up in the PATH
+  if (executable.includes('/') || executable.includes('\\')) {
+    const installed = existsSync(executable) && statSync(executable).isFile();
+    installationCache.set(executable, {
+      installed,
+      path: installed ? executable : undefined,
+      checkedAt: now,
+    });
+    return installed;
   }
 
   try {
     // Use platform-specific command to find MATLAB
-    const cmd = process.platform === 'win32' ? 'where matlab' : 'which matlab';
-    const result = execSync(cmd, {
+    const cmd = process.platform === 'win32' ? 'where' : 'which';
+    const result = execFileSync(cmd, [executable], {
       encoding: 'utf-8',
       stdio: ['pipe', 'pipe', 'pipe'],
       timeout: 5000,
     });
 
-    installationCache = {
+    installationCache.set(executable, {
       installed: true,
       path: result.trim().split('\n')[0],
       checkedAt: now,
-    };
+    });
     return true;
   } catch {
-    installationCache = {
+    installationCache.set(executable, {
       installed: false,
       checkedAt: now,
-    };
+    });
     return false;
   }
 }
 
 /**
  * Get the path to MATLAB executable
+ *
+ * @param options - Launch options selecting the executable (default: the configured one)
  */
-export function getMatlabPath(): string | null {
-  if (!isInstalled()) {
+export function getMatlabPath(options?: MatlabLaunchOptions): string | null {
+  if (!isInstalled(options)) {
     return null;
   }
-  return installationCache?.path ?? null;
+  return installationCache.get(resolveLaunch(options).executable)?.path ?? null;
+}
+
+/**
+ * Run a MATLAB statement in batch mode and return its output
+ */
+function runBatch(statement: string, timeout: number, options?: MatlabLaunchOptions): string {
+  const launch = resolveLaunch(options);
+  return execFileSync(launch.executable, [...launch.args, '-batch', statement], {
+    encoding: 'utf-8',
+    timeout,
+    stdio: ['pipe', 'pipe', 'pipe'],
+    env: launch.env,
+  });
 }
 
 /**
@@ -90,20 +126,18 @@ export function parseVersionString(output: string): MatlabVersion | null {
 
 /**
  * Get MATLAB version information
+ *
+ * @param options - Launch options selecting the executable (default: the configured one)
  * @throws {MatlabNotInstalledError} If MATLAB is not installed
  */
-export async function getVersion(): Promise<MatlabVersion> {
-  if (!isInstalled()) {
+export async function getVersion(options?: MatlabLaunchOptions): Promise<MatlabVersion> {
+  if (!isInstalled(options)) {
     throw new MatlabNotInstalledError();
   }
 
   return new Promise((resolve, reject) => {
     try {
-      const output = execSync('matlab -batch "disp(version)"', {
-        encoding: 'utf-8',
-        timeout: 30000,
-        stdio: ['pipe', 'pipe', 'pipe'],
-      });
+      const output = runBatch('disp(version)', 30000, options);
 
       const parsed = parseVersionString(output);
       if (parsed) {
@@ -149,10 +183,12 @@ export function isVersionSupported(version: MatlabVersion): boolean {
 
 /**
  * Validate MATLAB installation and version
+ *
+ * @param options - Launch options selecting the executable (default: the configured one)
  * @throws {MatlabNotInstalledError} If MATLAB is not installed or version is too old
  */
-export async function validateInstallation(): Promise<MatlabVersion> {
-  const version = await getVersion();
+export async function validateInstallation(options?: MatlabLaunchOptions): Promise<MatlabVersion> {
+  const version = await getVersion(options);
 
   if (!isVersionSupported(version)) {
     throw new MatlabNotInstalledError(
@@ -188,20 +224,18 @@ export function parseToolboxList(output: string): Toolbox[] {
 
 /**
  * Get list of installed MATLAB toolboxes
+ *
+ * @param options - Launch options selecting the executable (default: the configured one)
  * @throws {MatlabNotInstalledError} If MATLAB is not installed
  */
-export async function getInstalledToolboxes(): Promise<Toolbox[]> {
-  if (!isInstalled()) {
+export async function getInstalledToolboxes(options?: MatlabLaunchOptions): Promise<Toolbox[]> {
+  if (!isInstalled(options)) {
     throw new MatlabNotInstalledError();
   }
 
   return new Promise((resolve, reject) => {
     try {
-      const output = execSync('matlab -batch "ver"', {
-        encoding: 'utf-8',
-        timeout: 60000,
-        stdio: ['pipe', 'pipe', 'pipe'],
-      });
+      const output = runBatch('ver', 60000, options);
 
       resolve(parseToolboxList(output));
     } catch (error) {
@@ -216,20 +250,18 @@ export async function getInstalledToolboxes(): Promise<Toolbox[]> {
 
 /**
  * Get MATLAB root directory
+ *
+ * @param options - Launch options selecting the executable (default: the configured one)
  * @throws {MatlabNotInstalledError} If MATLAB is not installed
  */
-export async function getMatlabRoot(): Promise<string> {
-  if (!isInstalled()) {
+export async function getMatlabRoot(options?: MatlabLaunchOptions): Promise<string> {
+  if (!isInstalled(options)) {
     throw new MatlabNotInstalledError();
   }
 
   return new Promise((resolve, reject) => {
     try {
-      const output = execSync('matlab -batch "disp(matlabroot)"', {
-        encoding: 'utf-8',
-        timeout: 30000,
-        stdio: ['pipe', 'pipe', 'pipe'],
-      });
+      const output = runBatch('disp(matlabroot)', 30000, options);
 
       const root = output.trim().split('\n').pop()?.trim();
       if (root) {
@@ -251,5 +283,257 @@ export async function getMatlabRoot(): Promise<string> {
  * Clear the installation cache
  */
 export function clearCache(): void {
-  installationCache = null;
+  installationCache.clear();
+}
+
+/**
+ * Directories that contain one folder per MATLAB release on this platform
+ */
+export function getDefaultInstallDirs(): string[] {
+  switch (process.platform) {
+    case 'win32':
+      return [join(process.env.ProgramFiles ?? 'C:\\Program Files', 'MATLAB')];
+    case 'darwin':
+      return ['/Applications'];
+    default:
+      return ['/usr/local/MATLAB', '/opt/MATLAB'];
+  }
+}
+
+/**
+ * Release name in an installation folder name (`R2023a`, `MATLAB_R2023a.app`)
+ */
+function releaseFromName(name: string): string | null {
+  const match = name.match(/R(\d{4})([ab])/i);
+  return match ? `R${match[1]}${match[2]?.toLowerCase()}` : null;
+}
+
+/**
+ * Parse the `VersionInfo.xml` file at the root of a MATLAB installation
+ *
+ * @param xml - File contents
+ * @returns Version and release, or null if the file has no version
+ */
+export function parseVersionInfo(xml: string): MatlabVersion | null {
+  const version = xml.match(/<version>\s*([\d.]+)\s*<\/version>/)?.[1];
+  if (!version) {
+    return null;
+  }
+  const release = releaseFromName(xml.match(/<release>([^<]*)<\/release>/)?.[1] ?? '') ?? 'Unknown';
+  return { version, release, full: `${version} (${release})` };
+}
+
+/**
+ * Describe the installation at a MATLAB root, if it has an executable
+ */
+function inspectRoot(root: string): MatlabInstallation | null {
+  const executable = join(root, 'bin', process.platform === 'win32' ? 'matlab.exe' : 'matlab');
+  if (!existsSync(executable)) {
+    return null;
+  }
+
+  let info: MatlabVersion | null = null;
+  try {
+    info = parseVersionInfo(readFileSync(join(root, 'VersionInfo.xml'), 'utf-8'));
+  } catch {
+    // Older or partial installs have no VersionInfo.xml; fall back to the folder name
+  }
+
+  return {
+    root,
+    executable,
+    release:
+      info && info.release !== 'Unknown'
+        ? info.release
+        : (releaseFromName(basename(root)) ?? 'Unknown'),
+    version: info?.version ?? 'Unknown',
+  };
+}
+
+/**
+ * MATLAB roots of the `matlab` executables on the PATH
+ *
+ * The PATH entry is usually a symlink (e.g. `/usr/local/bin/matlab`), so the
+ * link is resolved before stepping up from `bin/`.
+ */
+function findRootsOnPath(): string[] {
+  const name = process.platform === 'win32' ? 'matlab.exe' : 'matlab';
+  const roots: string[] = [];
+  for (const dir of (process.env.PATH ?? '').split(delimiter)) {
+    if (!dir) {
+      continue;
+    }
+    try {
+      const executable = realpathSync(join(dir, name));
+      if (basename(dirname(executable)) === 'bin') {
+        roots.push(dirname(dirname(executable)));
+      }
+    } catch {
+      // Not in this directory
+    }
+  }
+  return roots;
+}
+
+/**
+ * Read the version of the configured MATLAB from its `VersionInfo.xml`
+ * without launching it
+ *
+ * @param options - Launch options selecting the executable (default: the configured one)
+ * @returns Version, or null if the installation could not be located
+ */
+export function readInstalledVersion(options?: MatlabLaunchOptions): MatlabVersion | null {
+  const { executable } = resolveLaunch(options);
+  let roots: string[];
+  if (executable.includes('/') || executable.includes('\\')) {
+    try {
+      roots = [dirname(dirname(realpathSync(executable)))];
+    } catch {
+      return null;
+    }
+  } else {
+    roots = findRootsOnPath();
+  }
+
+  for (const root of roots) {
+    try {
+      const version = parseVersionInfo(readFileSync(join(root, 'VersionInfo.xml'), 'utf-8'));
+      if (version) {
+        return version;
+      }
+    } catch {
+      // No VersionInfo.xml in this installation
+    }
+  }
+  return null;
+}
+
+/**
+ * Find MATLAB installations on disk without launching MATLAB
+ *
+ * Looks at `MATLAB_ROOT`, at every release folder in the standard install
+ * directories (`/usr/local/MATLAB/R*` and `/opt/MATLAB/R*` on Linux,
+ * `/Applications/MATLAB_R*.app` on macOS, `C:\Program Files\MATLAB\R*` on
+ * Windows) and at the `matlab` executables on the PATH. The version is read
+ * from each installation's `VersionInfo.xml`.
+ *
+ * @param installDirs - Directories to scan for release folders
+ * @returns Installations, newest release first
+ *
+ * @example
+ * ```typescript
+ * const [latest] = findInstallations();
+ * configure({ executable: latest.executable });
+ * ```
+ */
+export function findInstallations(installDirs = getDefaultInstallDirs()): MatlabInstallation[] {
+  const roots: string[] = [];
+  if (process.env.MATLAB_ROOT) {
+    roots.push(process.env.MATLAB_ROOT);
+  }
+
+  for (const dir of installDirs) {
+    let entries: string[];
+    try {
+      entries = readdirSync(dir);
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      if (releaseFromName(entry)) {
+        roots.push(join(dir, entry));
+      }
+    }
+  }
+
+  roots.push(...findRootsOnPath());
+
+  const installations = new Map<string, MatlabInstallation>();
+  for (const root of roots) {
+    const key = resolvePath(root);
+    const installation = installations.has(key) ? null : inspectRoot(root);
+    if (installation) {
+      installations.set(key, installation);
+    }
+  }
+
+  return [...installations.values()].sort((a, b) => compareReleases(b.release, a.release));
+}
+
+/**
+ * Sortable number for a release name, or -1 if it is not one
+ */
+function releaseRank(release: string): number {
+  const match = release.trim().match(/^R(\d{4})([ab])$/i);
+  if (!match?.[1] || !match[2]) {
+    return -1;
+  }
+  return Number(match[1]) * 2 + (match[2].toLowerCase() === 'b' ? 1 : 0);
+}
+
+/**
+ * Compare two release names chronologically
+ *
+ * Names that are not releases (such as "Unknown") sort before every release.
+ *
+ * @returns Negative if `a` is older than `b`, positive if newer, 0 if the same
+ */
+export function compareReleases(a: string, b: string): number {
+  return releaseRank(a) - releaseRank(b);
+}
+
+/**
+ * Check whether a release satisfies a semver-like range
+ *
+ * A range is a list of comparators (`>=R2023a`, `<R2025a`, `R2024b`) that must
+ * all hold, `R2022b - R2024a` for an inclusive span, and `||` between
+ * alternatives. `*` or an empty range matches every release.
+ *
+ * @param release - Release name (e.g., "R2023b")
+ * @param range - Release range (e.g., ">=R2023a <R2025a")
+ * @throws {Error} If the range cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * satisfiesRelease('R2023b', '>=R2023a'); // true
+ * satisfiesRelease('R2022b', 'R2023a - R2024b || R2019b'); // false
+ * ```
+ */
+export function satisfiesRelease(release: string, range: string): boolean {
+  const rank = releaseRank(release);
+
+  return range.split('||').some((alternative) => {
+    // '>= R2023a' is the same comparator as '>=R2023a'
+    const trimmed = alternative.trim().replace(/(>=|<=|>|<|=)\s+/g, '$1');
+    const span = trimmed.split(/\s+-\s+/);
+    const comparators = span.length === 2 ? [`>=${span[0]}`, `<=${span[1]}`] : trimmed.split(/\s+/);
+
+    return comparators.every((comparator) => {
+      if (comparator === '' || comparator === '*') {
+        return true;
+      }
+
+      const match = comparator.match(/^(>=|<=|>|<|=)?(R\d{4}[ab])$/i);
+      if (!match?.[2]) {
+        throw new Error(`Invalid release range "${range}"`);
+      }
+      if (rank < 0) {
+        return false;
+      }
+
+      const diff = rank - releaseRank(match[2]);
+      switch (match[1]) {
+        case '>=':
+          return diff >= 0;
+        case '<=':
+          return diff <= 0;
+        case '>':
+          return diff > 0;
+        case '<':
+          return diff < 0;
+        default:
+          return diff === 0;
+      }
+    });
+  });
 }
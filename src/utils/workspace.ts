@@ -0,0 +1,165 @@
+/**
+ * Workspace introspection and snapshot utilities
+ * @packageDocumentation
+ */
+
+import { MatlabError } from '../errors.js';
+import { JSON_END_MARKER, JSON_START_MARKER } from '../types.js';
+import type { VariableInfo } from '../types.js';
+import { isValidMatlabName } from './converter.js';
+import { toMatlabDataType } from './envelope.js';
+
+/**
+ * Prefix of temporary variables created by node-matlab helper code
+ */
+const INTERNAL_PREFIX = '__nm_';
+
+/**
+ * Entry of the struct array returned by `whos`
+ */
+interface WhosEntry {
+  name: string;
+  size: number[] | number;
+  bytes: number;
+  class: string;
+  global: boolean;
+  sparse: boolean;
+  complex: boolean;
+  persistent: boolean;
+}
+
+/**
+ * Throw if a name cannot be used as a MATLAB variable name
+ *
+ * @param name - Variable name to check
+ * @throws {MatlabError} If the name is not a valid identifier
+ */
+export function assertVariableName(name: string): void {
+  if (!isValidMatlabName(name)) {
+    throw new MatlabError(`Invalid MATLAB variable name: ${name}`, { command: name });
+  }
+}
+
+/**
+ * Generate MATLAB code that lists the workspace with `whos`
+ *
+ * @returns MATLAB code printing the `whos` struct array as JSON
+ */
+export function generateWhosCode(): string {
+  return [
+    "__nm_whos__ = rmfield(whos, 'nesting');",
+    `fprintf('${JSON_START_MARKER}%s${JSON_END_MARKER}', jsonencode(__nm_whos__));`,
+    'clear __nm_whos__;',
+  ].join('\n');
+}
+
+/**
+ * Generate MATLAB code that reports whether a variable exists
+ *
+ * @param name - Variable name
+ * @returns MATLAB code printing `true` or `false` as JSON
+ */
+export function generateHasVariableCode(name: string): string {
+  assertVariableName(name);
+  return `fprintf('${JSON_START_MARKER}%s${JSON_END_MARKER}', jsonencode(exist('${name}', 'var') == 1));`;
+}
+
+/**
+ * Generate MATLAB code that clears variables
+ *
+ * @param names - Variables to clear (all variables when omitted)
+ * @returns MATLAB `clear` command
+ */
+export function generateClearVariablesCode(names?: string[]): string {
+  if (names === undefined) {
+    return 'clear variables;';
+  }
+  if (names.length === 0) {
+    return '';
+  }
+  names.forEach(assertVariableName);
+  return `clear ${names.join(' ')};`;
+}
+
+/**
+ * Convert the JSON emitted by {@link generateWhosCode} to VariableInfo entries
+ *
+ * Temporary variables created by node-matlab itself are left out.
+ *
+ * @param whos - Parsed `whos` output (a single entry or an array)
+ * @returns Variable information in workspace order
+ */
+export function parseWhosOutput(whos: unknown): VariableInfo[] {
+  if (whos === null || whos === undefined) {
+    return [];
+  }
+
+  const entries = (Array.isArray(whos) ? whos : [whos]) as WhosEntry[];
+
+  return entries
+    .filter((entry) => !entry.name.startsWith(INTERNAL_PREFIX))
+    .map((entry) => ({
+      name: entry.name,
+      size: (Array.isArray(entry.size) ? entry.size : [entry.size]).map(Number),
+      type: toMatlabDataType(entry.class),
+      bytes: Number(entry.bytes),
+      complex: Boolean(entry.complex),
+      sparse: Boolean(entry.sparse),
+      global: Boolean(entry.global),
+      persistent: Boolean(entry.persistent),
+    }));
+}
+
+/**
+ * Variable holding the current directory and MATLAB path inside a snapshot
+ */
+const SNAPSHOT_VARIABLE = '__nm_snapshot__';
+
+/**
+ * Generate MATLAB code that saves the workspace, current directory and
+ * MATLAB path to a MAT-file
+ *
+ * The file is written in `-v7.3` format so workspaces larger than 2 GB can be
+ * saved.
+ *
+ * @param filePath - Destination MAT-file
+ * @returns MATLAB code writing the snapshot
+ */
+export function generateSaveSnapshotCode(filePath: string): string {
+  const escaped = filePath.replace(/'/g, "''");
+  return [
+    `${SNAPSHOT_VARIABLE} = struct('cwd', pwd, 'path', path);`,
+    `save('${escaped}', '-v7.3');`,
+    `clear ${SNAPSHOT_VARIABLE};`,
+  ].join('\n');
+}
+
+/**
+ * Generate MATLAB code that restores a snapshot written by
+ * {@link generateSaveSnapshotCode}
+ *
+ * Existing variables are cleared first. The saved directory is only entered
+ * if it still exists. The saved path replaces the current one, so
+ * directories the restoring process depends on (such as the helper
+ * directory, which differs between Node.js processes) are added back after
+ * it.
+ *
+ * @param filePath - Snapshot MAT-file
+ * @param keepPaths - Directories to add to the restored path
+ * @returns MATLAB code loading the snapshot
+ */
+export function generateRestoreSnapshotCode(filePath: string, keepPaths: string[] = []): string {
+  const escaped = filePath.replace(/'/g, "''");
+  return [
+    'clear variables;',
+    `load('${escaped}');`,
+    `if exist('${SNAPSHOT_VARIABLE}', 'var') == 1`,
+    `    path(${SNAPSHOT_VARIABLE}.path);`,
+    ...keepPaths.map((dir) => `    addpath('${dir.replace(/'/g, "''")}');`),
+    `    if exist(${SNAPSHOT_VARIABLE}.cwd, 'dir') == 7`,
+    `        cd(${SNAPSHOT_VARIABLE}.cwd);`,
+    '    end',
+    `    clear ${SNAPSHOT_VARIABLE};`,
+    'end',
+  ].join('\n');
+}
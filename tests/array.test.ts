@@ -0,0 +1,204 @@
+/**
+ * MatlabArray tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import { MatlabArray, isMatlabArray } from '../src/array.js';
+import { Complex } from '../src/complex.js';
+import { MatlabError } from '../src/errors.js';
+
+describe('MatlabArray', () => {
+  describe('constructor', () => {
+    it('should allocate zeros of the right class', () => {
+      const arr = new MatlabArray('int16', [2, 3]);
+      expect(arr.real).toBeInstanceOf(Int16Array);
+      expect(arr.numel).toBe(6);
+      expect(arr.complex).toBe(false);
+    });
+
+    it('should normalize dimensions like MATLAB', () => {
+      expect(new MatlabArray('double', [3]).dims).toEqual([3, 1]);
+      expect(new MatlabArray('double', [2, 2, 1, 1]).dims).toEqual([2, 2]);
+      expect(new MatlabArray('double', [2, 1, 3]).dims).toEqual([2, 1, 3]);
+    });
+
+    it('should reject data that does not match the dimensions', () => {
+      expect(() => new MatlabArray('double', [2, 2], new Float64Array(3))).toThrow(MatlabError);
+    });
+
+    it('should reject non-numeric classes', () => {
+      expect(() => new MatlabArray('char' as never, [1, 1])).toThrow(/Unsupported/);
+    });
+  });
+
+  describe('indexing', () => {
+    it('should use column-major order', () => {
+      const arr = new MatlabArray('double', [2, 3, 2]);
+      expect(arr.index(0, 0, 0)).toBe(0);
+      expect(arr.index(1, 0, 0)).toBe(1);
+      expect(arr.index(0, 1, 0)).toBe(2);
+      expect(arr.index(0, 0, 1)).toBe(6);
+      expect(arr.index(1, 2, 1)).toBe(11);
+    });
+
+    it('should convert linear indices back to subscripts', () => {
+      const arr = new MatlabArray('double', [2, 3, 2]);
+      expect(arr.subscripts(11)).toEqual([1, 2, 1]);
+      expect(arr.subscripts(3)).toEqual([1, 1, 0]);
+    });
+
+    it('should get and set values', () => {
+      const arr = new MatlabArray('uint8', [2, 2, 2]);
+      arr.set([1, 0, 1], 200);
+      expect(arr.get(1, 0, 1)).toBe(200);
+      expect(arr.get(5)).toBe(200);
+    });
+
+    it('should saturate and round integer values like MATLAB', () => {
+      const arr = new MatlabArray('int8', [1, 3]);
+      arr.set(0, 300);
+      arr.set(1, -2.5);
+      arr.set(2, Number.NaN);
+      expect(Array.from(arr.real as Int8Array)).toEqual([127, -3, 0]);
+    });
+
+    it('should throw for out of range subscripts', () => {
+      const arr = new MatlabArray('double', [2, 2]);
+      expect(() => arr.get(2, 0)).toThrow(MatlabError);
+      expect(() => arr.get(4)).toThrow(MatlabError);
+    });
+
+    it('should read and write imaginary parts', () => {
+      const arr = new MatlabArray('double', [1, 2], new Float64Array(2), new Float64Array(2));
+      arr.set(1, 3, 4);
+      expect(arr.complex).toBe(true);
+      expect(arr.get(1)).toBe(3);
+      expect(arr.getImag(1)).toBe(4);
+    });
+
+    it('should refuse imaginary parts on real arrays', () => {
+      const arr = new MatlabArray('double', [1, 1]);
+      expect(arr.getImag(0)).toBe(0);
+      expect(() => arr.set(0, 1, 2)).toThrow(/real MatlabArray/);
+    });
+  });
+
+  describe('from', () => {
+    it('should build a matrix from rows', () => {
+      const arr = MatlabArray.from([
+        [1, 2, 3],
+        [4, 5, 6],
+      ]);
+      expect(arr.type).toBe('double');
+      expect(arr.dims).toEqual([2, 3]);
+      expect(Array.from(arr.real as Float64Array)).toEqual([1, 4, 2, 5, 3, 6]);
+    });
+
+    it('should build a 3-D array from nested arrays', () => {
+      const nested = [
+        [
+          [1, 2],
+          [3, 4],
+        ],
+        [
+          [5, 6],
+          [7, 8],
+        ],
+      ];
+      const arr = MatlabArray.from(nested, 'uint8');
+      expect(arr.type).toBe('uint8');
+      expect(arr.dims).toEqual([2, 2, 2]);
+      expect(arr.get(1, 0, 1)).toBe(6);
+      expect(arr.toNested()).toEqual(nested);
+    });
+
+    it('should make row vectors from flat arrays', () => {
+      expect(MatlabArray.from([1, 2, 3]).dims).toEqual([1, 3]);
+    });
+
+    it('should infer logical and int64 classes', () => {
+      expect(MatlabArray.from([true, false]).type).toBe('logical');
+      expect(MatlabArray.from([1n, 2n]).type).toBe('int64');
+    });
+
+    it('should wrap scalars as 1x1 arrays', () => {
+      const arr = MatlabArray.from(7, 'uint16');
+      expect(arr.dims).toEqual([1, 1]);
+      expect(arr.get(0)).toBe(7);
+    });
+
+    it('should keep bigints beyond 2^53 exact', () => {
+      expect(MatlabArray.from(2n ** 53n + 1n).get(0)).toBe(2n ** 53n + 1n);
+      expect(MatlabArray.from([2n ** 64n - 1n]).type).toBe('uint64');
+    });
+
+    it('should use the class of typed arrays', () => {
+      const arr = MatlabArray.from(new Int32Array([1, 2, 3]));
+      expect(arr.type).toBe('int32');
+      expect(arr.dims).toEqual([1, 3]);
+    });
+
+    it('should convert between classes', () => {
+      const arr = MatlabArray.from(MatlabArray.from([1.6, 2.4]), 'int32');
+      expect(Array.from(arr.real as Int32Array)).toEqual([2, 2]);
+    });
+
+    it('should build complex arrays from Complex values', () => {
+      const arr = MatlabArray.from([new Complex(1, 2), new Complex(3, -4)]);
+      expect(arr.complex).toBe(true);
+      expect(Array.from(arr.imag as Float64Array)).toEqual([2, -4]);
+    });
+
+    it('should reject ragged arrays', () => {
+      expect(() => MatlabArray.from([[1, 2], [3]])).toThrow(MatlabError);
+    });
+  });
+
+  describe('toNested', () => {
+    it('should nest once per dimension', () => {
+      expect(MatlabArray.from([1, 2]).toNested()).toEqual([[1, 2]]);
+    });
+
+    it('should return booleans for logical arrays', () => {
+      expect(MatlabArray.from([true, false]).toNested()).toEqual([[true, false]]);
+    });
+
+    it('should return Complex values for complex arrays', () => {
+      const arr = new MatlabArray('double', [1, 1], Float64Array.of(1), Float64Array.of(2));
+      expect(arr.toNested()).toEqual([[new Complex(1, 2)]]);
+      expect(arr.toNested()[0]).toEqual([expect.any(Complex)]);
+    });
+  });
+
+  describe('complex', () => {
+    it('should combine real and imaginary parts', () => {
+      const arr = MatlabArray.complex([[1, 2]], [[3, 4]], 'single');
+      expect(arr.type).toBe('single');
+      expect(arr.getImag(0, 1)).toBe(4);
+    });
+
+    it('should reject parts of different sizes', () => {
+      expect(() => MatlabArray.complex([1, 2], [1])).toThrow(/differ in size/);
+    });
+  });
+
+  describe('shapeOf', () => {
+    it('should return dimensions of rectangular numeric arrays', () => {
+      expect(MatlabArray.shapeOf([[[1]], [[2]]])).toEqual([2, 1, 1]);
+      expect(MatlabArray.shapeOf(['a'])).toBeNull();
+      expect(MatlabArray.shapeOf(5)).toBeNull();
+    });
+  });
+
+  describe('fromMatValue', () => {
+    it('should wrap numeric MAT-file values', () => {
+      const arr = MatlabArray.fromMatValue({
+        type: 'single',
+        dims: [1, 2],
+        real: new Float32Array([1, 2]),
+      });
+      expect(isMatlabArray(arr)).toBe(true);
+      expect(arr.type).toBe('single');
+    });
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Complex value tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import { Complex, isComplex } from '../src/complex.js';
+
+describe('Complex', () => {
+  it('should default the imaginary part to zero', () => {
+    expect(new Complex(2).imag).toBe(0);
+  });
+
+  it('should compute magnitude and angle', () => {
+    const z = new Complex(3, 4);
+    expect(z.abs()).toBe(5);
+    expect(new Complex(0, 1).angle()).toBeCloseTo(Math.PI / 2);
+  });
+
+  it('should conjugate', () => {
+    expect(new Complex(1, 2).conj().equals({ real: 1, imag: -2 })).toBe(true);
+  });
+
+  it('should format as a+bi', () => {
+    expect(String(new Complex(3, 4))).toBe('3+4i');
+    expect(String(new Complex(-1.5, -2))).toBe('-1.5-2i');
+  });
+
+  it('should be detected by isComplex', () => {
+    expect(isComplex(new Complex(1, 1))).toBe(true);
+    expect(isComplex({ real: 1, imag: 1 })).toBe(false);
+  });
+});
@@ -3,6 +3,8 @@
  */
 
 import { describe, expect, it } from 'vitest';
+import { MatlabArray } from '../src/array.js';
+import { Complex } from '../src/complex.js';
 import {
   convertToMatlab,
   createVariableInfo,
@@ -52,6 +54,76 @@ describe('Converter Utilities', () => {
       ).toBe('[1, 2; 3, 4]');
     });
 
+    it('should convert nested 3D arrays with reshape', () => {
+      expect(
+        convertToMatlab([
+          [
+            [1, 2],
+            [3, 4],
+          ],
+        ])
+      ).toBe('reshape([1, 3, 2, 4], [1, 2, 2])');
+    });
+
+    it('should convert MatlabArray values with their class', () => {
+      expect(
+        convertToMatlab(
+          MatlabArray.from(
+            [
+              [1, 2],
+              [3, 4],
+            ],
+            'int16'
+          )
+        )
+      ).toBe('int16([1, 2; 3, 4])');
+      expect(convertToMatlab(new MatlabArray('uint8', [2, 1, 2]))).toBe(
+        'uint8(reshape([0, 0, 0, 0], [2, 1, 2]))'
+      );
+      expect(convertToMatlab(new MatlabArray('single', [0, 3]))).toBe("zeros(0, 3, 'single')");
+    });
+
+    it('should cast typed scalars', () => {
+      expect(convertToMatlab(MatlabArray.from(42, 'int32'))).toBe('int32(42)');
+      expect(convertToMatlab(MatlabArray.from(true))).toBe('logical(1)');
+    });
+
+    it('should convert typed arrays with their class', () => {
+      expect(convertToMatlab(new Float32Array([0.5, 1.5]))).toBe('single([0.5, 1.5])');
+      expect(convertToMatlab(Buffer.from([1, 255]))).toBe('uint8([1, 255])');
+    });
+
+    it('should convert bigints to 64-bit integers', () => {
+      expect(convertToMatlab(5n)).toBe('int64(5)');
+      expect(convertToMatlab(-(2n ** 60n))).toBe("typecast(uint32([0, 4026531840]), 'int64')");
+      expect(convertToMatlab(18446744073709551615n)).toBe(
+        "typecast(uint32([4294967295, 4294967295]), 'uint64')"
+      );
+    });
+
+    it('should keep 64-bit arrays exact when values exceed 2^53', () => {
+      const arr = MatlabArray.from([1n, 2n ** 53n + 1n, 3n]);
+      expect(convertToMatlab(arr)).toBe(
+        "reshape(typecast(uint32([1, 0, 1, 2097152, 3, 0]), 'int64'), [1, 3])"
+      );
+    });
+
+    it('should convert Complex values', () => {
+      expect(convertToMatlab(new Complex(3, -4))).toBe('complex(3, -4)');
+      expect(convertToMatlab(new Complex(1, 0))).toBe('complex(1, 0)');
+    });
+
+    it('should convert arrays of Complex values as complex arrays', () => {
+      expect(convertToMatlab([new Complex(1, 2), new Complex(3, 4)])).toBe(
+        'complex([1, 3], [2, 4])'
+      );
+    });
+
+    it('should convert complex MatlabArray values', () => {
+      const arr = new MatlabArray('double', [1, 2], Float64Array.of(1, 2), Float64Array.of(3, -4));
+      expect(convertToMatlab(arr)).toBe('complex([1, 2], [3, -4])');
+    });
+
     it('should convert string arrays as cell arrays', () => {
       expect(convertToMatlab(['a', 'b', 'c'])).toBe("{'a', 'b', 'c'}");
     });
@@ -118,6 +190,15 @@ describe('Converter Utilities', () => {
   });
 
   describe('createVariableInfo', () => {
+    it('should report the class and size of typed values', () => {
+      expect(createVariableInfo('x', new Int16Array(4))).toEqual({
+        name: 'x',
+        size: [1, 4],
+        type: 'int16',
+        complex: false,
+      });
+    });
+
     it('should create info for scalar', () => {
       const info = createVariableInfo('x', 42);
       expect(info.name).toBe('x');
@@ -142,6 +223,7 @@ describe('Converter Utilities', () => {
   describe('parseComplexNumber', () => {
     it('should parse complex numbers', () => {
       expect(parseComplexNumber('3+4i')).toEqual({ real: 3, imag: 4 });
+      expect(parseComplexNumber('3.0000 - 4.5000i')).toBeInstanceOf(Complex);
       expect(parseComplexNumber('3-4i')).toEqual({ real: 3, imag: -4 });
     });
 
@@ -0,0 +1,214 @@
+/**
+ * Typed extraction tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { MatlabArray } from '../src/array.js';
+import { Complex } from '../src/complex.js';
+import type { MatSparseMatrix } from '../src/types.js';
+import {
+  decodeTypedVariable,
+  decodeTypedVariables,
+  generateTypedExtractionCode,
+} from '../src/utils/envelope.js';
+
+describe('Typed Extraction Utilities', () => {
+  describe('generateTypedExtractionCode', () => {
+    it('should return empty string for no variables', () => {
+      expect(generateTypedExtractionCode([])).toBe('');
+    });
+
+    it('should record class, size, sparsity and complexity', () => {
+      const code = generateTypedExtractionCode(['x']);
+      expect(code).toContain('__nm_e__.class = class(x);');
+      expect(code).toContain('__nm_e__.size = size(x);');
+      expect(code).toContain('__nm_e__.issparse = issparse(x);');
+      expect(code).toContain('__nm_e__.iscomplex = isnumeric(x) && ~isreal(x);');
+      expect(code).toContain('__nm_env__.x = __nm_e__;');
+      expect(code).toContain('__nm_v__ = reshape(permute(x, [2 1 3:ndims(x)]), 1, []);');
+      expect(code).toContain('__NODE_MATLAB_JSON_START__');
+    });
+
+    it('should clean up temporary variables', () => {
+      expect(generateTypedExtractionCode(['x'])).toMatch(/clear __nm_env__ .*;$/);
+    });
+  });
+
+  describe('decodeTypedVariable', () => {
+    it('should keep scalars as numbers with their class', () => {
+      const { value, info } = decodeTypedVariable('n', {
+        class: 'int8',
+        size: [1, 1],
+        issparse: false,
+        iscomplex: false,
+        bytes: 1,
+        value: 5,
+      });
+      expect(value).toBe(5);
+      expect(info).toEqual({
+        name: 'n',
+        size: [1, 1],
+        type: 'int8',
+        complex: false,
+        sparse: false,
+        bytes: 1,
+      });
+    });
+
+    it('should tell row and column vectors apart', () => {
+      const row = decodeTypedVariable('r', {
+        class: 'double',
+        size: [1, 3],
+        issparse: false,
+        iscomplex: false,
+        value: [1, 2, 3],
+      });
+      const col = decodeTypedVariable('c', {
+        class: 'double',
+        size: [3, 1],
+        issparse: false,
+        iscomplex: false,
+        value: [1, 2, 3],
+      });
+
+      expect((row.value as MatlabArray).dims).toEqual([1, 3]);
+      expect((col.value as MatlabArray).dims).toEqual([3, 1]);
+      expect((col.value as MatlabArray).toNested()).toEqual([[1], [2], [3]]);
+    });
+
+    it('should decode logical scalars as booleans', () => {
+      const { value } = decodeTypedVariable('b', {
+        class: 'logical',
+        size: [1, 1],
+        issparse: false,
+        iscomplex: false,
+        value: true,
+      });
+      expect(value).toBe(true);
+    });
+
+    it('should decode int64 strings exactly', () => {
+      const { value } = decodeTypedVariable('big', {
+        class: 'uint64',
+        size: [1, 2],
+        issparse: false,
+        iscomplex: false,
+        value: ['18446744073709551615', '1'],
+      });
+      expect((value as MatlabArray).get(0)).toBe(18446744073709551615n);
+    });
+
+    it('should decode complex scalars and arrays', () => {
+      const scalar = decodeTypedVariable('z', {
+        class: 'double',
+        size: [1, 1],
+        issparse: false,
+        iscomplex: true,
+        value: 3,
+        imag: 4,
+      });
+      expect(scalar.value).toEqual(new Complex(3, 4));
+      expect(scalar.info.complex).toBe(true);
+
+      const array = decodeTypedVariable('zs', {
+        class: 'single',
+        size: [1, 2],
+        issparse: false,
+        iscomplex: true,
+        value: [1, 2],
+        imag: [0, -1],
+      });
+      expect((array.value as MatlabArray).getImag(1)).toBe(-1);
+    });
+
+    it('should decode char rows and character matrices', () => {
+      const row = decodeTypedVariable('s', {
+        class: 'char',
+        size: [1, 5],
+        issparse: false,
+        iscomplex: false,
+        value: 'hello',
+      });
+      expect(row.value).toBe('hello');
+
+      const matrix = decodeTypedVariable('m', {
+        class: 'char',
+        size: [2, 3],
+        issparse: false,
+        iscomplex: false,
+        value: 'abcdef',
+      });
+      expect(matrix.value).toEqual(['abc', 'def']);
+
+      const pages = decodeTypedVariable('p', {
+        class: 'char',
+        size: [2, 2, 2],
+        issparse: false,
+        iscomplex: false,
+        value: 'abcdefgh',
+      });
+      expect(pages.value).toEqual(['ab', 'cd', 'ef', 'gh']);
+    });
+
+    it('should distinguish strings from chars', () => {
+      const { value, info } = decodeTypedVariable('s', {
+        class: 'string',
+        size: [1, 1],
+        issparse: false,
+        iscomplex: false,
+        value: 'hello',
+      });
+      expect(value).toBe('hello');
+      expect(info.type).toBe('string');
+    });
+
+    it('should rebuild sparse matrices from triplets', () => {
+      const { value, info } = decodeTypedVariable('S', {
+        class: 'double',
+        size: [3, 3],
+        issparse: true,
+        iscomplex: false,
+        rows: [1, 3, 2],
+        cols: [1, 1, 3],
+        value: [10, 30, 20],
+      });
+      const sparse = value as MatSparseMatrix;
+
+      expect(info.sparse).toBe(true);
+      expect(sparse.sparse).toBe(true);
+      expect(Array.from(sparse.rowIndices)).toEqual([0, 2, 1]);
+      expect(Array.from(sparse.columnPointers)).toEqual([0, 2, 2, 3]);
+      expect(Array.from(sparse.real)).toEqual([10, 30, 20]);
+    });
+
+    it('should report unknown classes', () => {
+      const { value, info } = decodeTypedVariable('obj', {
+        class: 'containers.Map',
+        size: [1, 1],
+        issparse: false,
+        iscomplex: false,
+        value: {},
+      });
+      expect(info.type).toBe('unknown');
+      expect(value).toEqual({});
+    });
+  });
+
+  describe('decodeTypedVariables', () => {
+    it('should decode every envelope', () => {
+      const result = decodeTypedVariables({
+        a: { class: 'double', size: [1, 1], issparse: false, iscomplex: false, value: 1 },
+        f: {
+          class: 'function_handle',
+          size: [1, 1],
+          issparse: false,
+          iscomplex: false,
+          value: '@(x)x.^2',
+        },
+      });
+      expect(result.a?.value).toBe(1);
+      expect(result.f?.value).toBe('@(x)x.^2');
+      expect(result.f?.info.type).toBe('function_handle');
+    });
+  });
+});
@@ -5,16 +5,25 @@
 import { describe, expect, it } from 'vitest';
 import {
   MatlabAbortError,
+  MatlabDimensionError,
   MatlabError,
   MatlabFileNotFoundError,
+  MatlabIndexError,
   MatlabNotInstalledError,
   MatlabRuntimeError,
+  MatlabSessionCrashedError,
   MatlabSyntaxError,
   MatlabTimeoutError,
   MatlabToolboxError,
+  fromMatlabException,
   isMatlabError,
   parseError,
 } from '../src/errors.js';
+import type { MatlabExceptionData } from '../src/types.js';
+
+function exception(identifier: string, message = 'Failed'): MatlabExceptionData {
+  return { identifier, message, stack: [], cause: [] };
+}
 
 describe('Error Classes', () => {
   describe('MatlabError', () => {
@@ -114,6 +123,89 @@ describe('Error Classes', () => {
     });
   });
 
+  describe('MatlabSessionCrashedError', () => {
+    it('should describe the exit code or signal', () => {
+      const exited = new MatlabSessionCrashedError(137, null, 'x = 1;');
+      expect(exited.type).toBe('session_crashed');
+      expect(exited.exitCode).toBe(137);
+      expect(exited.command).toBe('x = 1;');
+      expect(exited.message).toContain('exit code 137');
+
+      const killed = new MatlabSessionCrashedError(null, 'SIGSEGV');
+      expect(killed.signal).toBe('SIGSEGV');
+      expect(killed.exitCode).toBeUndefined();
+      expect(killed.message).toContain('SIGSEGV');
+    });
+  });
+
+  describe('fromMatlabException', () => {
+    it('should map identifiers to subclasses', () => {
+      expect(fromMatlabException(exception('MATLAB:badsubscript'))).toBeInstanceOf(
+        MatlabIndexError
+      );
+      expect(fromMatlabException(exception('MATLAB:dimagree'))).toBeInstanceOf(
+        MatlabDimensionError
+      );
+      expect(fromMatlabException(exception('MATLAB:m_missing_operator'))).toBeInstanceOf(
+        MatlabSyntaxError
+      );
+      expect(fromMatlabException(exception('MATLAB:license:checkouterror'))).toBeInstanceOf(
+        MatlabToolboxError
+      );
+      expect(fromMatlabException(exception('myapp:failed'))).toBeInstanceOf(MatlabRuntimeError);
+    });
+
+    it('should not depend on the message language', () => {
+      const error = fromMatlabException(
+        exception('MATLAB:badsubscript', 'Der Index überschreitet die Arraygrenzen.')
+      );
+      expect(error).toBeInstanceOf(MatlabIndexError);
+      expect(error.message).toBe('Der Index überschreitet die Arraygrenzen.');
+    });
+
+    it('should extract file paths for missing files', () => {
+      const error = fromMatlabException(
+        exception('MATLAB:run:FileNotFound', "'/tmp/missing.m' not found.")
+      );
+      expect(error).toBeInstanceOf(MatlabFileNotFoundError);
+      expect((error as MatlabFileNotFoundError).filePath).toBe('/tmp/missing.m');
+    });
+
+    it('should keep the identifier and stack frames', () => {
+      const error = fromMatlabException({
+        identifier: 'myapp:bad',
+        message: 'Bad input',
+        stack: [
+          { file: '/code/check.m', name: 'check', line: 12 },
+          { file: '/code/main.m', name: 'main', line: 3 },
+        ],
+        cause: [],
+      });
+
+      expect(error.identifier).toBe('myapp:bad');
+      expect(error.stackFrames).toHaveLength(2);
+      expect(error.file).toBe('/code/check.m');
+      expect(error.lineNumber).toBe(12);
+      expect(error.matlabStack).toBe('Error in check (line 12)\nError in main (line 3)');
+    });
+
+    it('should build cause chains', () => {
+      const error = fromMatlabException({
+        ...exception('top:failed', 'Top'),
+        cause: [
+          { ...exception('MATLAB:badsubscript', 'Inner'), cause: [exception('', 'Root')] },
+          exception('other:failed', 'Second'),
+        ],
+      });
+
+      expect(error.causes).toHaveLength(2);
+      expect(error.cause).toBeInstanceOf(MatlabIndexError);
+      expect((error.cause as MatlabError).cause).toBeInstanceOf(MatlabRuntimeError);
+      expect(((error.cause as MatlabError).cause as MatlabError).message).toBe('Root');
+      expect(error.causes[1]?.identifier).toBe('other:failed');
+    });
+  });
+
   describe('parseError', () => {
     it('should detect syntax errors', () => {
       const error = parseError('syntax error near line 5');
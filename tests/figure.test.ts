@@ -2,15 +2,29 @@
  * Figure utility tests
  */
 
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { describe, expect, it } from 'vitest';
+import { JSON_END_MARKER, JSON_START_MARKER } from '../src/types.js';
 import {
   DEFAULT_FIGURE_OPTIONS,
+  FIGURE_RECORD_END_MARKER,
+  FIGURE_RECORD_START_MARKER,
+  generateFigureDataCode,
+  generateRecordAnimationCode,
   generateSaveAllFiguresCode,
   generateSaveFigureCode,
+  getAnimationExtension,
   getExtension,
   getFigureSizePreset,
   getPrintDevice,
   isVectorFormat,
+  parseFigureData,
+  parseSavedFigures,
+  readRenderedFigures,
+  resolveFigureSize,
+  supportsExportGraphics,
   validateOutputPath,
 } from '../src/utils/figure.js';
 
@@ -22,6 +36,8 @@ describe('Figure Utilities', () => {
       expect(getExtension('pdf')).toBe('.pdf');
       expect(getExtension('eps')).toBe('.eps');
       expect(getExtension('jpg')).toBe('.jpg');
+      expect(getExtension('tiff')).toBe('.tif');
+      expect(getExtension('gif')).toBe('.gif');
       expect(getExtension('fig')).toBe('.fig');
     });
   });
@@ -33,6 +49,8 @@ describe('Figure Utilities', () => {
       expect(getPrintDevice('pdf')).toBe('-dpdf');
       expect(getPrintDevice('eps')).toBe('-depsc');
       expect(getPrintDevice('jpg')).toBe('-djpeg');
+      expect(getPrintDevice('tiff')).toBe('-dtiff');
+      expect(getPrintDevice('gif')).toBe('');
       expect(getPrintDevice('fig')).toBe('');
     });
   });
@@ -47,6 +65,8 @@ describe('Figure Utilities', () => {
     it('should identify raster formats', () => {
       expect(isVectorFormat('png')).toBe(false);
       expect(isVectorFormat('jpg')).toBe(false);
+      expect(isVectorFormat('tiff')).toBe(false);
+      expect(isVectorFormat('gif')).toBe(false);
     });
   });
 
@@ -91,6 +111,310 @@ describe('Figure Utilities', () => {
     });
   });
 
+  describe('generateSaveFigureCode sizing and background', () => {
+    const R2019b = { version: '9.7.0.1190202', release: 'R2019b' };
+    const R2023a = { version: '9.14.0.2206163', release: 'R2023a' };
+
+    it('should size the figure in the requested units', () => {
+      const code = generateSaveFigureCode('/out', {
+        format: 'pdf',
+        width: 6,
+        height: 4,
+        units: 'inches',
+      });
+      expect(code).toContain("set(gcf, 'Units', 'inches');");
+      expect(code).toContain('+ [0 0 6 4]]);');
+    });
+
+    it('should keep the figure size when no size is requested', () => {
+      const code = generateSaveFigureCode('/out', { format: 'png' });
+      expect(code).not.toContain("'Position'");
+      expect(code).not.toContain("'Units'");
+      expect(generateSaveAllFiguresCode('/out', 'fig', { format: 'png' })).not.toContain(
+        "'Position'"
+      );
+    });
+
+    it('should use size presets', () => {
+      const code = generateSaveFigureCode('/out', { format: 'png', size: 'widescreen' });
+      expect(code).toContain('+ [0 0 1920 1080]]);');
+    });
+
+    it('should apply custom background colors', () => {
+      const code = generateSaveFigureCode(
+        '/out',
+        { format: 'png', backgroundColor: '#ff8000' },
+        R2023a
+      );
+      expect(code).toContain("set(gcf, 'Color', [1 0.502 0]);");
+      expect(code).toContain("'BackgroundColor', [1 0.502 0]");
+    });
+
+    it('should make PNG backgrounds transparent through a key color', () => {
+      const code = generateSaveFigureCode(
+        '/out',
+        { format: 'png', backgroundColor: 'transparent' },
+        R2023a
+      );
+      expect(code).toContain("'BackgroundColor', [1 0 1]");
+      expect(code).toContain("imwrite(__nm_img__, '/out.png', 'Alpha'");
+    });
+
+    it('should export transparent vector backgrounds directly', () => {
+      const code = generateSaveFigureCode(
+        '/out',
+        { format: 'svg', backgroundColor: 'none' },
+        R2023a
+      );
+      expect(code).toContain("'BackgroundColor', 'none'");
+      expect(code).not.toContain('imwrite');
+    });
+
+    it('should only use exportgraphics from R2020a', () => {
+      const modern = generateSaveFigureCode('/out', { format: 'png' }, R2023a);
+      expect(modern).toContain('exportgraphics(gcf');
+      expect(modern).not.toContain('print(');
+
+      const legacy = generateSaveFigureCode('/out', { format: 'png' }, R2019b);
+      expect(legacy).not.toContain('exportgraphics');
+      expect(legacy).toContain("print(gcf, '/out.png', '-dpng', '-r300');");
+      expect(legacy).toContain("'InvertHardcopy', 'off'");
+    });
+
+    it('should export TIFF with the tiff print device', () => {
+      const code = generateSaveFigureCode('/out', { format: 'tiff' }, R2019b);
+      expect(code).toContain("print(gcf, '/out.tif', '-dtiff', '-r300');");
+    });
+
+    it('should convert GIF from a temporary PNG', () => {
+      const code = generateSaveFigureCode('/out', { format: 'gif' }, R2019b);
+      expect(code).toContain("print(gcf, __nm_png__, '-dpng', '-r300');");
+      expect(code).toContain("imwrite(__nm_ind__, __nm_map__, '/out.gif');");
+      expect(code).toContain('delete(__nm_png__);');
+    });
+
+    it('should detect exportgraphics at run time for unknown versions', () => {
+      const code = generateSaveFigureCode('/out', { format: 'eps' });
+      expect(code).toContain("if exist('exportgraphics', 'file')");
+      expect(code).toContain("print(gcf, '/out.eps', '-depsc', '-painters');");
+    });
+  });
+
+  describe('generateFigureDataCode', () => {
+    it('should walk figures and axes like saveAllFigures', () => {
+      const code = generateFigureDataCode();
+      expect(code).toContain('sort(arrayfun(@(f) sum(f.Number), __nm_figs__))');
+      expect(code).toContain("flipud(findall(__nm_fig__, 'Type', 'axes'))");
+      expect(code).toContain("'-regexp', 'Type', '^(line|scatter|bar|surface)$'");
+    });
+
+    it('should record axes and series properties', () => {
+      const code = generateFigureDataCode();
+      expect(code).toContain(
+        "'x', struct('label', strjoin(cellstr(__nm_ax__.XLabel.String), newline), 'limits', __nm_ax__.XLim, 'scale', __nm_ax__.XScale)"
+      );
+      expect(code).toContain("'x', __nm_obj__.XData, 'y', __nm_obj__.YData, 'z', __nm_z__");
+      expect(code).toContain('__nm_legend__ = cellstr(__nm_ax__.Legend.String);');
+      expect(code).toContain(
+        `fprintf('${JSON_START_MARKER}%s${JSON_END_MARKER}\\n', jsonencode(__nm_data__));`
+      );
+    });
+  });
+
+  describe('parseFigureData', () => {
+    const output = (figures: unknown) =>
+      `${JSON_START_MARKER}${JSON.stringify(figures)}${JSON_END_MARKER}`;
+
+    it('should decode figures, axes and series', () => {
+      const figures = parseFigureData(
+        output([
+          {
+            figureNumber: 1,
+            name: 'Fit',
+            axes: [
+              {
+                title: 'Growth',
+                x: { label: 'x', limits: [0, 2], scale: 'linear' },
+                y: { label: [], limits: [1, 100], scale: 'log' },
+                z: { label: [], limits: [-1, 1], scale: 'linear' },
+                legend: ['data', 'fit'],
+                series: [
+                  {
+                    type: 'scatter',
+                    name: 'data',
+                    x: [0, 1, 2],
+                    y: [1, null, 100],
+                    z: [],
+                    color: 'flat',
+                  },
+                  { type: 'line', name: 'fit', x: 1, y: 10, z: [], color: [0, 0.447, 0.741] },
+                ],
+              },
+            ],
+          },
+        ])
+      );
+
+      expect(figures).toEqual([
+        {
+          figureNumber: 1,
+          name: 'Fit',
+          axes: [
+            {
+              title: 'Growth',
+              x: { label: 'x', limits: [0, 2], scale: 'linear' },
+              y: { label: '', limits: [1, 100], scale: 'log' },
+              z: { label: '', limits: [-1, 1], scale: 'linear' },
+              legend: ['data', 'fit'],
+              series: [
+                {
+                  type: 'scatter',
+                  name: 'data',
+                  x: [0, 1, 2],
+                  y: [1, null, 100],
+                  z: [],
+                  color: 'flat',
+                },
+                { type: 'line', name: 'fit', x: [1], y: [10], z: [], color: [0, 0.447, 0.741] },
+              ],
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('should keep surface matrices as rows', () => {
+      const [figure] = parseFigureData(
+        output([
+          {
+            figureNumber: [],
+            name: [],
+            axes: [
+              {
+                title: [],
+                legend: [],
+                series: [
+                  {
+                    type: 'surface',
+                    name: [],
+                    x: [
+                      [1, 2],
+                      [1, 2],
+                    ],
+                    y: [
+                      [1, 1],
+                      [2, 2],
+                    ],
+                    z: [
+                      [0, 1],
+                      [1, 2],
+                    ],
+                    color: 'flat',
+                  },
+                ],
+              },
+            ],
+          },
+        ])
+      );
+
+      expect(figure?.figureNumber).toBeNull();
+      expect(figure?.axes[0]?.series[0]?.z).toEqual([
+        [0, 1],
+        [1, 2],
+      ]);
+      expect(figure?.axes[0]?.x).toEqual({ label: '', limits: [0, 1], scale: 'linear' });
+    });
+
+    it('should return an empty list without figures or output', () => {
+      expect(parseFigureData(output([]))).toEqual([]);
+      expect(parseFigureData('no figures')).toEqual([]);
+    });
+  });
+
+  describe('generateRecordAnimationCode', () => {
+    it('should append GIF frames at the requested rate', () => {
+      const code = generateRecordAnimationCode(
+        'for k = 1:3, plot(k); nm_frame(); end',
+        '/out/a.gif',
+        {
+          fps: 20,
+        }
+      );
+      expect(code).toContain(
+        "__nm_animation__ = struct('path', '/out/a.gif', 'format', 'gif', 'delay', 0.05, 'count', 0, 'writer', []);"
+      );
+      expect(code).toContain('for k = 1:3, plot(k); nm_frame(); end');
+      expect(code).not.toContain('VideoWriter');
+      expect(code).toContain(`${JSON_START_MARKER}%d${JSON_END_MARKER}`);
+    });
+
+    it('should write videos with VideoWriter', () => {
+      const mp4 = generateRecordAnimationCode('nm_frame();', '/out/a.mp4', {
+        format: 'mp4',
+        fps: 24,
+      });
+      expect(mp4).toContain("VideoWriter('/out/a.mp4', 'MPEG-4')");
+      expect(mp4).toContain('__nm_animation__.writer.FrameRate = 24;');
+      expect(mp4).toContain('close(__nm_animation__.writer);');
+
+      const avi = generateRecordAnimationCode('nm_frame();', '/out/a.avi', { format: 'avi' });
+      expect(avi).toContain("VideoWriter('/out/a.avi', 'Motion JPEG AVI')");
+    });
+
+    it('should close the recording when the script fails', () => {
+      const avi = generateRecordAnimationCode("error('bad')", '/out/a.avi', { format: 'avi' });
+      expect(avi).toContain("try, eval(strjoin({'error(''bad'')'}, newline));");
+      expect(avi).toContain(
+        'catch __nm_animation_err__, close(__nm_animation__.writer); clear global __nm_animation__; rethrow(__nm_animation_err__); end'
+      );
+
+      const gif = generateRecordAnimationCode('nm_frame();', '/out/a.gif');
+      expect(gif).toContain(
+        'catch __nm_animation_err__, clear global __nm_animation__; rethrow(__nm_animation_err__); end'
+      );
+    });
+  });
+
+  describe('getAnimationExtension', () => {
+    it('should return correct extensions', () => {
+      expect(getAnimationExtension('gif')).toBe('.gif');
+      expect(getAnimationExtension('mp4')).toBe('.mp4');
+      expect(getAnimationExtension('avi')).toBe('.avi');
+    });
+  });
+
+  describe('resolveFigureSize', () => {
+    it('should prefer explicit width and height over the preset', () => {
+      expect(resolveFigureSize({ size: 'small', width: 500 })).toEqual({
+        width: 500,
+        height: 300,
+        units: 'pixels',
+      });
+    });
+
+    it('should convert presets to physical units', () => {
+      expect(resolveFigureSize({ size: 'square', units: 'inches' })).toEqual({
+        width: 6.25,
+        height: 6.25,
+        units: 'inches',
+      });
+      expect(resolveFigureSize({ units: 'centimeters' })).toMatchObject({
+        width: 21.17,
+        height: 15.88,
+      });
+    });
+  });
+
+  describe('supportsExportGraphics', () => {
+    it('should compare against R2020a', () => {
+      expect(supportsExportGraphics({ version: '9.8.0', release: 'R2020a' })).toBe(true);
+      expect(supportsExportGraphics({ version: '24.1.0', release: 'R2024a' })).toBe(true);
+      expect(supportsExportGraphics({ version: '9.7.0', release: 'R2019b' })).toBe(false);
+      expect(supportsExportGraphics(null)).toBeUndefined();
+    });
+  });
+
   describe('generateSaveAllFiguresCode', () => {
     it('should generate code to save all figures', () => {
       const code = generateSaveAllFiguresCode('/output/dir', 'fig', { format: 'png' });
@@ -99,6 +423,114 @@ describe('Figure Utilities', () => {
       expect(code).toContain('/output/dir');
       expect(code).toContain('fig_%d.png');
     });
+
+    it('should report each saved figure', () => {
+      const code = generateSaveAllFiguresCode('/output/dir', 'fig', { format: 'png' });
+      expect(code).toContain(`fprintf('%s%s%s\\n', '${FIGURE_RECORD_START_MARKER}'`);
+      expect(code).toContain("'figureNumber', __nm_fig__.Number");
+      expect(code).toContain('imfinfo(__nm_filename__)');
+    });
+
+    it('should save figures in order of their number', () => {
+      const code = generateSaveAllFiguresCode('/output/dir');
+      expect(code).toContain('sort(arrayfun(@(f) sum(f.Number), __nm_figs__))');
+    });
+
+    it('should report axes titles', () => {
+      const code = generateSaveAllFiguresCode('/output/dir');
+      expect(code).toContain("findall(__nm_fig__, 'Type', 'axes')");
+      expect(code).toContain("'titles', {__nm_titles__}");
+    });
+
+    it('should build filenames from a template', () => {
+      const code = generateSaveAllFiguresCode('/output/dir', 'run', {
+        format: 'svg',
+        filenameTemplate: '{prefix}_{number}_{name}.{ext}',
+      });
+      expect(code).toContain(
+        "sprintf('run_%d_%s.svg', __nm_fig__.Number, regexprep(__nm_fig__.Name, '[^\\w-]+', '_'))"
+      );
+    });
+
+    it('should escape literal template text', () => {
+      const code = generateSaveAllFiguresCode('/output/dir', "50%_it's", {
+        filenameTemplate: '{index}-{prefix}-{unknown}.{ext}',
+      });
+      expect(code).toContain("sprintf('%d-50%%_it''s-{unknown}.png', __nm_i__)");
+    });
+
+    it('should use the window size for vector formats', () => {
+      const code = generateSaveAllFiguresCode('/output/dir', 'fig', { format: 'svg' });
+      expect(code).toContain('getpixelposition(__nm_fig__)');
+      expect(code).not.toContain('imfinfo');
+    });
+  });
+
+  describe('parseSavedFigures', () => {
+    const line = (record: object) =>
+      `${FIGURE_RECORD_START_MARKER}${JSON.stringify(record)}${FIGURE_RECORD_END_MARKER}`;
+
+    it('should parse figure records in order', () => {
+      const output = [
+        'some output',
+        line({
+          path: '/tmp/figure_1.png',
+          figureNumber: 1,
+          name: 'Loss',
+          titles: ['Training', ''],
+          width: 800,
+          height: 600,
+        }),
+        line({
+          path: '/tmp/figure_3.png',
+          figureNumber: 3,
+          name: [],
+          titles: [],
+          width: 400,
+          height: 300,
+        }),
+      ].join('\n');
+
+      expect(parseSavedFigures(output)).toEqual([
+        {
+          path: '/tmp/figure_1.png',
+          figureNumber: 1,
+          name: 'Loss',
+          titles: ['Training', ''],
+          width: 800,
+          height: 600,
+        },
+        {
+          path: '/tmp/figure_3.png',
+          figureNumber: 3,
+          name: '',
+          titles: [],
+          width: 400,
+          height: 300,
+        },
+      ]);
+    });
+
+    it('should report figures without an integer handle as null', () => {
+      const output = line({ path: '/tmp/f.png', figureNumber: [], name: '', width: 1, height: 1 });
+      expect(parseSavedFigures(output)[0]?.figureNumber).toBeNull();
+    });
+  });
+
+  describe('readRenderedFigures', () => {
+    it('should read each figure into a buffer', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'node-matlab-test-'));
+      const path = join(dir, 'figure_1.svg');
+      await writeFile(path, '<svg/>');
+
+      const [figure] = await readRenderedFigures(
+        [{ path, figureNumber: 1, name: 'Plot', titles: [], width: 560, height: 420 }],
+        'svg'
+      );
+      expect(figure?.buffer.toString()).toBe('<svg/>');
+      expect(figure).toMatchObject({ format: 'svg', width: 560, height: 420, name: 'Plot' });
+      await rm(dir, { recursive: true, force: true });
+    });
   });
 
   describe('getFigureSizePreset', () => {
@@ -0,0 +1,50 @@
+/**
+ * MATLAB helper function tests
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { getHelperSource, installHelpers } from '../src/utils/helpers.js';
+
+describe('MATLAB Helpers', () => {
+  describe('getHelperSource', () => {
+    it('should print nm_progress records between markers', () => {
+      const source = getHelperSource('nm_progress') ?? '';
+      expect(source).toMatch(/^function nm_progress\(fraction, message, data\)/);
+      expect(source).toContain(
+        "fprintf('%s%s%s\\n', '__NODE_MATLAB_PROGRESS_START__', jsonencode(record), '__NODE_MATLAB_PROGRESS_END__');"
+      );
+    });
+
+    it('should send nm_call requests and wait for the answer on stdin', () => {
+      const source = getHelperSource('nm_call') ?? '';
+      expect(source).toMatch(/^function varargout = nm_call\(name, varargin\)/);
+      expect(source).toContain("struct('nm_array_class', class(value)");
+      expect(source).toContain("response = jsondecode(input('', 's'));");
+      expect(source).toContain("error('node:callbackFailed', '%s', response.error);");
+    });
+
+    it('should append nm_frame captures to the recorded animation', () => {
+      const source = getHelperSource('nm_frame') ?? '';
+      expect(source).toMatch(/^function nm_frame\(fig\)/);
+      expect(source).toContain('frame = getframe(fig);');
+      expect(source).toContain("'WriteMode', 'append'");
+      expect(source).toContain('writeVideo(__nm_animation__.writer, frame);');
+    });
+
+    it('should return undefined for unknown helpers', () => {
+      expect(getHelperSource('nm_unknown')).toBeUndefined();
+    });
+  });
+
+  describe('installHelpers', () => {
+    it('should write each helper once per process', async () => {
+      const dir = await installHelpers();
+      expect(await installHelpers()).toBe(dir);
+      expect(await readFile(join(dir, 'nm_progress.m'), 'utf-8')).toBe(
+        `${getHelperSource('nm_progress')}\n`
+      );
+    });
+  });
+});
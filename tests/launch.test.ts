@@ -0,0 +1,78 @@
+/**
+ * Launch configuration tests
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  configure,
+  getConfiguration,
+  getDefaultExecutable,
+  resetConfiguration,
+  resolveLaunch,
+} from '../src/utils/launch.js';
+
+describe('Launch Configuration', () => {
+  afterEach(() => {
+    resetConfiguration();
+    vi.unstubAllEnvs();
+  });
+
+  describe('getDefaultExecutable', () => {
+    it('should use matlab from the PATH without MATLAB_ROOT', () => {
+      vi.stubEnv('MATLAB_ROOT', '');
+      expect(getDefaultExecutable()).toBe('matlab');
+    });
+
+    it('should use the executable under MATLAB_ROOT', () => {
+      vi.stubEnv('MATLAB_ROOT', '/opt/matlab');
+      expect(getDefaultExecutable()).toMatch(/opt.matlab.bin.matlab/);
+    });
+  });
+
+  describe('resolveLaunch', () => {
+    it('should fall back to the default executable', () => {
+      vi.stubEnv('MATLAB_ROOT', '');
+      expect(resolveLaunch()).toEqual({ executable: 'matlab', args: [], env: undefined });
+    });
+
+    it('should prefer per-call over global executable', () => {
+      configure({ executable: '/global/matlab' });
+      expect(resolveLaunch().executable).toBe('/global/matlab');
+      expect(resolveLaunch({ executable: '/call/matlab' }).executable).toBe('/call/matlab');
+    });
+
+    it('should append per-call launch arguments to the global ones', () => {
+      configure({ launchArgs: ['-singleCompThread'] });
+      expect(resolveLaunch({ launchArgs: ['-nojvm'] }).args).toEqual([
+        '-singleCompThread',
+        '-nojvm',
+      ]);
+    });
+
+    it('should layer environment variables over process.env', () => {
+      configure({ env: { A: 'global', B: 'global' } });
+      const { env } = resolveLaunch({ env: { B: 'call' } });
+      expect(env?.A).toBe('global');
+      expect(env?.B).toBe('call');
+      expect(env?.PATH).toBe(process.env.PATH);
+    });
+  });
+
+  describe('configure', () => {
+    it('should merge into the current configuration', () => {
+      configure({ executable: '/a/matlab', env: { A: '1' } });
+      configure({ launchArgs: ['-nodisplay'], env: { B: '2' } });
+      expect(getConfiguration()).toEqual({
+        executable: '/a/matlab',
+        launchArgs: ['-nodisplay'],
+        env: { A: '1', B: '2' },
+      });
+    });
+
+    it('should be undone by resetConfiguration', () => {
+      configure({ executable: '/a/matlab' });
+      resetConfiguration();
+      expect(getConfiguration()).toEqual({});
+    });
+  });
+});
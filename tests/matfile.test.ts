@@ -0,0 +1,465 @@
+/**
+ * MAT-file utility tests
+ */
+
+import { deflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { Complex } from '../src/complex.js';
+import {
+  countValueElements,
+  hasMatFileForm,
+  parseMatFile,
+  serializeMatFile,
+} from '../src/utils/matfile.js';
+
+// Helpers to build Level 5 MAT-file bytes by hand (little-endian)
+
+function header(text = 'MATLAB 5.0 MAT-file, test'): Buffer {
+  const buf = Buffer.alloc(128, 0x20);
+  buf.write(text, 0, 'latin1');
+  buf.fill(0, 116, 124);
+  buf.writeUInt16LE(0x0100, 124);
+  buf.write('IM', 126, 'latin1');
+  return buf;
+}
+
+function element(type: number, data: Buffer): Buffer {
+  const tag = Buffer.alloc(8);
+  tag.writeUInt32LE(type, 0);
+  tag.writeUInt32LE(data.length, 4);
+  const padding = Buffer.alloc((8 - (data.length % 8)) % 8);
+  return Buffer.concat([tag, data, padding]);
+}
+
+function smallElement(type: number, data: Buffer): Buffer {
+  const buf = Buffer.alloc(8);
+  buf.writeUInt32LE((data.length << 16) | type, 0);
+  data.copy(buf, 4);
+  return buf;
+}
+
+function int32s(values: number[]): Buffer {
+  const buf = Buffer.alloc(values.length * 4);
+  values.forEach((v, i) => buf.writeInt32LE(v, i * 4));
+  return buf;
+}
+
+function doubles(values: number[]): Buffer {
+  const buf = Buffer.alloc(values.length * 8);
+  values.forEach((v, i) => buf.writeDoubleLE(v, i * 8));
+  return buf;
+}
+
+function matrix(
+  classId: number,
+  dims: number[],
+  name: string,
+  body: Buffer[],
+  flags = 0,
+  nzmax = 0
+): Buffer {
+  const arrayFlags = Buffer.alloc(8);
+  arrayFlags.writeUInt32LE((flags << 8) | classId, 0);
+  arrayFlags.writeUInt32LE(nzmax, 4);
+
+  return element(
+    14,
+    Buffer.concat([
+      element(6, arrayFlags),
+      element(5, int32s(dims)),
+      element(1, Buffer.from(name, 'latin1')),
+      ...body,
+    ])
+  );
+}
+
+function matFile(...elements: Buffer[]): Buffer {
+  return Buffer.concat([header(), ...elements]);
+}
+
+describe('MAT-file Utilities', () => {
+  describe('parseMatFile', () => {
+    it('should reject buffers that are too short', () => {
+      expect(() => parseMatFile(Buffer.alloc(10))).toThrow('too short');
+    });
+
+    it('should reject v7.3 (HDF5) files', () => {
+      const buf = header('MATLAB 7.3 MAT-file, Platform: GLNXA64');
+      expect(() => parseMatFile(buf)).toThrow('7.3');
+    });
+
+    it('should reject files without an endian indicator', () => {
+      const buf = header();
+      buf.write('XX', 126, 'latin1');
+      expect(() => parseMatFile(buf)).toThrow('endian');
+    });
+
+    it('should read the header text', () => {
+      const result = parseMatFile(matFile());
+      expect(result.header).toBe('MATLAB 5.0 MAT-file, test');
+      expect(result.variables).toEqual({});
+    });
+
+    it('should read a double matrix in column-major order', () => {
+      const buf = matFile(matrix(6, [2, 3], 'x', [element(9, doubles([1, 4, 2, 5, 3, 6]))]));
+      const { variables, info } = parseMatFile(buf);
+
+      expect(variables.x).toEqual({
+        type: 'double',
+        dims: [2, 3],
+        real: new Float64Array([1, 4, 2, 5, 3, 6]),
+      });
+      expect(info).toEqual([
+        { name: 'x', size: [2, 3], type: 'double', complex: false, bytes: 48 },
+      ]);
+    });
+
+    it('should convert compact storage types to the array class', () => {
+      // MATLAB stores small-valued doubles as miUINT8
+      const buf = matFile(matrix(6, [1, 3], 'x', [element(2, Buffer.from([1, 2, 250]))]));
+      const x = parseMatFile(buf).variables.x;
+      expect(x).toMatchObject({ type: 'double', real: new Float64Array([1, 2, 250]) });
+    });
+
+    it('should read integer classes into matching typed arrays', () => {
+      const data = Buffer.alloc(6);
+      [1, -2, 300].forEach((v, i) => data.writeInt16LE(v, i * 2));
+      const buf = matFile(matrix(10, [1, 3], 'i', [element(3, data)]));
+      const i = parseMatFile(buf).variables.i;
+      expect(i).toMatchObject({ type: 'int16', real: new Int16Array([1, -2, 300]) });
+    });
+
+    it('should read 64-bit integers without losing precision', () => {
+      const data = Buffer.alloc(8);
+      data.writeBigUInt64LE(2n ** 60n + 1n);
+      const buf = matFile(matrix(15, [1, 1], 'u', [element(13, data)]));
+      const u = parseMatFile(buf).variables.u;
+      expect(u).toMatchObject({ type: 'uint64', real: new BigUint64Array([2n ** 60n + 1n]) });
+    });
+
+    it('should read logical arrays', () => {
+      const buf = matFile(matrix(9, [1, 3], 'b', [element(2, Buffer.from([1, 0, 1]))], 0x02));
+      const { variables, info } = parseMatFile(buf);
+      expect(variables.b).toMatchObject({ type: 'logical', real: new Uint8Array([1, 0, 1]) });
+      expect(info[0]?.bytes).toBe(3);
+    });
+
+    it('should read complex arrays', () => {
+      const buf = matFile(
+        matrix(6, [1, 2], 'z', [element(9, doubles([1, 3])), element(9, doubles([2, -4]))], 0x08)
+      );
+      const { variables, info } = parseMatFile(buf);
+      expect(variables.z).toMatchObject({
+        real: new Float64Array([1, 3]),
+        imag: new Float64Array([2, -4]),
+      });
+      expect(info[0]).toMatchObject({ complex: true, bytes: 32 });
+    });
+
+    it('should read char arrays', () => {
+      const data = Buffer.alloc(10);
+      Array.from('hello').forEach((ch, i) => data.writeUInt16LE(ch.charCodeAt(0), i * 2));
+      const buf = matFile(matrix(4, [1, 5], 'name', [element(4, data)]));
+      expect(parseMatFile(buf).variables.name).toEqual({
+        type: 'char',
+        dims: [1, 5],
+        value: 'hello',
+      });
+    });
+
+    it('should read char matrices row by row', () => {
+      // ['ab'; 'cd'] stored column-major: a c b d
+      const buf = matFile(matrix(4, [2, 2], 'm', [element(16, Buffer.from('acbd'))]));
+      expect(parseMatFile(buf).variables.m).toMatchObject({ value: 'ab\ncd' });
+    });
+
+    it('should read small data element format', () => {
+      const arrayFlags = Buffer.alloc(8);
+      arrayFlags.writeUInt32LE(6, 0);
+      const buf = matFile(
+        element(
+          14,
+          Buffer.concat([
+            element(6, arrayFlags),
+            element(5, int32s([1, 1])),
+            smallElement(1, Buffer.from('v')),
+            element(9, doubles([7])),
+          ])
+        )
+      );
+      expect(parseMatFile(buf).variables.v).toMatchObject({ real: new Float64Array([7]) });
+    });
+
+    it('should read cell arrays', () => {
+      const buf = matFile(
+        matrix(1, [1, 2], 'c', [
+          matrix(6, [1, 1], '', [element(9, doubles([1.5]))]),
+          matrix(4, [1, 2], '', [element(16, Buffer.from('hi'))]),
+        ])
+      );
+      const { variables, info } = parseMatFile(buf);
+      expect(variables.c).toEqual({
+        type: 'cell',
+        dims: [1, 2],
+        cells: [
+          { type: 'double', dims: [1, 1], real: new Float64Array([1.5]) },
+          { type: 'char', dims: [1, 2], value: 'hi' },
+        ],
+      });
+      expect(info[0]).toEqual({ name: 'c', size: [1, 2], type: 'cell' });
+    });
+
+    it('should read struct arrays', () => {
+      const names = Buffer.alloc(16);
+      names.write('a', 0);
+      names.write('bb', 8);
+      const buf = matFile(
+        matrix(2, [1, 1], 's', [
+          element(5, int32s([8])),
+          element(1, names),
+          matrix(6, [1, 1], '', [element(9, doubles([1]))]),
+          matrix(4, [1, 1], '', [element(16, Buffer.from('x'))]),
+        ])
+      );
+      expect(parseMatFile(buf).variables.s).toEqual({
+        type: 'struct',
+        dims: [1, 1],
+        fieldNames: ['a', 'bb'],
+        elements: [
+          {
+            a: { type: 'double', dims: [1, 1], real: new Float64Array([1]) },
+            bb: { type: 'char', dims: [1, 1], value: 'x' },
+          },
+        ],
+      });
+    });
+
+    it('should read sparse matrices', () => {
+      // [0 2; 3 0; 0 0]
+      const buf = matFile(
+        matrix(
+          5,
+          [3, 2],
+          'sp',
+          [element(5, int32s([1, 0])), element(5, int32s([0, 1, 2])), element(9, doubles([3, 2]))],
+          0,
+          2
+        )
+      );
+      const { variables, info } = parseMatFile(buf);
+      expect(variables.sp).toEqual({
+        type: 'double',
+        sparse: true,
+        dims: [3, 2],
+        rowIndices: new Int32Array([1, 0]),
+        columnPointers: new Int32Array([0, 1, 2]),
+        real: new Float64Array([3, 2]),
+      });
+      expect(info[0]).toMatchObject({ sparse: true, complex: false });
+    });
+
+    it('should inflate compressed elements', () => {
+      const inner = matrix(6, [1, 3], 'x', [element(9, doubles([1, 2, 3]))]);
+      const compressed = deflateSync(inner);
+      const tag = Buffer.alloc(8);
+      tag.writeUInt32LE(15, 0);
+      tag.writeUInt32LE(compressed.length, 4);
+
+      const buf = matFile(
+        Buffer.concat([tag, compressed]),
+        matrix(6, [1, 1], 'y', [element(9, doubles([9]))])
+      );
+      const { variables } = parseMatFile(buf);
+      expect(variables.x).toMatchObject({ real: new Float64Array([1, 2, 3]) });
+      expect(variables.y).toMatchObject({ real: new Float64Array([9]) });
+    });
+
+    it('should report global variables', () => {
+      const buf = matFile(matrix(6, [1, 1], 'g', [element(9, doubles([1]))], 0x04));
+      expect(parseMatFile(buf).globals).toEqual(['g']);
+    });
+  });
+
+  describe('serializeMatFile', () => {
+    const roundTrip = (variables: Record<string, unknown>, compress = false) =>
+      parseMatFile(serializeMatFile(variables, { compress })).variables;
+
+    it('should write a valid header', () => {
+      const buf = serializeMatFile({});
+      expect(buf.length).toBe(128);
+      expect(buf.toString('latin1', 0, 10)).toBe('MATLAB 5.0');
+      expect(parseMatFile(buf).variables).toEqual({});
+    });
+
+    it('should write scalars', () => {
+      const vars = roundTrip({ n: 3.5, b: true, empty: null });
+      expect(vars.n).toEqual({ type: 'double', dims: [1, 1], real: new Float64Array([3.5]) });
+      expect(vars.b).toEqual({ type: 'logical', dims: [1, 1], real: new Uint8Array([1]) });
+      expect(vars.empty).toEqual({ type: 'double', dims: [0, 0], real: new Float64Array(0) });
+    });
+
+    it('should write bigint values as 64-bit integers', () => {
+      const vars = roundTrip({ i: -5n, u: 2n ** 63n + 1n });
+      expect(vars.i).toMatchObject({ type: 'int64', real: new BigInt64Array([-5n]) });
+      expect(vars.u).toMatchObject({ type: 'uint64', real: new BigUint64Array([2n ** 63n + 1n]) });
+    });
+
+    it('should write strings as char arrays', () => {
+      const vars = roundTrip({ s: "it's", e: '' });
+      expect(vars.s).toEqual({ type: 'char', dims: [1, 4], value: "it's" });
+      expect(vars.e).toEqual({ type: 'char', dims: [0, 0], value: '' });
+    });
+
+    it('should read long char arrays', () => {
+      const text = 'abcdefghij'.repeat(50_000);
+      const vars = roundTrip({ long: text });
+      expect(vars.long).toEqual({ type: 'char', dims: [1, text.length], value: text });
+    });
+
+    it('should write nested arrays in column-major order', () => {
+      const vars = roundTrip({
+        v: [1, 2, 3],
+        m: [
+          [1, 2, 3],
+          [4, 5, 6],
+        ],
+        cube: [
+          [
+            [1, 2],
+            [3, 4],
+          ],
+          [
+            [5, 6],
+            [7, 8],
+          ],
+        ],
+      });
+      expect(vars.v).toMatchObject({ dims: [1, 3], real: new Float64Array([1, 2, 3]) });
+      expect(vars.m).toMatchObject({ dims: [2, 3], real: new Float64Array([1, 4, 2, 5, 3, 6]) });
+      expect(vars.cube).toMatchObject({
+        dims: [2, 2, 2],
+        real: new Float64Array([1, 5, 3, 7, 2, 6, 4, 8]),
+      });
+    });
+
+    it('should keep the class of typed arrays', () => {
+      const vars = roundTrip({ i: new Int16Array([1, -2]), f: new Float32Array([0.5]) });
+      expect(vars.i).toEqual({ type: 'int16', dims: [1, 2], real: new Int16Array([1, -2]) });
+      expect(vars.f).toEqual({ type: 'single', dims: [1, 1], real: new Float32Array([0.5]) });
+    });
+
+    it('should write objects as structs', () => {
+      const vars = roundTrip({ cfg: { rate: 44100, 'bad key': 'x' } });
+      expect(vars.cfg).toMatchObject({
+        type: 'struct',
+        dims: [1, 1],
+        fieldNames: ['rate', 'bad_key'],
+        elements: [{ rate: { real: new Float64Array([44100]) }, bad_key: { value: 'x' } }],
+      });
+    });
+
+    it('should write arrays of objects as struct arrays', () => {
+      const vars = roundTrip({ people: [{ name: 'a', age: 1 }, { name: 'b' }] });
+      expect(vars.people).toMatchObject({
+        type: 'struct',
+        dims: [1, 2],
+        fieldNames: ['name', 'age'],
+      });
+      const people = vars.people as { elements: Record<string, unknown>[] };
+      expect(people.elements[1]?.age).toMatchObject({ dims: [0, 0] });
+    });
+
+    it('should write string and mixed arrays as cell arrays', () => {
+      const vars = roundTrip({ names: ['a', 'bb'], mixed: [1, 'x', [true, false]] });
+      expect(vars.names).toMatchObject({
+        type: 'cell',
+        dims: [1, 2],
+        cells: [{ value: 'a' }, { value: 'bb' }],
+      });
+      expect(vars.mixed).toMatchObject({
+        type: 'cell',
+        cells: [{ type: 'double' }, { type: 'char' }, { type: 'logical', dims: [1, 2] }],
+      });
+    });
+
+    it('should write back values read from a MAT-file', () => {
+      const sparse = {
+        type: 'double',
+        sparse: true,
+        dims: [3, 2],
+        rowIndices: new Int32Array([1, 0]),
+        columnPointers: new Int32Array([0, 1, 2]),
+        real: new Float64Array([3, 2]),
+      };
+      const complex = {
+        type: 'double',
+        dims: [1, 2],
+        real: new Float64Array([1, 3]),
+        imag: new Float64Array([2, -4]),
+      };
+      const chars = { type: 'char', dims: [2, 2], value: 'ab\ncd' };
+
+      const vars = roundTrip({ sparse, complex, chars });
+      expect(vars.sparse).toEqual(sparse);
+      expect(vars.complex).toEqual(complex);
+      expect(vars.chars).toEqual(chars);
+    });
+
+    it('should compress variables', () => {
+      const data = { x: new Float64Array(1000) };
+      const compressed = serializeMatFile(data, { compress: true });
+      const plain = serializeMatFile(data, { compress: false });
+
+      expect(compressed.length).toBeLessThan(plain.length);
+      expect(compressed.readUInt32LE(128)).toBe(15);
+      expect(parseMatFile(compressed).variables.x).toEqual(parseMatFile(plain).variables.x);
+    });
+
+    it('should compress by default', () => {
+      const buf = serializeMatFile({ x: 1 });
+      expect(buf.readUInt32LE(128)).toBe(15);
+    });
+
+    it('should reject unsupported versions', () => {
+      expect(() => serializeMatFile({}, { version: '-v7.3' })).toThrow('-v7.3');
+      expect(() => serializeMatFile({}, { version: '-v6', compress: true })).toThrow('compression');
+    });
+
+    it('should reject values that cannot be stored', () => {
+      expect(() => serializeMatFile({ f: () => 1 })).toThrow('Cannot write');
+    });
+  });
+
+  describe('countValueElements', () => {
+    it('should count elements in nested values', () => {
+      expect(countValueElements(5)).toBe(1);
+      expect(countValueElements(new Float64Array(100))).toBe(100);
+      expect(countValueElements([[1, 2], [3]])).toBe(3);
+      expect(countValueElements({ a: [1, 2], b: 'x' })).toBe(3);
+    });
+  });
+
+  describe('hasMatFileForm', () => {
+    it('should accept values a MAT-file stores with the class of their code', () => {
+      expect(hasMatFileForm(5)).toBe(true);
+      expect(hasMatFileForm('text')).toBe(true);
+      expect(
+        hasMatFileForm([
+          [1, 2],
+          [3, 4],
+        ])
+      ).toBe(true);
+      expect(hasMatFileForm([true, false])).toBe(true);
+      expect(hasMatFileForm(new Int16Array(4))).toBe(true);
+      expect(hasMatFileForm({ signal: new Float64Array(8), rate: 1000 })).toBe(true);
+    });
+
+    it('should reject dates, Complex scalars and mixed arrays', () => {
+      expect(hasMatFileForm(new Date())).toBe(false);
+      expect(hasMatFileForm({ at: new Date(), values: [1, 2] })).toBe(false);
+      expect(hasMatFileForm(new Complex(1, 2))).toBe(false);
+      expect(hasMatFileForm([1, 'a'])).toBe(false);
+      expect(hasMatFileForm([[1, 2], [3]])).toBe(false);
+    });
+  });
+});
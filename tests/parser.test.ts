@@ -3,15 +3,22 @@
  */
 
 import { describe, expect, it } from 'vitest';
+import { MatlabArray } from '../src/array.js';
+import { Complex } from '../src/complex.js';
 import { JSON_END_MARKER, JSON_START_MARKER } from '../src/types.js';
 import {
+  autoParse,
+  decodeExtractedValue,
+  decodeExtractedValues,
   detectOutputType,
   extractJSON,
   generateJSONExtractionCode,
+  generateJSONListExtractionCode,
   jsToMatlabValue,
   parseArrayString,
   parseLogical,
   parseMatrixOutput,
+  parseNDArrayOutput,
   parseScalar,
   parseString,
   removeJSONMarkers,
@@ -86,6 +93,47 @@ describe('Parser Utilities', () => {
     });
   });
 
+  describe('parseNDArrayOutput', () => {
+    it('should parse paged 3D display output', () => {
+      const output = [
+        'A(:,:,1) =',
+        '',
+        '     1     3',
+        '     2     4',
+        '',
+        '',
+        'A(:,:,2) =',
+        '',
+        '     5     7',
+        '     6     8',
+      ].join('\n');
+
+      const result = parseNDArrayOutput(output);
+      expect(result?.dims).toEqual([2, 2, 2]);
+      expect(Array.from(result?.real ?? [])).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    });
+
+    it('should parse 4D page headers', () => {
+      const pages = ['(:,:,1,1)', '(:,:,2,1)', '(:,:,1,2)', '(:,:,2,2)'];
+      const output = pages.map((p, i) => `ans${p} =\n\n   ${i}\n`).join('\n');
+
+      const result = parseNDArrayOutput(output);
+      expect(result?.dims).toEqual([1, 1, 2, 2]);
+      expect(result?.get(0, 0, 0, 1)).toBe(2);
+    });
+
+    it('should parse plain matrices', () => {
+      expect(parseNDArrayOutput('1 2\n3 4')?.toNested()).toEqual([
+        [1, 2],
+        [3, 4],
+      ]);
+    });
+
+    it('should return null without numbers', () => {
+      expect(parseNDArrayOutput('hello')).toBeNull();
+    });
+  });
+
   describe('parseScalar', () => {
     it('should parse integers', () => {
       expect(parseScalar('42')).toBe(42);
@@ -161,6 +209,12 @@ describe('Parser Utilities', () => {
       expect(detectOutputType('0')).toBe('logical');
     });
 
+    it('should detect complex scalars', () => {
+      expect(detectOutputType('3.0000 + 4.0000i')).toBe('complex');
+      expect(detectOutputType('2i')).toBe('complex');
+      expect(autoParse('1.5000 - 2.0000i')).toEqual(new Complex(1.5, -2));
+    });
+
     it('should detect array', () => {
       expect(detectOutputType('1 2 3 4 5')).toBe('array');
     });
@@ -171,6 +225,10 @@ describe('Parser Utilities', () => {
       expect(jsToMatlabValue(null)).toBe('[]');
     });
 
+    it('should convert dates to datetime', () => {
+      expect(jsToMatlabValue(new Date(2024, 0, 2, 3, 4, 5))).toBe('datetime(2024, 1, 2, 3, 4, 5)');
+    });
+
     it('should convert booleans', () => {
       expect(jsToMatlabValue(true)).toBe('true');
       expect(jsToMatlabValue(false)).toBe('false');
@@ -203,6 +261,16 @@ describe('Parser Utilities', () => {
     it('should convert objects as structs', () => {
       expect(jsToMatlabValue({ a: 1, b: 2 })).toBe("struct('a', 1, 'b', 2)");
     });
+
+    it('should convert Complex values', () => {
+      expect(jsToMatlabValue(new Complex(1, -2))).toBe('complex(1, -2)');
+      expect(jsToMatlabValue([new Complex(1, 2)])).toBe('complex(1, 2)');
+    });
+
+    it('should convert MatlabArray values and N-D arrays', () => {
+      expect(jsToMatlabValue(MatlabArray.from([1, 2], 'int8'))).toBe('int8([1, 2])');
+      expect(jsToMatlabValue([[[1, 2]]])).toBe('reshape([1, 2], [1, 1, 2])');
+    });
   });
 
   describe('generateJSONExtractionCode', () => {
@@ -216,5 +284,87 @@ describe('Parser Utilities', () => {
     it('should return empty string for empty array', () => {
       expect(generateJSONExtractionCode([])).toBe('');
     });
+
+    it('should split complex variables into real and imaginary parts', () => {
+      const code = generateJSONExtractionCode(['z']);
+      expect(code).toContain('~isreal(z)');
+      expect(code).toContain('reshape(real(z), 1, [])');
+      expect(code).toContain('__nm_result__.z.nm_array_imag = reshape(imag(z), 1, []);');
+    });
+
+    it('should encode N-D and integer arrays with their class and size', () => {
+      const code = generateJSONExtractionCode(['img']);
+      expect(code).toContain('ndims(img) > 2');
+      expect(code).toContain("__nm_result__.img = struct('nm_array_class', class(img)");
+    });
+  });
+
+  describe('generateJSONListExtractionCode', () => {
+    it('should collect the values in a cell and encode arrays by position', () => {
+      const code = generateJSONListExtractionCode(['__nm_out1__', '__nm_out2__']);
+      expect(code).toContain('__nm_result__ = {__nm_out1__, __nm_out2__};');
+      expect(code).toContain("__nm_result__{2} = struct('nm_array_class', class(__nm_out2__)");
+      expect(code).toContain('jsonencode(__nm_result__)');
+    });
+  });
+
+  describe('decodeExtractedValue', () => {
+    it('should rebuild encoded arrays as MatlabArray', () => {
+      const value = decodeExtractedValue({
+        nm_array_class: 'uint8',
+        nm_array_dims: [1, 2, 2],
+        nm_array_data: [1, 2, 3, 4],
+      });
+
+      expect(value).toBeInstanceOf(MatlabArray);
+      const arr = value as MatlabArray;
+      expect(arr.type).toBe('uint8');
+      expect(arr.dims).toEqual([1, 2, 2]);
+      expect(arr.get(0, 1, 1)).toBe(4);
+    });
+
+    it('should handle scalar data and nulls from jsonencode', () => {
+      const single = decodeExtractedValue({
+        nm_array_class: 'double',
+        nm_array_dims: [1, 1, 1],
+        nm_array_data: 5,
+      }) as MatlabArray;
+      expect(single.get(0)).toBe(5);
+
+      const withNaN = decodeExtractedValue({
+        nm_array_class: 'double',
+        nm_array_dims: [1, 2, 1],
+        nm_array_data: [null, 1],
+      }) as MatlabArray;
+      expect(withNaN.get(0)).toBeNaN();
+    });
+
+    it('should rebuild complex scalars as Complex', () => {
+      const value = decodeExtractedValue({
+        nm_array_class: 'double',
+        nm_array_dims: [1, 1],
+        nm_array_data: 3,
+        nm_array_imag: -4,
+      });
+      expect(value).toBeInstanceOf(Complex);
+      expect(value).toEqual(new Complex(3, -4));
+    });
+
+    it('should rebuild complex arrays with their imaginary part', () => {
+      const value = decodeExtractedValue({
+        nm_array_class: 'int16',
+        nm_array_dims: [1, 2],
+        nm_array_data: [1, 2],
+        nm_array_imag: [3, 4],
+      }) as MatlabArray;
+      expect(value.complex).toBe(true);
+      expect(value.type).toBe('int16');
+      expect(Array.from(value.imag as Int16Array)).toEqual([3, 4]);
+    });
+
+    it('should leave other values unchanged', () => {
+      expect(decodeExtractedValue({ a: 1 })).toEqual({ a: 1 });
+      expect(decodeExtractedValues({ x: [1, 2], y: 'text' })).toEqual({ x: [1, 2], y: 'text' });
+    });
   });
 });
@@ -0,0 +1,227 @@
+/**
+ * Session pool tests
+ */
+
+import { EventEmitter } from 'node:events';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { MatlabError, MatlabSessionCrashedError, MatlabTimeoutError } from '../src/errors.js';
+import { MatlabSessionPool } from '../src/pool.js';
+import type { SessionPoolStats } from '../src/types.js';
+
+class FakeSession extends EventEmitter {
+  isReady = true;
+  commandCount = 0;
+  closed = false;
+
+  async run(): Promise<{ output: string; exitCode: number; duration: number }> {
+    this.commandCount++;
+    return { output: '', exitCode: 0, duration: 0 };
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.isReady = false;
+  }
+}
+
+const created: FakeSession[] = [];
+
+vi.mock('../src/session.js', () => ({
+  createSession: vi.fn(async () => {
+    const session = new FakeSession();
+    created.push(session);
+    return session;
+  }),
+}));
+
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+describe('MatlabSessionPool', () => {
+  beforeEach(() => {
+    created.length = 0;
+  });
+
+  it('should pre-warm the configured number of sessions', async () => {
+    const pool = new MatlabSessionPool({ size: 3 });
+    await pool.start();
+
+    expect(created).toHaveLength(3);
+    expect(pool.stats).toEqual({ size: 3, idle: 3, busy: 0, starting: 0, queued: 0 });
+
+    await pool.close();
+  });
+
+  it('should start lazily on first use', async () => {
+    const pool = new MatlabSessionPool({ size: 1 });
+    const result = await pool.use(async () => 42);
+
+    expect(result).toBe(42);
+    expect(created).toHaveLength(1);
+
+    await pool.close();
+  });
+
+  it('should queue callers when all sessions are busy', async () => {
+    const pool = new MatlabSessionPool({ size: 1 });
+    await pool.start();
+
+    const gate = deferred();
+    const order: string[] = [];
+
+    const first = pool.use(async () => {
+      order.push('first');
+      await gate.promise;
+    });
+    const second = pool.use(async () => {
+      order.push('second');
+    });
+
+    await vi.waitFor(() => expect(pool.stats.queued).toBe(1));
+    expect(pool.stats.busy).toBe(1);
+    expect(order).toEqual(['first']);
+
+    gate.resolve();
+    await Promise.all([first, second]);
+
+    expect(order).toEqual(['first', 'second']);
+    expect(pool.stats).toMatchObject({ idle: 1, busy: 0, queued: 0 });
+
+    await pool.close();
+  });
+
+  it('should keep a session whose callback throws a script error', async () => {
+    const pool = new MatlabSessionPool({ size: 1 });
+    await pool.start();
+    const recycled = vi.fn();
+    pool.on('recycle', recycled);
+
+    await expect(
+      pool.use(async () => {
+        throw new MatlabError('Undefined variable', { type: 'runtime' });
+      })
+    ).rejects.toThrow('Undefined variable');
+
+    await pool.use(async (session) => {
+      expect(session).toBe(created[0]);
+    });
+    expect(recycled).not.toHaveBeenCalled();
+    expect(created).toHaveLength(1);
+
+    await pool.close();
+  });
+
+  it('should recycle a session restarted during the lease', async () => {
+    const pool = new MatlabSessionPool({ size: 1 });
+    await pool.start();
+    const recycled = vi.fn();
+    pool.on('recycle', recycled);
+
+    await expect(
+      pool.use(async (session) => {
+        (session as unknown as FakeSession).emit('restart', { attempt: 1 });
+        throw new MatlabTimeoutError(10);
+      })
+    ).rejects.toBeInstanceOf(MatlabTimeoutError);
+
+    expect(recycled).toHaveBeenCalledWith(expect.objectContaining({ reason: 'crashed' }));
+    expect(created[0]?.closed).toBe(true);
+
+    await pool.close();
+  });
+
+  it('should recycle a session when MATLAB crashed', async () => {
+    const pool = new MatlabSessionPool({ size: 1 });
+    await pool.start();
+    const recycled = vi.fn();
+    pool.on('recycle', recycled);
+
+    await expect(
+      pool.use(async () => {
+        throw new MatlabSessionCrashedError(1, null, 'crash');
+      })
+    ).rejects.toBeInstanceOf(MatlabSessionCrashedError);
+
+    expect(recycled).toHaveBeenCalledWith(expect.objectContaining({ reason: 'crashed' }));
+    expect(created[0]?.closed).toBe(true);
+
+    await pool.use(async (session) => {
+      expect(session).toBe(created[1]);
+    });
+
+    await pool.close();
+  });
+
+  it('should recycle a session after maxCommandsPerSession', async () => {
+    const pool = new MatlabSessionPool({ size: 1, maxCommandsPerSession: 2 });
+    await pool.start();
+
+    await pool.use(async (session) => {
+      await session.run('a = 1;');
+    });
+    expect(created).toHaveLength(1);
+
+    await pool.use(async (session) => {
+      await session.run('b = 2;');
+    });
+    await vi.waitFor(() => expect(created).toHaveLength(2));
+    expect(created[0]?.closed).toBe(true);
+
+    await pool.close();
+  });
+
+  it('should time out waiting for a free session', async () => {
+    const pool = new MatlabSessionPool({ size: 1, acquireTimeout: 20 });
+    await pool.start();
+
+    const gate = deferred();
+    const first = pool.use(() => gate.promise);
+
+    await expect(pool.use(async () => undefined)).rejects.toBeInstanceOf(MatlabTimeoutError);
+    expect(pool.stats.queued).toBe(0);
+
+    gate.resolve();
+    await first;
+    await pool.close();
+  });
+
+  it('should emit stats on changes', async () => {
+    const pool = new MatlabSessionPool({ size: 2 });
+    const stats: SessionPoolStats[] = [];
+    pool.on('stats', (s: SessionPoolStats) => stats.push(s));
+
+    await pool.start();
+    await pool.use(async () => undefined);
+
+    expect(stats.some((s) => s.starting === 2)).toBe(true);
+    expect(stats.some((s) => s.busy === 1)).toBe(true);
+    expect(stats.at(-1)).toMatchObject({ idle: 2, busy: 0 });
+
+    await pool.close();
+  });
+
+  it('should drain leases before closing sessions', async () => {
+    const pool = new MatlabSessionPool({ size: 1 });
+    await pool.start();
+
+    const gate = deferred();
+    const lease = pool.use(() => gate.promise);
+    await vi.waitFor(() => expect(pool.stats.busy).toBe(1));
+
+    const closing = pool.close();
+    await expect(pool.use(async () => undefined)).rejects.toThrow('Session pool is closed');
+    expect(created[0]?.closed).toBe(false);
+
+    gate.resolve();
+    await lease;
+    await closing;
+
+    expect(created[0]?.closed).toBe(true);
+    expect(pool.stats.idle).toBe(0);
+  });
+});
@@ -2,8 +2,32 @@
  * Process utility tests
  */
 
-import { describe, expect, it } from 'vitest';
-import { buildMatlabArgs, buildSpawnOptions } from '../src/utils/process.js';
+import { EventEmitter } from 'node:events';
+import { readFileSync } from 'node:fs';
+import { describe, expect, it, vi } from 'vitest';
+import { parseMatFile } from '../src/utils/matfile.js';
+import { buildMatlabArgs, buildSpawnOptions, executeMatlabScript } from '../src/utils/process.js';
+
+/** Input files referenced by the last spawned batch command, read at spawn time */
+const spawned: { mat?: Buffer; script?: string } = {};
+
+vi.mock('node:child_process', () => ({
+  spawn: vi.fn((_executable: string, args: string[]) => {
+    const batch = args.at(-1) ?? '';
+    const mat = batch.match(/load\('([^']+)'\)/)?.[1];
+    const script = batch.match(/run\('([^']+)'\); run\(/)?.[1];
+    spawned.mat = mat ? readFileSync(mat) : undefined;
+    spawned.script = script ? readFileSync(script, 'utf-8') : undefined;
+
+    const child = Object.assign(new EventEmitter(), {
+      stdout: new EventEmitter(),
+      stderr: new EventEmitter(),
+      kill: () => true,
+    });
+    setImmediate(() => child.emit('close', 0));
+    return child;
+  }),
+}));
 
 describe('Process Utilities', () => {
   describe('buildMatlabArgs', () => {
@@ -15,6 +39,12 @@ describe('Process Utilities', () => {
       expect(args.some((a) => a.includes("run('/path/to/script.m')"))).toBe(true);
     });
 
+    it('should report failures as a structured exception', () => {
+      const batchArg = buildMatlabArgs('/script.m').at(-1) ?? '';
+      expect(batchArg.startsWith("try, run('/script.m');")).toBe(true);
+      expect(batchArg).toContain('__NODE_MATLAB_EXCEPTION_START__');
+    });
+
     it('should include addPath commands', () => {
       const args = buildMatlabArgs('/script.m', {
         addPath: ['/custom/path1', '/custom/path2'],
@@ -32,6 +62,31 @@ describe('Process Utilities', () => {
       expect(batchArg).toContain("''"); // Escaped quote
     });
 
+    it('should load input variables before running the script', () => {
+      const args = buildMatlabArgs('/script.m', undefined, '/tmp/data.mat');
+      const batchArg = args[args.length - 1] ?? '';
+      expect(batchArg).toContain("load('/tmp/data.mat');");
+      expect(batchArg.indexOf('load(')).toBeLessThan(batchArg.indexOf('run('));
+    });
+
+    it('should add the helper directory to the path first', () => {
+      const args = buildMatlabArgs(
+        '/script.m',
+        { addPath: ['/custom'] },
+        undefined,
+        '/tmp/helpers'
+      );
+      const batchArg = args.at(-1) ?? '';
+      expect(batchArg).toContain("addpath('/tmp/helpers');");
+      expect(batchArg.indexOf('/tmp/helpers')).toBeLessThan(batchArg.indexOf('/custom'));
+    });
+
+    it('should put launch arguments before the batch arguments', () => {
+      const args = buildMatlabArgs('/script.m', { launchArgs: ['-singleCompThread'] });
+      expect(args[0]).toBe('-singleCompThread');
+      expect(args.indexOf('-batch')).toBeGreaterThan(0);
+    });
+
     it('should escape single quotes in addPath', () => {
       const args = buildMatlabArgs('/script.m', {
         addPath: ["/path/with'quote"],
@@ -41,6 +96,23 @@ describe('Process Utilities', () => {
     });
   });
 
+  describe('executeMatlabScript', () => {
+    it('should assign values a MAT-file would change the class of in code', async () => {
+      await executeMatlabScript('/script.m', {
+        variables: {
+          samples: [1, 2, 3],
+          when: new Date(2024, 0, 2, 3, 4, 5),
+          mixed: [1, 'a'],
+        },
+      });
+
+      expect(spawned.mat && Object.keys(parseMatFile(spawned.mat).variables)).toEqual(['samples']);
+      expect(spawned.script).toContain('when = datetime(2024, 1, 2, 3, 4, 5);');
+      expect(spawned.script).toMatch(/^mixed = /m);
+      expect(spawned.script).not.toContain('samples');
+    });
+  });
+
   describe('buildSpawnOptions', () => {
     it('should return default options', () => {
       const opts = buildSpawnOptions();
@@ -0,0 +1,202 @@
+/**
+ * Session protocol tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  createCommandId,
+  encodeCallResponse,
+  extractException,
+  extractFrame,
+  generateExceptionEncodingCode,
+  parseCallRequest,
+  parseExceptionJSON,
+  parseFrame,
+  readOutputLines,
+  toEvalStatement,
+  wrapBatchCode,
+  wrapCommand,
+} from '../src/utils/protocol.js';
+
+describe('Session Protocol', () => {
+  describe('createCommandId', () => {
+    it('should create unique identifiers', () => {
+      const ids = new Set(Array.from({ length: 100 }, () => createCommandId()));
+      expect(ids.size).toBe(100);
+      expect(createCommandId()).toMatch(/^[0-9a-f]{16}$/);
+    });
+  });
+
+  describe('wrapCommand', () => {
+    it('should produce a single line with begin and end sentinels', () => {
+      const wrapped = wrapCommand('x = 1;\ny = 2;', 'abc');
+      expect(wrapped.endsWith('\n')).toBe(true);
+      expect(wrapped.slice(0, -1)).not.toContain('\n');
+      expect(wrapped).toContain('__NODE_MATLAB_BEGIN_abc__');
+      expect(wrapped).toContain('__NODE_MATLAB_END_abc__');
+      expect(wrapped.indexOf('BEGIN_abc')).toBeLessThan(wrapped.indexOf('END_abc'));
+    });
+
+    it('should evaluate the command inside try/catch', () => {
+      const wrapped = wrapCommand("disp('it''s')\nx = 1;", 'abc');
+      expect(wrapped).toContain("try, eval(strjoin({'disp(''it''''s'')', 'x = 1;'}, newline));");
+      expect(wrapped).toContain(`catch __nm_err__, ${generateExceptionEncodingCode()}`);
+      expect(wrapped).toContain("fprintf('%s%s\\n', '__NODE_MATLAB_ERROR_abc__', __nm_exc__);");
+    });
+
+    it('should print sentinels on stderr too', () => {
+      expect(wrapCommand('x = 1;', 'abc')).toContain(
+        "fprintf(2, '%s\\n', '__NODE_MATLAB_END_abc__');"
+      );
+    });
+  });
+
+  describe('extractFrame', () => {
+    it('should return null until the end sentinel arrives', () => {
+      expect(extractFrame('__NODE_MATLAB_BEGIN_a__\npartial', 'a')).toBeNull();
+    });
+
+    it('should split the body from what follows', () => {
+      const frame = extractFrame(
+        '>> leftover\n__NODE_MATLAB_BEGIN_a__\nhello\n__NODE_MATLAB_END_a__\n>> next',
+        'a'
+      );
+      expect(frame).toEqual({ body: '\nhello\n', rest: '>> next' });
+    });
+
+    it('should ignore sentinels of other commands', () => {
+      const buffer = '__NODE_MATLAB_BEGIN_a__\n__NODE_MATLAB_END_b__\n';
+      expect(extractFrame(buffer, 'a')).toBeNull();
+    });
+  });
+
+  describe('readOutputLines', () => {
+    it('should return complete lines and keep partial ones for later', () => {
+      let buffer = '>> old\n__NODE_MATLAB_BEGIN_a__\nstep 1\nstep';
+      const first = readOutputLines(buffer, 'a', 0);
+      expect(first.lines).toEqual(['step 1']);
+
+      buffer += ' 2\n>> \n__NODE_MATLAB_ERROR_a__{}\n__NODE_MATLAB_END_a__\n>> after\n';
+      const second = readOutputLines(buffer, 'a', first.offset);
+      expect(second.lines).toEqual(['step 2']);
+      expect(readOutputLines(buffer, 'a', second.offset).lines).toEqual([]);
+    });
+
+    it('should ignore output before the command has begun', () => {
+      expect(readOutputLines('>> leftover\n', 'a', 0)).toEqual({ lines: [], offset: 0 });
+    });
+  });
+
+  describe('parseFrame', () => {
+    it('should clean prompts from the output', () => {
+      const frame = parseFrame('\n>> x =\n\n     1\n\n>> ', '', 'a');
+      expect(frame).toEqual({ output: 'x =\n\n     1', errorOutput: '', error: null });
+    });
+
+    it('should extract the serialized error', () => {
+      const error = [
+        {
+          identifier: 'MATLAB:UndefinedFunction',
+          message: "Undefined function 'foo'.",
+          stack: { file: '/tmp/f.m', name: 'f', line: 3 },
+          parent: 0,
+        },
+      ];
+      const frame = parseFrame(
+        `\nbefore\n__NODE_MATLAB_ERROR_a__${JSON.stringify(error)}\n`,
+        'Warning: something\n',
+        'a'
+      );
+
+      expect(frame.output).toBe('before');
+      expect(frame.errorOutput).toBe('Warning: something');
+      expect(frame.error).toEqual({
+        identifier: 'MATLAB:UndefinedFunction',
+        message: "Undefined function 'foo'.",
+        stack: [{ file: '/tmp/f.m', name: 'f', line: 3 }],
+        cause: [],
+      });
+    });
+  });
+
+  describe('parseCallRequest', () => {
+    it('should decode the request printed by nm_call', () => {
+      expect(
+        parseCallRequest(
+          '__NODE_MATLAB_CALL_START__{"name":"fetch","args":[1,"a"]}__NODE_MATLAB_CALL_END__'
+        )
+      ).toEqual({ name: 'fetch', args: [1, 'a'] });
+    });
+
+    it('should return null for other lines', () => {
+      expect(parseCallRequest('fetch(1)')).toBeNull();
+      expect(parseCallRequest('__NODE_MATLAB_CALL_START__{}__NODE_MATLAB_CALL_END__')).toBeNull();
+    });
+
+    it('should be left out of the command output', () => {
+      const request = '__NODE_MATLAB_CALL_START__{"name":"log","args":[]}__NODE_MATLAB_CALL_END__';
+      expect(parseFrame(`\nbefore\n${request}\nafter\n`, '', 'a').output).toBe('before\nafter');
+    });
+  });
+
+  describe('encodeCallResponse', () => {
+    it('should write a single JSON line', () => {
+      expect(encodeCallResponse({ value: "'a\nb'" })).toBe('{"value":"\'a\\nb\'"}\n');
+      expect(encodeCallResponse({ error: 'Denied' })).toBe('{"error":"Denied"}\n');
+    });
+  });
+
+  describe('toEvalStatement', () => {
+    it('should quote each line', () => {
+      expect(toEvalStatement("a = 'x';\nb = 2")).toBe(
+        "eval(strjoin({'a = ''x'';', 'b = 2'}, newline));"
+      );
+    });
+  });
+
+  describe('parseExceptionJSON', () => {
+    it('should rebuild the cause tree', () => {
+      const exception = parseExceptionJSON(
+        JSON.stringify([
+          { identifier: 'top:err', message: 'Top', stack: [], parent: 0 },
+          { identifier: 'a:err', message: 'A', stack: [], parent: 1 },
+          { identifier: 'b:err', message: 'B', stack: [], parent: 1 },
+          { identifier: 'c:err', message: 'C', stack: [], parent: 2 },
+        ])
+      );
+
+      expect(exception?.identifier).toBe('top:err');
+      expect(exception?.cause.map((c) => c.identifier)).toEqual(['a:err', 'b:err']);
+      expect(exception?.cause[0]?.cause[0]?.message).toBe('C');
+    });
+
+    it('should accept a single encoded exception', () => {
+      const exception = parseExceptionJSON(
+        JSON.stringify({ identifier: '', message: 'Oops', stack: [], parent: 0 })
+      );
+      expect(exception).toEqual({ identifier: '', message: 'Oops', stack: [], cause: [] });
+    });
+
+    it('should return null for invalid JSON', () => {
+      expect(parseExceptionJSON('{not json')).toBeNull();
+    });
+  });
+
+  describe('wrapBatchCode', () => {
+    it('should report failures on stderr and exit with code 1', () => {
+      const code = wrapBatchCode("run('/tmp/s.m');");
+      expect(code.startsWith("try, run('/tmp/s.m');")).toBe(true);
+      expect(code).toContain("fprintf(2, '%s%s%s\\n', '__NODE_MATLAB_EXCEPTION_START__'");
+      expect(code).toMatch(/exit\(1\); end$/);
+    });
+  });
+
+  describe('extractException', () => {
+    it('should find the exception between markers', () => {
+      const json = JSON.stringify({ identifier: 'x:y', message: 'Bad', stack: [], parent: 0 });
+      const stderr = `noise\n__NODE_MATLAB_EXCEPTION_START__${json}__NODE_MATLAB_EXCEPTION_END__\n`;
+      expect(extractException(stderr)?.identifier).toBe('x:y');
+      expect(extractException('Error: something else')).toBeNull();
+    });
+  });
+});
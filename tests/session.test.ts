@@ -0,0 +1,571 @@
+/**
+ * Session tests
+ */
+
+import { EventEmitter } from 'node:events';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MatlabArray } from '../src/array.js';
+import { MatlabAbortError, MatlabSessionCrashedError, MatlabTimeoutError } from '../src/errors.js';
+import { MatlabSession } from '../src/session.js';
+import type { MatlabProgress, MatlabStreamEvent, SessionRestartEvent } from '../src/types.js';
+
+/**
+ * Stand-in for the MATLAB child process: prints a prompt on spawn, answers
+ * every wrapped command with its sentinels and exits on `crash` or `quit`.
+ * Commands calling `pause(` keep it busy until it receives SIGINT; a SIGINT
+ * at the prompt cancels the next command instead. Commands
+ * calling `nm_call(` print `nextCall` as a callback request and finish with
+ * `answer: <response>` once the response line arrives.
+ */
+class FakeProcess extends EventEmitter {
+  stdout = new EventEmitter();
+  stderr = new EventEmitter();
+  written: string[] = [];
+  signals: NodeJS.Signals[] = [];
+  /** Output printed by the next command */
+  nextOutput = '';
+  /** Running a command that has not been interrupted */
+  busy = false;
+  /** Keep running after SIGINT */
+  ignoreInterrupt = false;
+  /** Keep running after `quit` */
+  ignoreQuit = false;
+  /** Exit when killed with a signal other than SIGINT */
+  exitOnKill = true;
+  /** Received SIGINT at the prompt, so the next command is cancelled */
+  private interruptedAtPrompt = false;
+  /** Callback request printed by the next `nm_call(` command */
+  nextCall: { name: string; args: unknown[] } = { name: '', args: [] };
+  /** Command waiting for a callback response */
+  private awaitingCall: string | null = null;
+  stdin = {
+    write: (data: string): boolean => {
+      this.written.push(data);
+      setImmediate(() => this.respond(data));
+      return true;
+    },
+  };
+
+  kill(signal: NodeJS.Signals = 'SIGTERM'): boolean {
+    this.signals.push(signal);
+    if (signal === 'SIGINT') {
+      this.interruptedAtPrompt = !this.busy;
+      this.busy = this.busy && this.ignoreInterrupt;
+    } else if (this.exitOnKill) {
+      this.exit(null, signal);
+    }
+    return true;
+  }
+
+  exit(code: number | null, signal: NodeJS.Signals | null = null): void {
+    this.emit('close', code, signal);
+  }
+
+  private respond(data: string): void {
+    const id = data.match(/__NODE_MATLAB_BEGIN_(\w+?)__/)?.[1];
+    if (data.startsWith('quit')) {
+      if (!this.ignoreQuit) {
+        this.exit(0);
+      }
+    } else if (this.awaitingCall && data.startsWith('{')) {
+      const callId = this.awaitingCall;
+      this.awaitingCall = null;
+      this.busy = false;
+      this.stdout.emit(
+        'data',
+        Buffer.from(`answer: ${data.trim()}\n__NODE_MATLAB_END_${callId}__\n>> `)
+      );
+      this.stderr.emit('data', Buffer.from(`__NODE_MATLAB_END_${callId}__\n`));
+    } else if (this.busy) {
+      // Input waits until the running command returns
+      setTimeout(() => this.respond(data), 5);
+    } else if (this.interruptedAtPrompt) {
+      this.interruptedAtPrompt = false;
+    } else if (data.includes('crash')) {
+      this.exit(1);
+    } else if (data.includes('pause(')) {
+      this.busy = true;
+    } else if (id && data.includes('nm_call(')) {
+      this.busy = true;
+      this.awaitingCall = id;
+      const request = JSON.stringify(this.nextCall);
+      this.stderr.emit('data', Buffer.from(`__NODE_MATLAB_BEGIN_${id}__\n`));
+      this.stdout.emit(
+        'data',
+        Buffer.from(
+          `__NODE_MATLAB_BEGIN_${id}__\n__NODE_MATLAB_CALL_START__${request}__NODE_MATLAB_CALL_END__\n`
+        )
+      );
+    } else if (id) {
+      let body = this.nextOutput;
+      this.nextOutput = '';
+      if (data.includes('error(')) {
+        const error = { identifier: 'test:failed', message: 'Test failure', stack: [] };
+        body += `__NODE_MATLAB_ERROR_${id}__${JSON.stringify(error)}\n`;
+      }
+      this.stderr.emit('data', Buffer.from(`__NODE_MATLAB_BEGIN_${id}__\n`));
+      this.stdout.emit(
+        'data',
+        Buffer.from(`__NODE_MATLAB_BEGIN_${id}__\n${body}__NODE_MATLAB_END_${id}__\n>> `)
+      );
+      this.stderr.emit('data', Buffer.from(`__NODE_MATLAB_END_${id}__\n`));
+    }
+  }
+}
+
+const processes: FakeProcess[] = [];
+
+vi.mock('node:child_process', () => ({
+  spawn: vi.fn(() => {
+    const child = new FakeProcess();
+    processes.push(child);
+    setImmediate(() => child.stdout.emit('data', Buffer.from('>> ')));
+    return child;
+  }),
+}));
+
+vi.mock('../src/utils/version.js', () => ({
+  isInstalled: () => true,
+  readInstalledVersion: () => null,
+}));
+
+describe('MatlabSession', () => {
+  afterEach(() => {
+    processes.length = 0;
+  });
+
+  describe('crash handling', () => {
+    it('should reject all commands and close without autoRestart', async () => {
+      const session = new MatlabSession();
+      await session.start();
+
+      const crashed = session.run('crash');
+      const queued = session.run('x = 1;');
+
+      await expect(crashed).rejects.toBeInstanceOf(MatlabSessionCrashedError);
+      await expect(queued).rejects.toBeInstanceOf(MatlabSessionCrashedError);
+      expect(session.sessionState).toBe('closed');
+    });
+
+    it('should restart and continue with queued commands', async () => {
+      const session = new MatlabSession({ autoRestart: { initialDelay: 1 } });
+      const restarts: SessionRestartEvent[] = [];
+      session.on('restart', (event: SessionRestartEvent) => restarts.push(event));
+      await session.start();
+      await session.addPath('/tools');
+      await session.cd('/work');
+
+      const crashed = session.run('crash');
+      const queued = session.run('x = 1;');
+
+      const error = await crashed.catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(MatlabSessionCrashedError);
+      expect((error as MatlabSessionCrashedError).exitCode).toBe(1);
+      expect((error as MatlabSessionCrashedError).command).toBe('crash');
+
+      await expect(queued).resolves.toMatchObject({ exitCode: 0 });
+      expect(processes).toHaveLength(2);
+      expect(restarts).toEqual([
+        expect.objectContaining({ exitCode: 1, signal: null, attempt: 1, delay: 1 }),
+      ]);
+      expect(restarts[0]?.reason).toContain('exit code 1');
+
+      const replay = processes[1]?.written[0] ?? '';
+      expect(replay).toContain("addpath('/tools');");
+      expect(replay).toContain("cd('/work');");
+
+      await session.close();
+    });
+
+    it('should back off and give up after maxRestarts', async () => {
+      const session = new MatlabSession({
+        autoRestart: { maxRestarts: 1, initialDelay: 1, resetAfter: 60000 },
+      });
+      await session.start();
+
+      await expect(session.run('crash')).rejects.toBeInstanceOf(MatlabSessionCrashedError);
+      await new Promise((resolve) => session.once('restart', resolve));
+
+      await expect(session.run('crash')).rejects.toBeInstanceOf(MatlabSessionCrashedError);
+      expect(session.sessionState).toBe('closed');
+      expect(processes).toHaveLength(2);
+    });
+
+    it('should stop a pending restart when closed', async () => {
+      const session = new MatlabSession({ autoRestart: { initialDelay: 50 } });
+      await session.start();
+
+      const crashed = session.run('crash');
+      const queued = session.run('x = 1;');
+      await expect(crashed).rejects.toBeInstanceOf(MatlabSessionCrashedError);
+
+      await session.close();
+      await expect(queued).rejects.toThrow('Session closed');
+      await new Promise((resolve) => setTimeout(resolve, 80));
+      expect(processes).toHaveLength(1);
+    });
+  });
+
+  describe('closing', () => {
+    it('should ignore a late exit of a force-killed process after restart', async () => {
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+      try {
+        const session = new MatlabSession({ autoRestart: { initialDelay: 1 } });
+        const restarts: SessionRestartEvent[] = [];
+        session.on('restart', (event: SessionRestartEvent) => restarts.push(event));
+        await session.start();
+        const stale = processes[0] as FakeProcess;
+        stale.ignoreQuit = true;
+        stale.exitOnKill = false;
+
+        const restarting = session.restart();
+        await vi.advanceTimersByTimeAsync(5000);
+        await restarting;
+        expect(stale.signals).toEqual(['SIGKILL']);
+
+        stale.exit(null, 'SIGKILL');
+        expect(session.sessionState).toBe('ready');
+        await expect(session.run('x = 1;')).resolves.toMatchObject({ exitCode: 0 });
+        expect(processes).toHaveLength(2);
+        expect(restarts).toEqual([]);
+        await session.close();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('protocol', () => {
+    it('should attribute output to the command that printed it', async () => {
+      const session = new MatlabSession();
+      await session.start();
+
+      const child = processes[0] as FakeProcess;
+      child.nextOutput = '__NODE_MATLAB_END_forged__\nx =\n\n     1\n';
+      const first = await session.run('x = 1');
+      const second = await session.run('y = 2;');
+
+      expect(first.output).toBe('__NODE_MATLAB_END_forged__\nx =\n\n     1');
+      expect(second.output).toBe('');
+      await session.close();
+    });
+
+    it('should pass only its own output lines to onProgress', async () => {
+      const session = new MatlabSession();
+      await session.start();
+
+      const child = processes[0] as FakeProcess;
+      const lines: string[] = [];
+      child.nextOutput = 'step 1\nstep 2\n';
+      await session.run('work()', { onProgress: (line) => lines.push(line) });
+      child.nextOutput = 'other\n';
+      await session.run('other()');
+
+      expect(lines).toEqual(['step 1', 'step 2']);
+      await session.close();
+    });
+
+    it('should pass progress records to onStructuredProgress only', async () => {
+      const session = new MatlabSession();
+      await session.start();
+
+      const child = processes[0] as FakeProcess;
+      const lines: string[] = [];
+      const records: MatlabProgress[] = [];
+      child.nextOutput =
+        'start\n__NODE_MATLAB_PROGRESS_START__{"fraction":0.5,"message":"half"}__NODE_MATLAB_PROGRESS_END__\n';
+      const result = await session.run('work()', {
+        onProgress: (line) => lines.push(line),
+        onStructuredProgress: (progress) => records.push(progress),
+      });
+
+      expect(lines).toEqual(['start']);
+      expect(records).toEqual([{ fraction: 0.5, message: 'half' }]);
+      expect(result.output).toBe('start');
+      expect(child.written[0]).toMatch(/addpath\('[^']*node-matlab-helpers-[^']*'\);/);
+      await session.close();
+    });
+
+    it('should stream the output of a command', async () => {
+      const session = new MatlabSession();
+      await session.start();
+
+      const child = processes[0] as FakeProcess;
+      child.nextOutput = 'step 1\n__NODE_MATLAB_FIGURE_CREATED__1\nstep 2\n';
+      const events: MatlabStreamEvent[] = [];
+      for await (const event of session.stream('work()')) {
+        events.push(event);
+      }
+
+      expect(events).toEqual([
+        { type: 'stdout', line: 'step 1' },
+        { type: 'figure-created', figure: 1 },
+        { type: 'stdout', line: 'step 2' },
+        {
+          type: 'done',
+          result: expect.objectContaining({ output: 'step 1\nstep 2', exitCode: 0 }),
+        },
+      ]);
+      expect(child.written.at(-1)).toContain('defaultFigureCreateFcn');
+      await session.close();
+    });
+
+    it('should throw the command error from the stream', async () => {
+      const session = new MatlabSession();
+      await session.start();
+
+      const events: MatlabStreamEvent[] = [];
+      const consume = async () => {
+        for await (const event of session.stream("error('test:failed', 'Test failure')")) {
+          events.push(event);
+        }
+      };
+
+      await expect(consume()).rejects.toThrow('Test failure');
+      expect(events).toEqual([]);
+      await session.close();
+    });
+
+    it('should accept per-call options on session methods', async () => {
+      const session = new MatlabSession();
+      await session.start();
+
+      await expect(
+        session.setVariable('x', 1, { signal: AbortSignal.abort() })
+      ).rejects.toBeInstanceOf(MatlabAbortError);
+      await expect(session.addPath('/tools', { timeout: 1000 })).resolves.toBeUndefined();
+      await session.close();
+    });
+
+    it('should reject with the serialized error and keep the queue in sync', async () => {
+      const session = new MatlabSession();
+      await session.start();
+
+      const failed = session.run("error('test:failed', 'Test failure')");
+      const next = session.run('z = 3;');
+
+      await expect(failed).rejects.toThrow('Test failure');
+      await expect(next).resolves.toMatchObject({ exitCode: 0 });
+      await session.close();
+    });
+  });
+
+  describe('snapshots', () => {
+    it('should keep the helpers and added paths when restoring a snapshot', async () => {
+      const session = new MatlabSession({ addPath: ['/toolbox'] });
+      await session.start();
+      await session.addPath('/tools');
+      const child = processes[0] as FakeProcess;
+
+      await session.restoreSnapshot('/other/snapshot.mat');
+      const restore = child.written.at(-1) ?? '';
+      const replaced = restore.indexOf('path(__nm_snapshot__.path);');
+      expect(replaced).toBeGreaterThan(-1);
+      expect(restore.slice(replaced)).toMatch(/addpath\(''[^']*node-matlab-helpers-[^']*''\);/);
+      expect(restore.slice(replaced)).toContain("addpath(''/toolbox'');");
+      expect(restore.slice(replaced)).toContain("addpath(''/tools'');");
+
+      child.nextOutput =
+        '__NODE_MATLAB_PROGRESS_START__{"fraction":1}__NODE_MATLAB_PROGRESS_END__\n';
+      const records: MatlabProgress[] = [];
+      await session.run('nm_progress(1)', {
+        onStructuredProgress: (progress) => records.push(progress),
+      });
+      expect(records).toEqual([{ fraction: 1 }]);
+      await session.close();
+    });
+  });
+
+  describe('callbacks', () => {
+    it('should answer nm_call with the converted return value', async () => {
+      const session = new MatlabSession();
+      await session.start();
+      const child = processes[0] as FakeProcess;
+      const calls: unknown[][] = [];
+      session.registerCallback('fetch', async (...args) => {
+        calls.push(args);
+        return { id: 42, name: "it's" };
+      });
+
+      child.nextCall = {
+        name: 'fetch',
+        args: [42, { nm_array_class: 'int32', nm_array_dims: [1, 2], nm_array_data: [1, 2] }],
+      };
+      const result = await session.run("record = nm_call('fetch', 42, int32([1 2]))");
+
+      expect(calls[0]?.[0]).toBe(42);
+      expect(calls[0]?.[1]).toBeInstanceOf(MatlabArray);
+      expect(JSON.parse(result.output.slice('answer: '.length))).toEqual({
+        value: "struct('id', 42, 'name', 'it''s')",
+      });
+      await session.close();
+    });
+
+    it('should send callback errors back to MATLAB', async () => {
+      const session = new MatlabSession();
+      await session.start();
+      const child = processes[0] as FakeProcess;
+      session.registerCallback('confirm', () => {
+        throw new Error('Denied');
+      });
+
+      child.nextCall = { name: 'confirm', args: [] };
+      const denied = await session.run("nm_call('confirm')");
+      child.nextCall = { name: 'missing', args: [] };
+      const missing = await session.run("nm_call('missing')");
+
+      expect(denied.output).toBe('answer: {"error":"Denied"}');
+      expect(missing.output).toContain("No callback registered as 'missing'");
+      expect(session.unregisterCallback('confirm')).toBe(true);
+      await session.close();
+    });
+  });
+
+  describe('figures', () => {
+    it('should capture open figures into buffers', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'node-matlab-test-'));
+      const path = join(dir, 'figure_2.png');
+      await writeFile(path, 'PNG');
+
+      const session = new MatlabSession();
+      await session.start();
+      const child = processes[0] as FakeProcess;
+      const record = { path, figureNumber: 2, name: 'Loss', width: 640, height: 480 };
+      child.nextOutput = `__NODE_MATLAB_FIGURE_START__${JSON.stringify(record)}__NODE_MATLAB_FIGURE_END__\n`;
+
+      const figures = await session.captureFigures({ format: 'png' });
+
+      expect(child.written.at(-1)).toContain('findall(0');
+      expect(figures).toEqual([
+        {
+          buffer: Buffer.from('PNG'),
+          format: 'png',
+          width: 640,
+          height: 480,
+          figureNumber: 2,
+          name: 'Loss',
+        },
+      ]);
+      await session.close();
+      await rm(dir, { recursive: true, force: true });
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should interrupt a command that times out and keep the session usable', async () => {
+      const session = new MatlabSession();
+      await session.start();
+
+      const slow = session.run('pause(60)', { timeout: 20 });
+      const next = session.run('x = 1;');
+
+      await expect(slow).rejects.toBeInstanceOf(MatlabTimeoutError);
+      await expect(next).resolves.toMatchObject({ exitCode: 0 });
+      expect(processes).toHaveLength(1);
+      expect(processes[0]?.signals).toEqual(['SIGINT']);
+      await session.close();
+    });
+
+    it('should interrupt a running command when its signal aborts', async () => {
+      const session = new MatlabSession();
+      await session.start();
+      const controller = new AbortController();
+
+      const slow = session.run('pause(60)', { signal: controller.signal });
+      setTimeout(() => controller.abort(), 10);
+
+      await expect(slow).rejects.toBeInstanceOf(MatlabAbortError);
+      await expect(session.run('y = 2;')).resolves.toMatchObject({ exitCode: 0 });
+      await session.close();
+    });
+
+    it('should drop queued commands without interrupting MATLAB', async () => {
+      const session = new MatlabSession();
+      await session.start();
+      const controller = new AbortController();
+
+      const first = session.run('a = 1;');
+      const queued = session.run('b = 2;', { signal: controller.signal });
+      controller.abort();
+
+      await expect(queued).rejects.toBeInstanceOf(MatlabAbortError);
+      await expect(first).resolves.toMatchObject({ exitCode: 0 });
+      expect(processes[0]?.signals).toEqual([]);
+      expect(processes[0]?.written.some((w) => w.includes('b = 2;'))).toBe(false);
+      await session.close();
+    });
+
+    it('should reject immediately for an already aborted signal', async () => {
+      const session = new MatlabSession();
+      await session.start();
+
+      await expect(session.run('x = 1;', { signal: AbortSignal.abort() })).rejects.toBeInstanceOf(
+        MatlabAbortError
+      );
+      await session.close();
+    });
+
+    it('should probe again when the interrupt arrives after the command finished', async () => {
+      const session = new MatlabSession({ interruptTimeout: 20 });
+      await session.start();
+      const child = processes[0] as FakeProcess;
+      const controller = new AbortController();
+
+      const finishing = session.run('pause(60)', { signal: controller.signal });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      child.busy = false;
+      controller.abort();
+
+      await expect(finishing).rejects.toBeInstanceOf(MatlabAbortError);
+      await expect(session.run('x = 1;')).resolves.toMatchObject({ exitCode: 0 });
+      expect(processes).toHaveLength(1);
+      expect(child.signals).toEqual(['SIGINT']);
+      await session.close();
+    });
+
+    it('should restart MATLAB instead of interrupting it on Windows', async () => {
+      const platform = Object.getOwnPropertyDescriptor(process, 'platform');
+      Object.defineProperty(process, 'platform', { value: 'win32' });
+      try {
+        const session = new MatlabSession();
+        const restarts: SessionRestartEvent[] = [];
+        session.on('restart', (event: SessionRestartEvent) => restarts.push(event));
+        await session.start();
+
+        const slow = session.run('pause(60)', { timeout: 10 });
+        const next = session.run('x = 1;');
+
+        await expect(slow).rejects.toBeInstanceOf(MatlabTimeoutError);
+        await expect(next).resolves.toMatchObject({ exitCode: 0 });
+        expect(processes[0]?.signals).toEqual(['SIGKILL']);
+        expect(restarts[0]?.reason).toBe('Command cancelled');
+        await session.close();
+      } finally {
+        if (platform) {
+          Object.defineProperty(process, 'platform', platform);
+        }
+      }
+    });
+
+    it('should restart MATLAB when the interrupt does not return to the prompt', async () => {
+      const session = new MatlabSession({ interruptTimeout: 20 });
+      const restarts: SessionRestartEvent[] = [];
+      session.on('restart', (event: SessionRestartEvent) => restarts.push(event));
+      await session.start();
+      (processes[0] as FakeProcess).ignoreInterrupt = true;
+
+      const stuck = session.run('pause(60)', { timeout: 10 });
+      const next = session.run('x = 1;');
+
+      await expect(stuck).rejects.toBeInstanceOf(MatlabTimeoutError);
+      await expect(next).resolves.toMatchObject({ exitCode: 0 });
+      expect(processes).toHaveLength(2);
+      expect(processes[0]?.signals).toEqual(['SIGINT', 'SIGKILL']);
+      expect(restarts[0]?.reason).toBe('Command did not stop after interrupt');
+      await session.close();
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Output streaming tests
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  EventChannel,
+  FIGURE_CREATED_MARKER,
+  LineBuffer,
+  PROGRESS_END_MARKER,
+  PROGRESS_START_MARKER,
+  generateFigureWatchCode,
+  parseProgressRecord,
+  removeFigureMarkers,
+  removeProgressRecords,
+  toStreamEvents,
+} from '../src/utils/stream.js';
+
+describe('Streaming Utilities', () => {
+  describe('LineBuffer', () => {
+    it('should join lines cut across chunks', () => {
+      const buffer = new LineBuffer();
+      expect(buffer.push('step 1\nst')).toEqual(['step 1']);
+      expect(buffer.push('ep')).toEqual([]);
+      expect(buffer.push(' 2\r\nstep 3')).toEqual(['step 2']);
+      expect(buffer.flush()).toEqual(['step 3']);
+      expect(buffer.flush()).toEqual([]);
+    });
+  });
+
+  describe('toStreamEvents', () => {
+    it('should emit a line event per line', () => {
+      expect(toStreamEvents('stdout', 'x = 1')).toEqual([{ type: 'stdout', line: 'x = 1' }]);
+      expect(toStreamEvents('stdout', '   ')).toEqual([]);
+    });
+
+    it('should follow warning lines with a warning event', () => {
+      expect(toStreamEvents('stderr', 'Warning: Matrix is singular.')).toEqual([
+        { type: 'stderr', line: 'Warning: Matrix is singular.' },
+        { type: 'warning', message: 'Matrix is singular.' },
+      ]);
+    });
+
+    it('should turn figure markers into figure-created events', () => {
+      expect(toStreamEvents('stdout', `${FIGURE_CREATED_MARKER}2`)).toEqual([
+        { type: 'figure-created', figure: 2 },
+      ]);
+      expect(toStreamEvents('stdout', FIGURE_CREATED_MARKER)).toEqual([
+        { type: 'figure-created', figure: null },
+      ]);
+    });
+
+    it('should turn progress records into progress events', () => {
+      const line = `${PROGRESS_START_MARKER}{"fraction":0.5}${PROGRESS_END_MARKER}`;
+      expect(toStreamEvents('stdout', line)).toEqual([
+        { type: 'progress', progress: { fraction: 0.5 } },
+      ]);
+    });
+
+    it('should drop the batch exception report', () => {
+      expect(
+        toStreamEvents('stderr', '__NODE_MATLAB_EXCEPTION_START__{}__NODE_MATLAB_EXCEPTION_END__')
+      ).toEqual([]);
+    });
+  });
+
+  describe('generateFigureWatchCode', () => {
+    it('should install a figure CreateFcn', () => {
+      expect(generateFigureWatchCode()).toContain(
+        `set(groot, 'defaultFigureCreateFcn', @(f, ~) fprintf('${FIGURE_CREATED_MARKER}%d\\n', f.Number));`
+      );
+    });
+
+    it('should remove the CreateFcn after the code, also on failure', () => {
+      const code = generateFigureWatchCode('plot(1:10)');
+      expect(code).toContain("try, eval(strjoin({'plot(1:10)'}, newline));");
+      expect(code).toContain('rethrow(__nm_stream_err__)');
+      expect(code.endsWith("set(groot, 'defaultFigureCreateFcn', 'remove');")).toBe(true);
+    });
+  });
+
+  describe('removeFigureMarkers', () => {
+    it('should strip marker lines from output', () => {
+      expect(removeFigureMarkers(`a\n${FIGURE_CREATED_MARKER}1\nb`)).toBe('a\nb');
+    });
+  });
+
+  describe('parseProgressRecord', () => {
+    it('should decode the record printed by nm_progress', () => {
+      const json = JSON.stringify({ fraction: 0.25, message: 'Epoch 1', data: { loss: 0.3 } });
+      expect(parseProgressRecord(`${PROGRESS_START_MARKER}${json}${PROGRESS_END_MARKER}`)).toEqual({
+        fraction: 0.25,
+        message: 'Epoch 1',
+        data: { loss: 0.3 },
+      });
+    });
+
+    it('should return null for other lines', () => {
+      expect(parseProgressRecord('50% done')).toBeNull();
+      expect(parseProgressRecord(`${PROGRESS_START_MARKER}{bad${PROGRESS_END_MARKER}`)).toBeNull();
+    });
+  });
+
+  describe('removeProgressRecords', () => {
+    it('should strip progress records from output', () => {
+      const record = `${PROGRESS_START_MARKER}{"fraction":1}${PROGRESS_END_MARKER}`;
+      expect(removeProgressRecords(`a\n${record}\nb\n`)).toBe('a\nb');
+    });
+  });
+
+  describe('EventChannel', () => {
+    it('should deliver buffered and later events in order', async () => {
+      const channel = new EventChannel<number>();
+      channel.push(1);
+      setTimeout(() => {
+        channel.push(2);
+        channel.close();
+      }, 1);
+
+      const values: number[] = [];
+      for await (const value of channel) {
+        values.push(value);
+      }
+      expect(values).toEqual([1, 2]);
+    });
+
+    it('should throw the close error after the buffered events', async () => {
+      const channel = new EventChannel<number>();
+      channel.push(1);
+      channel.close(new Error('failed'));
+
+      const values: number[] = [];
+      await expect(
+        (async () => {
+          for await (const value of channel) {
+            values.push(value);
+          }
+        })()
+      ).rejects.toThrow('failed');
+      expect(values).toEqual([1]);
+    });
+
+    it('should pause the producer until the consumer catches up', async () => {
+      const pause = vi.fn();
+      const resume = vi.fn();
+      const channel = new EventChannel<number>({ pause, resume });
+
+      for (let i = 0; i < 300; i++) {
+        channel.push(i);
+      }
+      expect(pause).toHaveBeenCalledTimes(1);
+
+      for (let i = 0; i < 200; i++) {
+        await channel.next();
+      }
+      expect(resume).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cancel the producer when the consumer stops early', async () => {
+      const cancel = vi.fn();
+      const channel = new EventChannel<number>({ cancel });
+      channel.push(1);
+      channel.push(2);
+
+      for await (const value of channel) {
+        expect(value).toBe(1);
+        break;
+      }
+      expect(cancel).toHaveBeenCalledTimes(1);
+      await expect(channel.next()).resolves.toEqual({ value: undefined, done: true });
+    });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Binary variable transfer tests
+ */
+
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { MatlabError } from '../src/errors.js';
+import {
+  BINARY_MAGIC,
+  DEFAULT_BINARY_THRESHOLD,
+  generateBinaryExtractionCode,
+  parseBinaryVariable,
+  readBinaryVariables,
+  resolveBinaryThreshold,
+} from '../src/utils/transfer.js';
+
+/**
+ * Build a binary variable file the way the generated MATLAB code writes it
+ */
+function binaryVariable(
+  type: string,
+  dims: number[],
+  real: ArrayBufferView,
+  imag?: ArrayBufferView
+): Buffer {
+  const header = Buffer.alloc(4 + 1 + type.length + 1 + 4 + dims.length * 8);
+  let offset = header.write(BINARY_MAGIC, 0, 'latin1');
+  offset = header.writeUInt8(type.length, offset);
+  offset += header.write(type, offset, 'latin1');
+  offset = header.writeUInt8(imag ? 1 : 0, offset);
+  offset = header.writeUInt32LE(dims.length, offset);
+  for (const dim of dims) {
+    offset = header.writeBigUInt64LE(BigInt(dim), offset);
+  }
+
+  const parts = [header, Buffer.from(real.buffer, real.byteOffset, real.byteLength)];
+  if (imag) {
+    parts.push(Buffer.from(imag.buffer, imag.byteOffset, imag.byteLength));
+  }
+  return Buffer.concat(parts);
+}
+
+describe('Binary Transfer Utilities', () => {
+  describe('resolveBinaryThreshold', () => {
+    it('should default to JSON transfer', () => {
+      expect(resolveBinaryThreshold()).toBeNull();
+      expect(resolveBinaryThreshold({ transfer: 'json', binaryThreshold: 10 })).toBeNull();
+    });
+
+    it('should send every numeric array in binary mode', () => {
+      expect(resolveBinaryThreshold({ transfer: 'binary' })).toBe(0);
+    });
+
+    it('should use the threshold in auto mode', () => {
+      expect(resolveBinaryThreshold({ transfer: 'auto' })).toBe(DEFAULT_BINARY_THRESHOLD);
+      expect(resolveBinaryThreshold({ transfer: 'auto', binaryThreshold: 500 })).toBe(500);
+    });
+
+    it('should imply auto mode when only a threshold is given', () => {
+      expect(resolveBinaryThreshold({ binaryThreshold: 100 })).toBe(100);
+    });
+  });
+
+  describe('generateBinaryExtractionCode', () => {
+    it('should return empty string for no variables', () => {
+      expect(generateBinaryExtractionCode([], '/tmp/out', 0)).toBe('');
+    });
+
+    it('should write large numeric arrays to binary files', () => {
+      const code = generateBinaryExtractionCode(['A'], '/tmp/out', 1000);
+      expect(code).toContain('numel(A) >= 1000');
+      expect(code).toContain("fopen('/tmp/out/A.bin', 'w', 'ieee-le')");
+      expect(code).toContain('fwrite(__nm_fid__, A, __nm_prec__);');
+    });
+
+    it('should fall back to JSON for other variables', () => {
+      const code = generateBinaryExtractionCode(['A', 'name'], '/tmp/out', 0);
+      expect(code).toContain('__nm_json__.name = name;');
+      expect(code).toContain('jsonencode(__nm_json__)');
+      expect(code).toContain('__NODE_MATLAB_JSON_START__');
+    });
+
+    it('should escape quotes in the output directory', () => {
+      const code = generateBinaryExtractionCode(['A'], "/tmp/it's", 0);
+      expect(code).toContain("'/tmp/it''s/A.bin'");
+    });
+  });
+
+  describe('parseBinaryVariable', () => {
+    it('should parse a double matrix in column-major order', () => {
+      const data = new Float64Array([1, 4, 2, 5, 3, 6]);
+      const result = parseBinaryVariable(binaryVariable('double', [2, 3], data));
+
+      expect(result.type).toBe('double');
+      expect(result.dims).toEqual([2, 3]);
+      expect(result.real).toBeInstanceOf(Float64Array);
+      expect(Array.from(result.real as Float64Array)).toEqual([1, 4, 2, 5, 3, 6]);
+      expect(result.imag).toBeUndefined();
+    });
+
+    it('should parse integer and logical classes', () => {
+      const ints = parseBinaryVariable(binaryVariable('int16', [1, 3], new Int16Array([-1, 0, 1])));
+      expect(ints.real).toBeInstanceOf(Int16Array);
+      expect(Array.from(ints.real as Int16Array)).toEqual([-1, 0, 1]);
+
+      const mask = parseBinaryVariable(binaryVariable('logical', [1, 2], new Uint8Array([1, 0])));
+      expect(mask.type).toBe('logical');
+      expect(Array.from(mask.real as Uint8Array)).toEqual([1, 0]);
+    });
+
+    it('should parse 64-bit integers as bigint arrays', () => {
+      const result = parseBinaryVariable(
+        binaryVariable('uint64', [1, 1], new BigUint64Array([18446744073709551615n]))
+      );
+      expect(result.real).toBeInstanceOf(BigUint64Array);
+      expect(result.real[0]).toBe(18446744073709551615n);
+    });
+
+    it('should parse complex arrays', () => {
+      const result = parseBinaryVariable(
+        binaryVariable('single', [1, 2], new Float32Array([1, 2]), new Float32Array([3, 4]))
+      );
+      expect(Array.from(result.real as Float32Array)).toEqual([1, 2]);
+      expect(Array.from(result.imag as Float32Array)).toEqual([3, 4]);
+    });
+
+    it('should parse N-D arrays', () => {
+      const result = parseBinaryVariable(
+        binaryVariable('double', [2, 2, 2], new Float64Array([1, 2, 3, 4, 5, 6, 7, 8]))
+      );
+      expect(result.dims).toEqual([2, 2, 2]);
+      expect(result.real.length).toBe(8);
+    });
+
+    it('should reject data without the magic header', () => {
+      expect(() => parseBinaryVariable(Buffer.from('not binary'))).toThrow(MatlabError);
+    });
+
+    it('should reject truncated data', () => {
+      const full = binaryVariable('double', [1, 4], new Float64Array([1, 2, 3, 4]));
+      expect(() => parseBinaryVariable(full.subarray(0, full.length - 8))).toThrow(/truncated/);
+    });
+  });
+
+  describe('readBinaryVariables', () => {
+    it('should read files that exist and skip the rest', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'node-matlab-test-'));
+      try {
+        await writeFile(
+          join(dir, 'A.bin'),
+          binaryVariable('double', [1, 2], new Float64Array([7, 8]))
+        );
+
+        const result = await readBinaryVariables(dir, ['A', 'name']);
+        expect(Object.keys(result)).toEqual(['A']);
+        expect(Array.from(result.A?.real as Float64Array)).toEqual([7, 8]);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -2,12 +2,21 @@
  * Version utility tests
  */
 
-import { describe, expect, it } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import {
+  compareReleases,
+  findInstallations,
+  isInstalled,
   isVersionSupported,
   parseNumericVersion,
   parseToolboxList,
+  parseVersionInfo,
   parseVersionString,
+  readInstalledVersion,
+  satisfiesRelease,
 } from '../src/utils/version.js';
 
 describe('Version Utilities', () => {
@@ -122,4 +131,156 @@ More random text without version
       expect(toolboxes[0]?.version).toBe('14.6.0.1');
     });
   });
+
+  describe('findInstallations', () => {
+    const executableName = process.platform === 'win32' ? 'matlab.exe' : 'matlab';
+    let dir: string;
+
+    const createRoot = (root: string, versionInfo?: string) => {
+      mkdirSync(join(root, 'bin'), { recursive: true });
+      writeFileSync(join(root, 'bin', executableName), '');
+      if (versionInfo) {
+        writeFileSync(join(root, 'VersionInfo.xml'), versionInfo);
+      }
+    };
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'node-matlab-installs-'));
+      vi.stubEnv('MATLAB_ROOT', '');
+      vi.stubEnv('PATH', '');
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should list release folders newest first', () => {
+      createRoot(join(dir, 'R2022b'));
+      createRoot(join(dir, 'R2024a'));
+      mkdirSync(join(dir, 'R2023a')); // no executable
+      mkdirSync(join(dir, 'licenses'));
+
+      const installations = findInstallations([dir]);
+      expect(installations.map((i) => i.release)).toEqual(['R2024a', 'R2022b']);
+      expect(installations[0]?.executable).toBe(join(dir, 'R2024a', 'bin', executableName));
+    });
+
+    it('should include MATLAB_ROOT once', () => {
+      createRoot(join(dir, 'R2023b'));
+      createRoot(join(dir, 'custom'));
+      vi.stubEnv('MATLAB_ROOT', join(dir, 'R2023b'));
+      expect(findInstallations([dir]).map((i) => i.release)).toEqual(['R2023b']);
+
+      vi.stubEnv('MATLAB_ROOT', join(dir, 'custom'));
+      expect(findInstallations([dir]).map((i) => i.release)).toEqual(['R2023b', 'Unknown']);
+    });
+
+    it('should read the version from VersionInfo.xml', () => {
+      createRoot(
+        join(dir, 'R2023a'),
+        '<MathWorks_version_info><version>9.14.0.2206163</version><release>R2023a</release></MathWorks_version_info>'
+      );
+      createRoot(join(dir, 'R2022b'));
+
+      const installations = findInstallations([dir]);
+      expect(installations.map((i) => [i.release, i.version])).toEqual([
+        ['R2023a', '9.14.0.2206163'],
+        ['R2022b', 'Unknown'],
+      ]);
+    });
+
+    it.skipIf(process.platform === 'win32')('should follow matlab symlinks on the PATH', () => {
+      const root = join(dir, 'opt', 'matlab-custom');
+      createRoot(root, '<version>24.1.0.2537033</version><release>R2024a</release>');
+      mkdirSync(join(dir, 'links'));
+      symlinkSync(join(root, 'bin', executableName), join(dir, 'links', executableName));
+      vi.stubEnv('PATH', join(dir, 'links'));
+
+      expect(findInstallations([])).toEqual([
+        {
+          root,
+          executable: join(root, 'bin', executableName),
+          release: 'R2024a',
+          version: '24.1.0.2537033',
+        },
+      ]);
+    });
+
+    it('should read the version of a configured executable', () => {
+      createRoot(join(dir, 'R2019b'), '<version>9.7.0.1190202</version><release>R2019b</release>');
+      expect(
+        readInstalledVersion({ executable: join(dir, 'R2019b', 'bin', executableName) })
+      ).toMatchObject({ version: '9.7.0.1190202', release: 'R2019b' });
+      expect(readInstalledVersion({ executable: join(dir, 'missing', 'matlab') })).toBeNull();
+    });
+
+    it('should report an executable path as installed when it exists', () => {
+      createRoot(join(dir, 'R2024a'));
+      expect(isInstalled({ executable: join(dir, 'R2024a', 'bin', executableName) })).toBe(true);
+      expect(isInstalled({ executable: join(dir, 'missing', 'matlab') })).toBe(false);
+    });
+  });
+
+  describe('parseVersionInfo', () => {
+    it('should parse VersionInfo.xml', () => {
+      const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<MathWorks_version_info>
+  <version>9.13.0.2049777</version>
+  <release>R2022b</release>
+  <description></description>
+</MathWorks_version_info>`;
+      expect(parseVersionInfo(xml)).toEqual({
+        version: '9.13.0.2049777',
+        release: 'R2022b',
+        full: '9.13.0.2049777 (R2022b)',
+      });
+    });
+
+    it('should return null without a version', () => {
+      expect(parseVersionInfo('<MathWorks_version_info/>')).toBeNull();
+    });
+  });
+
+  describe('compareReleases', () => {
+    it('should order releases chronologically', () => {
+      expect(compareReleases('R2023a', 'R2022b')).toBeGreaterThan(0);
+      expect(compareReleases('R2023a', 'R2023b')).toBeLessThan(0);
+      expect(compareReleases('R2023a', 'r2023A')).toBe(0);
+      expect(compareReleases('Unknown', 'R2019a')).toBeLessThan(0);
+    });
+  });
+
+  describe('satisfiesRelease', () => {
+    it('should match comparators', () => {
+      expect(satisfiesRelease('R2023a', '>=R2023a')).toBe(true);
+      expect(satisfiesRelease('R2022b', '>=R2023a')).toBe(false);
+      expect(satisfiesRelease('R2023b', '> R2023a')).toBe(true);
+      expect(satisfiesRelease('R2024a', '<R2024a')).toBe(false);
+      expect(satisfiesRelease('R2024a', 'R2024a')).toBe(true);
+      expect(satisfiesRelease('R2024a', '=R2023b')).toBe(false);
+    });
+
+    it('should require every comparator of an alternative', () => {
+      expect(satisfiesRelease('R2023b', '>=R2023a <R2024a')).toBe(true);
+      expect(satisfiesRelease('R2024a', '>=R2023a <R2024a')).toBe(false);
+    });
+
+    it('should match hyphen spans and alternatives', () => {
+      expect(satisfiesRelease('R2024a', 'R2022b - R2024a')).toBe(true);
+      expect(satisfiesRelease('R2024b', 'R2022b - R2024a')).toBe(false);
+      expect(satisfiesRelease('R2019b', 'R2022b - R2024a || R2019b')).toBe(true);
+    });
+
+    it('should match any release with an empty range or *', () => {
+      expect(satisfiesRelease('R2019a', '*')).toBe(true);
+      expect(satisfiesRelease('R2019a', '')).toBe(true);
+      expect(satisfiesRelease('Unknown', '>=R2019a')).toBe(false);
+    });
+
+    it('should reject invalid ranges', () => {
+      expect(() => satisfiesRelease('R2023a', '>=2023a')).toThrow('Invalid release range');
+      expect(() => satisfiesRelease('R2023a', '^R2023a')).toThrow('Invalid release range');
+    });
+  });
 });
@@ -0,0 +1,164 @@
+/**
+ * Workspace introspection and snapshot tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import { MatlabError } from '../src/errors.js';
+import {
+  generateClearVariablesCode,
+  generateHasVariableCode,
+  generateRestoreSnapshotCode,
+  generateSaveSnapshotCode,
+  generateWhosCode,
+  parseWhosOutput,
+} from '../src/utils/workspace.js';
+
+describe('Workspace Utilities', () => {
+  describe('generateWhosCode', () => {
+    it('should emit whos as JSON and clean up', () => {
+      const code = generateWhosCode();
+      expect(code).toContain("rmfield(whos, 'nesting')");
+      expect(code).toContain('__NODE_MATLAB_JSON_START__');
+      expect(code).toMatch(/clear __nm_whos__;$/);
+    });
+  });
+
+  describe('generateHasVariableCode', () => {
+    it('should check for workspace variables', () => {
+      expect(generateHasVariableCode('x')).toContain("exist('x', 'var') == 1");
+    });
+
+    it('should reject invalid names', () => {
+      expect(() => generateHasVariableCode("x'); delete('f")).toThrow(MatlabError);
+    });
+  });
+
+  describe('generateClearVariablesCode', () => {
+    it('should clear named variables', () => {
+      expect(generateClearVariablesCode(['x', 'y'])).toBe('clear x y;');
+    });
+
+    it('should clear all variables when no names are given', () => {
+      expect(generateClearVariablesCode()).toBe('clear variables;');
+      expect(generateClearVariablesCode([])).toBe('');
+    });
+
+    it('should reject invalid names', () => {
+      expect(() => generateClearVariablesCode(['x', '1y'])).toThrow(/Invalid MATLAB variable name/);
+    });
+  });
+
+  describe('parseWhosOutput', () => {
+    it('should convert whos entries to VariableInfo', () => {
+      const vars = parseWhosOutput([
+        {
+          name: 'S',
+          size: [3, 3],
+          bytes: 56,
+          class: 'double',
+          global: false,
+          sparse: true,
+          complex: false,
+          persistent: false,
+        },
+        {
+          name: 'g',
+          size: [1, 1],
+          bytes: 16,
+          class: 'single',
+          global: true,
+          sparse: false,
+          complex: true,
+          persistent: false,
+        },
+      ]);
+
+      expect(vars).toEqual([
+        {
+          name: 'S',
+          size: [3, 3],
+          type: 'double',
+          bytes: 56,
+          complex: false,
+          sparse: true,
+          global: false,
+          persistent: false,
+        },
+        {
+          name: 'g',
+          size: [1, 1],
+          type: 'single',
+          bytes: 16,
+          complex: true,
+          sparse: false,
+          global: true,
+          persistent: false,
+        },
+      ]);
+    });
+
+    it('should accept a single entry', () => {
+      const vars = parseWhosOutput({
+        name: 'm',
+        size: [1, 1],
+        bytes: 8,
+        class: 'containers.Map',
+        global: false,
+        sparse: false,
+        complex: false,
+        persistent: false,
+      });
+      expect(vars).toHaveLength(1);
+      expect(vars[0]?.type).toBe('unknown');
+    });
+
+    it('should skip node-matlab temporaries and handle empty workspaces', () => {
+      expect(parseWhosOutput([])).toEqual([]);
+      expect(parseWhosOutput(null)).toEqual([]);
+      expect(
+        parseWhosOutput([
+          {
+            name: '__nm_result__',
+            size: [1, 1],
+            bytes: 0,
+            class: 'struct',
+            global: false,
+            sparse: false,
+            complex: false,
+            persistent: false,
+          },
+        ])
+      ).toEqual([]);
+    });
+  });
+
+  describe('generateSaveSnapshotCode', () => {
+    it('should save the workspace with the directory and path', () => {
+      const code = generateSaveSnapshotCode('/tmp/snap.mat');
+      expect(code).toContain("__nm_snapshot__ = struct('cwd', pwd, 'path', path);");
+      expect(code).toContain("save('/tmp/snap.mat', '-v7.3');");
+      expect(code).toMatch(/clear __nm_snapshot__;$/);
+    });
+
+    it('should escape quotes in the file path', () => {
+      expect(generateSaveSnapshotCode("/tmp/it's.mat")).toContain("save('/tmp/it''s.mat'");
+    });
+  });
+
+  describe('generateRestoreSnapshotCode', () => {
+    it('should replace the workspace and restore the directory and path', () => {
+      const code = generateRestoreSnapshotCode('/tmp/snap.mat');
+      expect(code.indexOf('clear variables;')).toBeLessThan(code.indexOf("load('/tmp/snap.mat');"));
+      expect(code).toContain('path(__nm_snapshot__.path);');
+      expect(code).toContain('cd(__nm_snapshot__.cwd);');
+    });
+
+    it('should add the kept directories back after the saved path', () => {
+      const code = generateRestoreSnapshotCode('/tmp/snap.mat', ['/helpers', "/o'brien"]);
+      expect(code.indexOf('path(__nm_snapshot__.path);')).toBeLessThan(
+        code.indexOf("addpath('/helpers');")
+      );
+      expect(code).toContain("addpath('/o''brien');");
+    });
+  });
+});